@@ -1,56 +1,130 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
 import { 
-  LayoutDashboard, 
-  Coffee, 
-  Hammer, 
-  MessageSquareText, 
   FileText, 
-  Download, 
-  Search, 
   ChevronDown, 
   Sparkles,
+  ShieldCheck,
   ArrowUpDown,
   RefreshCcw,
-  X
+  X,
+  AlertTriangle,
+  CalendarDays,
+  Rows3,
+  Grid3x3,
+  Columns3,
+  ListFilter,
+  Boxes,
+  ClipboardList,
+  Kanban,
+  Wallet
 } from 'lucide-react';
-import { parseCSV, formatCurrency, identifyColumns, downloadPDF, parseDate } from './utils';
-import { LogEntry, ReportConfig, ColumnDefinition, FilterState } from './types';
+import { 
+  formatCurrency, 
+  cellText,
+  downloadPDF, 
+  createPDFFile,
+  ALL_DATES, 
+  getMainDateColumn, 
+  isDateRangeActive, 
+  isWithinDateRange, 
+  formatDateRange,
+  getDayRange,
+  isCurrencyColumn,
+  parseAmount
+} from './utils';
+import { loadReportData, getSourceKey, DataSourceError } from './services/dataSources';
+import { getSnapshot, saveSnapshot } from './services/snapshotCache';
+import { loadReportRegistry, ReportConfigError } from './services/reportRegistry';
+import { createValidation } from './services/schema';
+import { prepareReportData } from './services/dataWorkerClient';
+import { getRowTimestamp, getUniqueValues, indexSourceRows } from './services/rowIndex';
+import { getRefreshInterval, saveRefreshInterval, identifyRows, diffRows, hasChanges, mergeChanges, notifyNewRows } from './services/autoRefresh';
+import { identifyEnquiries } from './services/enquiryPipeline';
+import { readViewState, writeViewState } from './services/urlState';
+import { parseQuery, createQueryMatcher, getHighlightTerms } from './services/searchQuery';
+import { applyFilters, describeCondition, getSingleValue, isConditionComplete, setSingleValue } from './services/filters';
+import { resolveColumnLayout, arrangeColumns, getVisibleColumns, saveColumnLayout, clearColumnLayout } from './services/columnLayout';
+import {
+  loadSavedViews, saveSavedViews, getDefaultView, createSavedView, upsertView, removeView, withSavedView, findMatchingView,
+  exportSavedViews, importSavedViews
+} from './services/savedViews';
+import { 
+  LogEntry, 
+  ReportConfig, 
+  ColumnDefinition, 
+  FilterState, 
+  FilterCondition,
+  CSVRowIssue, 
+  CSVParseResult, 
+  SyncStatus, 
+  DateRange, 
+  ExportDetails,
+  ColumnLayout,
+  SchemaValidation,
+  SortState,
+  ViewMode,
+  ViewState,
+  PreparedData,
+  ReportChanges,
+  RowChange,
+  SavedView,
+  SavedViewSet
+} from './types';
+import ParseIssuesBanner from './components/ParseIssuesBanner';
+import SchemaIssuesBanner from './components/SchemaIssuesBanner';
+import ReportIcon from './components/ReportIcon';
+import FileSourcePrompt from './components/FileSourcePrompt';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import DateRangePicker from './components/DateRangePicker';
+import InsightsPanel from './components/InsightsPanel';
+import DataQualityPanel from './components/DataQualityPanel';
+import ReportDashboard from './components/ReportDashboard';
+import DailySummary from './components/DailySummary';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import PivotView from './components/PivotView';
+import StockView from './components/StockView';
+import MusterRollView from './components/MusterRollView';
+import PipelineView from './components/PipelineView';
+import PaymentsView from './components/PaymentsView';
+import ShareButton from './components/ShareButton';
+import SavedViewsMenu from './components/SavedViewsMenu';
+import EntryDetailsModal from './components/EntryDetailsModal';
+import ColumnManager from './components/ColumnManager';
+import FilterBuilder from './components/FilterBuilder';
+import QuerySearchInput from './components/QuerySearchInput';
+import HighlightText from './components/HighlightText';
+import CopyLinkButton from './components/CopyLinkButton';
+import AutoRefreshControl from './components/AutoRefreshControl';
+import ChangesBanner from './components/ChangesBanner';
+import { exportCSV, exportJSON, exportXLSX } from './services/exporters';
+import { buildShareText, shareSummary, ShareOutcome } from './services/shareSummary';
+import { getSummaryProvider } from './services/summaryProviders';
+import { t, getLanguage, setLanguage, Language, LANGUAGES, MessageKey, LocaleContext, useLocale } from './services/i18n';
 
 // --- Constants & Config ---
-const REPORTS: ReportConfig[] = [
-  {
-    id: 'worklog',
-    title: 'Worklog Report',
-    type: 'work',
-    primaryColor: 'text-blue-600',
-    url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vRppVpVKZyqlGUMyj5ittwOEzKkG5aarI5T1ZL__ahFnkE_IPAMPRlyKxD3UHP1QZQmvDGSQqp2nXya/pub?gid=963052324&single=true&output=csv'
-  },
-  {
-    id: 'material',
-    title: 'Material Log Report',
-    type: 'material',
-    primaryColor: 'text-amber-600',
-    url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vRojP6VfHlmeCYOYSW5NGTlXvHFK_M4MGgiziRwc443SCJGOD2K13qS9aF4_lLJeAEXa3VDh_lhIQWS/pub?gid=1476787141&single=true&output=csv'
-  },
-  {
-    id: 'enquiry',
-    title: 'Site Enquiry Log',
-    type: 'enquiry',
-    primaryColor: 'text-purple-600',
-    url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vTzOSn7-7AhZkO5znAq056hNmZlToLGWEVeWxDHgmG7K3ycuBpIJLRRXLzSx7aCAdPbhZU8jkzm_dSP/pub?gid=0&single=true&output=csv'
-  },
-  {
-    id: 'tealog',
-    title: 'Tea Log Report',
-    type: 'tea',
-    primaryColor: 'text-emerald-600',
-    url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSfFMFhgoEGZjCoX9WMlb5cH8nAaL3D7yE2w4De1Ba5bgThAD5C4yAk6pkW9Y0NDVTMr7dZ3fiemR6J/pub?gid=1343982457&single=true&output=csv'
-  }
-];
+
+// Tab id of the cross-report summary; report ids come from reports.json
+const DAILY_SUMMARY_TAB = 'daily-summary';
 
 // --- Components ---
 
-const Header = ({ activeTab, onTabChange }: { activeTab: string, onTabChange: (id: string) => void }) => {
+const Header = ({ 
+  reports, 
+  activeTab, 
+  onTabChange,
+  syncStatus,
+  badges,
+  language,
+  onLanguageChange
+}: { 
+  reports: ReportConfig[], 
+  activeTab: string, 
+  onTabChange: (id: string) => void,
+  syncStatus: SyncStatus | null,
+  badges: Record<string, number>,
+  language: Language,
+  onLanguageChange: (language: Language) => void
+}) => {
   const [isVisible, setIsVisible] = useState(true);
   const lastScrollY = useRef(0);
 
@@ -99,20 +173,30 @@ const Header = ({ activeTab, onTabChange }: { activeTab: string, onTabChange: (i
               <div className="bg-gradient-to-br from-indigo-600 to-indigo-700 p-2.5 rounded-xl shadow-lg shadow-indigo-200/50">
                 <FileText className="h-5 w-5 text-white" />
               </div>
-              <h1 className="text-xl font-bold text-slate-800 tracking-tight">Firm Reports</h1>
+              <h1 className="text-xl font-bold text-slate-800 tracking-tight">{t('app.title')}</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {syncStatus && <SyncStatusBadge status={syncStatus} />}
+              <div className="inline-flex p-0.5 bg-slate-100 rounded-lg border border-slate-200" title={t('language.label')}>
+                {LANGUAGES.map(option => (
+                  <button
+                    key={option.code}
+                    onClick={() => onLanguageChange(option.code)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${language === option.code ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
 
           {/* Navigation Bar */}
           <nav className="w-full md:w-auto">
             <div className="grid grid-cols-2 sm:flex p-1.5 bg-slate-100 rounded-xl border border-slate-200 gap-1 sm:gap-0">
-              {REPORTS.map((report) => {
-                const Icon = report.type === 'work' ? LayoutDashboard 
-                  : report.type === 'tea' ? Coffee 
-                  : report.type === 'material' ? Hammer 
-                  : MessageSquareText;
-                
+              {reports.map((report) => {
                 const isActive = activeTab === report.id;
+                const badge = isActive ? 0 : badges[report.id] || 0;
                 
                 return (
                   <button
@@ -125,11 +209,28 @@ const Header = ({ activeTab, onTabChange }: { activeTab: string, onTabChange: (i
                         : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200/50'}
                     `}
                   >
-                    <Icon className={`h-4 w-4 transition-colors ${isActive ? 'text-indigo-600' : 'text-slate-400'}`} />
+                    <ReportIcon name={report.icon} className={`h-4 w-4 transition-colors ${isActive ? report.primaryColor : 'text-slate-400'}`} />
                     <span className="truncate sm:overflow-visible">{report.title.replace(' Log', '').replace(' Report', '')}</span>
+                    {badge > 0 && (
+                      <span className="min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-rose-500 text-white text-[10px] font-bold leading-none text-center" title={t('tab.newSince', { count: badge })}>
+                        {badge > 99 ? '99+' : badge}
+                      </span>
+                    )}
                   </button>
                 );
               })}
+              <button
+                onClick={() => onTabChange(DAILY_SUMMARY_TAB)}
+                className={`
+                  relative flex items-center justify-center sm:justify-start gap-2 px-3 sm:px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ease-out
+                  ${activeTab === DAILY_SUMMARY_TAB 
+                    ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-slate-900/5' 
+                    : 'text-slate-500 hover:text-slate-900 hover:bg-slate-200/50'}
+                `}
+              >
+                <CalendarDays className={`h-4 w-4 transition-colors ${activeTab === DAILY_SUMMARY_TAB ? 'text-indigo-600' : 'text-slate-400'}`} />
+                <span className="truncate sm:overflow-visible">{t('tab.dailySummary')}</span>
+              </button>
             </div>
           </nav>
         </div>
@@ -143,14 +244,27 @@ const FilterBar = ({
   data, 
   filters, 
   setFilters,
-  reportId
+  allColumns,
+  reportId,
+  dateColumn,
+  dateRange,
+  setDateRange,
+  onAnalyze,
+  onAudit
 }: { 
   columns: ColumnDefinition[], 
   data: LogEntry[], 
   filters: FilterState, 
   setFilters: React.Dispatch<React.SetStateAction<FilterState>>,
-  reportId: string
+  allColumns: ColumnDefinition[],
+  reportId: string,
+  dateColumn?: ColumnDefinition,
+  dateRange: DateRange,
+  setDateRange: (range: DateRange) => void,
+  onAnalyze: () => void,
+  onAudit: () => void
 }) => {
+  const locale = useLocale();
   const filterableColumns = useMemo(() => {
     // 1. Define Priorities
     // Columns that must appear at the START
@@ -189,12 +303,15 @@ const FilterBar = ({
       // Skip if blacklisted
       if (matchKey(col, blockedKeys)) return false;
 
+      // The main date column has its own range picker
+      if (dateColumn && col.key === dateColumn.key) return false;
+
       // Skip numeric amounts
       if (col.isNumeric && col.label.toLowerCase().includes('amount')) return false;
 
-      const uniqueValues = new Set(data.map(row => String(row[col.key])));
+      const uniqueValues = getUniqueValues(data, col.key);
       // Limit auto-columns to small sets
-      return uniqueValues.size > 0 && uniqueValues.size < 20;
+      return uniqueValues.length > 0 && uniqueValues.length < 20;
     });
 
     // 4. Construct Final List (Max 4 slots)
@@ -203,24 +320,65 @@ const FilterBar = ({
     const selectedAutoCols = autoCols.slice(0, availableSlots);
 
     return [...startCols, ...selectedAutoCols, ...endCols];
-  }, [columns, data, reportId]);
+  }, [columns, data, reportId, dateColumn]);
+
+  // null: builder closed; -1: adding; otherwise the index of the condition being edited
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  // Every condition the dropdowns above can't show, whether built here or applied from a chart
+  const chips = filters
+    .map((condition, index) => ({ condition, index }))
+    .filter(({ condition }) => !(
+      condition.operator === 'in' &&
+      condition.values.length === 1 &&
+      filterableColumns.some(col => col.key === condition.column)
+    ));
 
-  const getUniqueValues = (key: string) => {
-    return Array.from(new Set(data.map(item => String(item[key])))).sort();
+  const handleApply = (condition: FilterCondition) => {
+    setFilters(prev => editingIndex === null || editingIndex < 0
+      ? [...prev, condition]
+      : prev.map((c, i) => i === editingIndex ? condition : c));
+    setEditingIndex(null);
   };
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 mb-8">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-lg font-semibold text-slate-800">Filters</h2>
-        <button className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors">
-          <Sparkles className="h-4 w-4" />
-          Analyze
-        </button>
+        <h2 className="text-lg font-semibold text-slate-800">{t('filters.title')}</h2>
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={() => setEditingIndex(-1)}
+            disabled={allColumns.length === 0}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <ListFilter className="h-4 w-4" />
+            {t('filters.add')}
+          </button>
+          <button
+            onClick={onAudit}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            {t('filters.audit')}
+          </button>
+          <button 
+            onClick={onAnalyze}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+          >
+            <Sparkles className="h-4 w-4" />
+            {t('filters.analyze')}
+          </button>
+        </div>
       </div>
       
+      {dateColumn && (
+        <div className={filterableColumns.length > 0 ? 'mb-4 pb-4 border-b border-slate-100' : ''}>
+          <DateRangePicker label={dateColumn.label} value={dateRange} onChange={setDateRange} />
+        </div>
+      )}
+
       {filterableColumns.length === 0 ? (
-        <p className="text-sm text-slate-400 italic">No categorical data available for filtering.</p>
+        !dateColumn && <p className="text-sm text-slate-400 italic">{t('filters.none')}</p>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           {filterableColumns.map((col) => (
@@ -230,12 +388,12 @@ const FilterBar = ({
               </label>
               <div className="relative">
                 <select
-                  value={filters[col.key] || ''}
-                  onChange={(e) => setFilters(prev => ({ ...prev, [col.key]: e.target.value }))}
+                  value={getSingleValue(filters, col.key)}
+                  onChange={(e) => setFilters(prev => setSingleValue(prev, col.key, e.target.value))}
                   className="w-full appearance-none bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 pr-8"
                 >
-                  <option value="">All</option>
-                  {getUniqueValues(col.key).map((val) => (
+                  <option value="">{t('common.all')}</option>
+                  {getUniqueValues(data, col.key).map((val) => (
                     <option key={val} value={val}>{val}</option>
                   ))}
                 </select>
@@ -245,102 +403,203 @@ const FilterBar = ({
           ))}
         </div>
       )}
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {chips.map(({ condition, index }) => (
+            <span key={index} className={`inline-flex items-center gap-1.5 text-xs font-medium pl-3 pr-1.5 py-1 rounded-full ${editingIndex === index ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-700'}`}>
+              <button onClick={() => setEditingIndex(index)} className="hover:underline underline-offset-2">
+                {describeCondition(condition, allColumns, locale)}
+              </button>
+              <button 
+                onClick={() => {
+                  setFilters(prev => prev.filter((_, i) => i !== index));
+                  setEditingIndex(null);
+                }}
+                className="p-0.5 hover:bg-indigo-100 hover:text-indigo-700 rounded-full"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {editingIndex !== null && (
+        <React.Fragment key={editingIndex}>
+          <FilterBuilder
+            columns={allColumns}
+            data={data}
+            initial={editingIndex >= 0 ? filters[editingIndex] : undefined}
+            onApply={handleApply}
+            onCancel={() => setEditingIndex(null)}
+          />
+        </React.Fragment>
+      )}
     </div>
   );
 };
 
+// "All" swaps pagination for a scrolling window that only renders the rows in view
+const SHOW_ALL = 0;
+// Every row in scrolling mode is one padded line of text high
+const ROW_HEIGHT = 53;
+const OVERSCAN_ROWS = 10;
+
 const DataTable = ({ 
   data, 
   columns, 
   loading,
   title,
-  onRowClick
+  exportDetails,
+  onRowClick,
+  onManageColumns,
+  cellIssues,
+  rowChanges,
+  searchTerm,
+  onSearchChange,
+  sortConfig,
+  onSortChange,
+  page,
+  onPageChange,
+  entriesPerPage,
+  onEntriesPerPageChange,
+  onShare,
+  filterKey
 }: { 
   data: LogEntry[], 
   columns: ColumnDefinition[], 
   loading: boolean,
   title: string,
-  onRowClick: (entry: LogEntry) => void
+  exportDetails: ExportDetails,
+  onRowClick: (entry: LogEntry, rows: LogEntry[]) => void,
+  onManageColumns: () => void,
+  cellIssues: SchemaValidation['cellIssues'],
+  rowChanges: Map<LogEntry, RowChange>,
+  searchTerm: string,
+  onSearchChange: (term: string) => void,
+  sortConfig: SortState | null,
+  onSortChange: (sort: SortState) => void,
+  page: number,
+  onPageChange: (page: number) => void,
+  entriesPerPage: number,
+  onEntriesPerPageChange: (count: number) => void,
+  onShare: (rows: LogEntry[], details: ExportDetails) => Promise<ShareOutcome>,
+  filterKey: string                    // Changes with the report, filters and date range
 }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [entriesPerPage, setEntriesPerPage] = useState(10);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [sortConfig, setSortConfig] = useState<{ key: string, direction: 'asc' | 'desc' } | null>(null);
-
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [data.length, entriesPerPage, searchTerm]);
+  const locale = useLocale();
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolling = entriesPerPage === SHOW_ALL;
 
   const handleSort = (key: string) => {
     let direction: 'asc' | 'desc' = 'asc';
     if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
       direction = 'desc';
     }
-    setSortConfig({ key, direction });
+    onSortChange({ key, direction });
   };
 
+  // Typing stays responsive on big sheets: the rows are re-filtered once React has a moment
+  const deferredSearch = useDeferredValue(searchTerm);
+  const queryTerms = useMemo(() => parseQuery(deferredSearch, columns, locale), [deferredSearch, columns, locale]);
+
   const processedData = useMemo(() => {
-    let filtered = data.filter(item => 
-      Object.values(item).some(val => 
-        String(val).toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    );
+    const filtered = queryTerms.length > 0 ? data.filter(createQueryMatcher(queryTerms, columns, locale)) : [...data];
+    if (!sortConfig) return filtered;
 
-    if (sortConfig) {
-      filtered.sort((a, b) => {
-        const valA = a[sortConfig.key];
-        const valB = b[sortConfig.key];
-        
-        const colDef = columns.find(c => c.key === sortConfig.key);
-
-        if (colDef?.isDate) {
-            const dateA = parseDate(String(valA));
-            const dateB = parseDate(String(valB));
-            const validA = !isNaN(dateA);
-            const validB = !isNaN(dateB);
-
-            if (validA && validB) {
-                return sortConfig.direction === 'asc' ? dateA - dateB : dateB - dateA;
-            }
-            if (validA && !validB) return -1;
-            if (!validA && validB) return 1;
-        }
-        
-        const numA = parseFloat(String(valA).replace(/[^0-9.-]+/g, ""));
-        const numB = parseFloat(String(valB).replace(/[^0-9.-]+/g, ""));
+    const colDef = columns.find(c => c.key === sortConfig.key);
+    const sign = sortConfig.direction === 'asc' ? 1 : -1;
+    // Sort keys are worked out once per row rather than on every comparison
+    const keyed = filtered.map(row => {
+      const value = row[sortConfig.key];
+      return {
+        row,
+        value,
+        date: colDef?.isDate ? getRowTimestamp(row, sortConfig.key) : NaN,
+        num: parseFloat(String(value).replace(/[^0-9.-]+/g, ""))
+      };
+    });
 
-        if (colDef?.isNumeric && !isNaN(numA) && !isNaN(numB)) {
-          return sortConfig.direction === 'asc' ? numA - numB : numB - numA;
-        }
+    keyed.sort((a, b) => {
+      if (colDef?.isDate) {
+        const validA = !isNaN(a.date);
+        const validB = !isNaN(b.date);
+        if (validA && validB) return (a.date - b.date) * sign;
+        if (validA && !validB) return -1;
+        if (!validA && validB) return 1;
+      }
 
-        if (valA < valB) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (valA > valB) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
+      if (colDef?.isNumeric && !isNaN(a.num) && !isNaN(b.num)) {
+        return (a.num - b.num) * sign;
+      }
+
+      if (a.value < b.value) return -sign;
+      if (a.value > b.value) return sign;
+      return 0;
+    });
+
+    return keyed.map(({ row }) => row);
+  }, [data, queryTerms, sortConfig, columns]);
+
+  const pageSize = scrolling ? Math.max(processedData.length, 1) : entriesPerPage;
+  const totalPages = Math.ceil(processedData.length / pageSize);
+  // A shared link may point past the end once the data has changed
+  const currentPage = Math.min(page, Math.max(totalPages, 1));
+  const indexOfLastEntry = currentPage * pageSize;
+  const indexOfFirstEntry = indexOfLastEntry - pageSize;
+
+  // When scrolling, only the rows in (or just outside) the visible window are rendered
+  const visibleHeight = viewport.height || window.innerHeight;
+  const firstRendered = scrolling ? Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN_ROWS) : indexOfFirstEntry;
+  const lastRendered = scrolling
+    ? Math.min(processedData.length, Math.ceil((viewport.top + visibleHeight) / ROW_HEIGHT) + OVERSCAN_ROWS)
+    : indexOfLastEntry;
+  const currentEntries = processedData.slice(firstRendered, lastRendered);
 
-    return filtered;
-  }, [data, searchTerm, sortConfig, columns]);
+  // Back to the top for a different set of rows, but not when a refresh brings in the same view again
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setViewport(prev => ({ ...prev, top: 0 }));
+  }, [filterKey, searchTerm, sortConfig, scrolling]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight } = e.currentTarget;
+    setViewport({ top: scrollTop, height: clientHeight });
+  };
 
-  const totalPages = Math.ceil(processedData.length / entriesPerPage);
-  const indexOfLastEntry = currentPage * entriesPerPage;
-  const indexOfFirstEntry = indexOfLastEntry - entriesPerPage;
-  const currentEntries = processedData.slice(indexOfFirstEntry, indexOfLastEntry);
+  // Pinned columns get a fixed width so each one knows where to stick
+  const pinnedWidth = 'w-40 min-w-[10rem] max-w-[10rem] border-r border-slate-100';
+  const pinnedClass = (col: ColumnDefinition) => col.pinned ? `sticky z-10 ${pinnedWidth}` : '';
+  // While scrolling the header sticks to the top as well, above the pinned body cells
+  const headerClass = (col: ColumnDefinition) =>
+    scrolling ? `sticky top-0 ${col.pinned ? `z-30 ${pinnedWidth}` : 'z-20'}` : pinnedClass(col);
+  const pinnedStyle = (index: number) => columns[index].pinned ? { left: `${index * 10}rem` } : undefined;
 
-  const handleDownload = () => {
-    downloadPDF(title, columns, processedData);
+  // Exports contain exactly the rows on screen, in their current order
+  const handleExport = (format: ExportFormat) => {
+    const details: ExportDetails = { ...exportDetails, search: searchTerm.trim() || undefined };
+    try {
+      if (format === 'pdf') downloadPDF(title, columns, processedData, details);
+      else if (format === 'csv') exportCSV(title, columns, processedData, locale);
+      else if (format === 'xlsx') exportXLSX(title, columns, processedData, details);
+      else exportJSON(title, columns, processedData, details);
+    } catch (error) {
+      console.error("Export failed", error);
+      alert(t('table.exportFailed'));
+    }
   };
 
   if (loading) {
     return <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-slate-100">
       <RefreshCcw className="h-8 w-8 text-indigo-500 animate-spin mx-auto mb-4" />
-      <p className="text-slate-500">Loading data...</p>
+      <p className="text-slate-500">{t('table.loading')}</p>
     </div>;
   }
 
   if (data.length === 0) {
     return <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-slate-100">
-      <p className="text-slate-500">No data found. Please check the source spreadsheet.</p>
+      <p className="text-slate-500">{t('table.noData')}</p>
     </div>;
   }
 
@@ -348,56 +607,61 @@ const DataTable = ({
     <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
       <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
-          <h2 className="text-lg font-bold text-slate-800">Full Data Set</h2>
+          <h2 className="text-lg font-bold text-slate-800">{t('table.title')}</h2>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+          <button
+            onClick={onManageColumns}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors justify-center"
+          >
+            <Columns3 className="h-4 w-4" />
+            {t('table.columns')}
+          </button>
+          <ShareButton
+            onShare={() => onShare(processedData, { ...exportDetails, search: searchTerm.trim() || undefined })}
+            disabled={processedData.length === 0}
+          />
+          <ExportMenu onExport={handleExport} disabled={processedData.length === 0} />
         </div>
-        <button 
-          onClick={handleDownload}
-          className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors w-full md:w-auto justify-center"
-        >
-          <Download className="h-4 w-4" />
-          Download PDF
-        </button>
       </div>
 
       <div className="p-4 bg-slate-50/50 border-b border-slate-100 flex flex-col sm:flex-row justify-between items-center gap-4">
         <div className="flex items-center gap-2 text-sm text-slate-600">
-          <span>Show</span>
+          <span>{t('table.show')}</span>
           <select 
             value={entriesPerPage}
-            onChange={(e) => setEntriesPerPage(Number(e.target.value))}
+            onChange={(e) => {
+              onEntriesPerPageChange(Number(e.target.value));
+              onPageChange(1);
+            }}
             className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-indigo-500 focus:border-indigo-500 block p-1.5"
           >
             <option value={10}>10</option>
             <option value={25}>25</option>
             <option value={50}>50</option>
             <option value={100}>100</option>
+            <option value={SHOW_ALL}>{t('common.all')}</option>
           </select>
-          <span>entries</span>
+          <span>{t('table.entries')}</span>
         </div>
 
-        <div className="relative w-full sm:w-64">
-          <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-            <Search className="w-4 h-4 text-slate-400" />
-          </div>
-          <input
-            type="text"
-            className="block w-full p-2 pl-10 text-sm text-slate-900 border border-slate-300 rounded-lg bg-white focus:ring-indigo-500 focus:border-indigo-500 placeholder-slate-400"
-            placeholder="Search records..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-          />
-        </div>
+        <QuerySearchInput value={searchTerm} onChange={onSearchChange} columns={columns} />
       </div>
 
-      <div className="overflow-x-auto">
+      <div 
+        ref={scrollRef}
+        onScroll={scrolling ? handleScroll : undefined}
+        className={scrolling ? 'overflow-auto max-h-[70vh]' : 'overflow-x-auto'}
+      >
         <table className="w-full text-xs sm:text-sm text-left text-slate-500 min-w-full">
           <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
             <tr>
-              {columns.map((col) => (
+              {columns.map((col, colIndex) => (
                 <th 
                   key={col.key} 
                   scope="col" 
-                  className="px-4 py-3 sm:px-6 sm:py-4 font-semibold whitespace-nowrap cursor-pointer hover:bg-slate-100 transition-colors group"
+                  className={`px-4 py-3 sm:px-6 sm:py-4 font-semibold whitespace-nowrap cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors group ${headerClass(col)}`}
+                  style={pinnedStyle(colIndex)}
                   onClick={() => handleSort(col.key)}
                 >
                   <div className="flex items-center gap-1">
@@ -409,26 +673,64 @@ const DataTable = ({
             </tr>
           </thead>
           <tbody>
-            {currentEntries.map((row, index) => (
-              <tr 
-                key={index} 
-                onClick={() => onRowClick(row)}
-                className="bg-white border-b border-slate-100 hover:bg-indigo-50/50 cursor-pointer transition-colors active:bg-indigo-100"
-              >
-                {columns.map((col) => (
-                  <td key={col.key} className="px-4 py-3 sm:px-6 sm:py-4 font-medium text-slate-900 whitespace-nowrap max-w-xs overflow-hidden text-ellipsis">
-                    {col.isNumeric && /amount|price|cost|total/i.test(col.key) 
-                      ? formatCurrency(parseFloat(String(row[col.key]).replace(/[^0-9.-]+/g, "")) || 0)
-                      : row[col.key]
-                    }
-                  </td>
-                ))}
-              </tr>
-            ))}
+            {scrolling && firstRendered > 0 && <tr aria-hidden="true" style={{ height: firstRendered * ROW_HEIGHT }} />}
+            {currentEntries.map((row, index) => {
+              // Rows that auto-refresh brought in or changed are tinted until the user has seen them
+              const change = rowChanges.get(row);
+              const rowBg = change === 'added' ? 'bg-emerald-50' : change === 'modified' ? 'bg-amber-50' : 'bg-white';
+              return (
+                <tr 
+                  key={firstRendered + index} 
+                  style={scrolling ? { height: ROW_HEIGHT } : undefined}
+                  onClick={() => onRowClick(row, processedData)}
+                  className={`${rowBg} border-b border-slate-100 hover:bg-indigo-50/50 cursor-pointer transition-colors active:bg-indigo-100`}
+                >
+                  {columns.map((col, colIndex) => {
+                    const value = row[col.key];
+                    // Cells that break the schema keep their original text and are flagged instead
+                    const issue = cellIssues.get(row)?.[col.key];
+                    const highlights = getHighlightTerms(queryTerms, columns, col.key);
+                    return (
+                      <td 
+                        key={col.key} 
+                        title={issue && t(issue.reason as MessageKey, issue.values)}
+                        className={`px-4 py-3 sm:px-6 sm:py-4 font-medium whitespace-nowrap max-w-xs overflow-hidden text-ellipsis ${issue ? 'text-rose-700 bg-rose-50 ring-1 ring-inset ring-rose-200' : 'text-slate-900'} ${col.pinned ? `${issue ? '' : rowBg} ${pinnedClass(col)}` : ''}`}
+                        style={pinnedStyle(colIndex)}
+                      >
+                        {issue ? (
+                          <span className="inline-flex items-center gap-1">
+                            <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-rose-500" />
+                            {cellText(value, locale) || '—'}
+                          </span>
+                        ) : col.type === 'url' && value ? (
+                          <a
+                            href={cellText(value, locale)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-indigo-600 hover:underline"
+                          >
+                            <HighlightText text={cellText(value, locale)} terms={highlights} />
+                          </a>
+                        ) : (
+                          <HighlightText 
+                            text={isCurrencyColumn(col) ? formatCurrency(parseAmount(value) || 0, locale) : cellText(value, locale)} 
+                            terms={highlights} 
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {scrolling && lastRendered < processedData.length && (
+              <tr aria-hidden="true" style={{ height: (processedData.length - lastRendered) * ROW_HEIGHT }} />
+            )}
             {currentEntries.length === 0 && (
               <tr>
                 <td colSpan={columns.length} className="px-6 py-8 text-center text-slate-400">
-                  No records match your search.
+                  {t('table.noMatch')}
                 </td>
               </tr>
             )}
@@ -438,193 +740,704 @@ const DataTable = ({
 
       <div className="flex flex-col sm:flex-row justify-between items-center p-4 gap-4 bg-white">
         <span className="text-sm text-slate-700">
-          Showing <span className="font-semibold text-slate-900">{indexOfFirstEntry + 1}</span> to <span className="font-semibold text-slate-900">{Math.min(indexOfLastEntry, processedData.length)}</span> of <span className="font-semibold text-slate-900">{processedData.length}</span> entries
+          {scrolling
+            ? t('common.entries', { count: processedData.length })
+            : t('table.showing', { from: indexOfFirstEntry + 1, to: Math.min(indexOfLastEntry, processedData.length), total: processedData.length })}
         </span>
         
-        <div className="inline-flex -space-x-px text-sm">
-          <button 
-            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-            disabled={currentPage === 1}
-            className="flex items-center justify-center px-3 h-8 ml-0 leading-tight text-slate-500 bg-white border border-slate-300 rounded-l-lg hover:bg-slate-100 hover:text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Previous
-          </button>
+        {!scrolling && (
+          <div className="inline-flex -space-x-px text-sm">
+            <button 
+              onClick={() => onPageChange(Math.max(1, currentPage - 1))}
+              disabled={currentPage === 1}
+              className="flex items-center justify-center px-3 h-8 ml-0 leading-tight text-slate-500 bg-white border border-slate-300 rounded-l-lg hover:bg-slate-100 hover:text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('table.previous')}
+            </button>
           
-          {[...Array(Math.min(5, totalPages))].map((_, i) => {
-            let pageNum = i + 1;
-            if (totalPages > 5 && currentPage > 3) {
-              pageNum = currentPage - 2 + i;
-            }
-            if (pageNum > totalPages) return null;
-
-            return (
-              <button
-                key={pageNum}
-                onClick={() => setCurrentPage(pageNum)}
-                className={`flex items-center justify-center px-3 h-8 leading-tight border border-slate-300 ${currentPage === pageNum ? 'bg-indigo-50 text-indigo-600 font-bold border-indigo-300' : 'bg-white text-slate-500 hover:bg-slate-100 hover:text-slate-700'}`}
-              >
-                {pageNum}
-              </button>
-            );
-          })}
+            {[...Array(Math.min(5, totalPages))].map((_, i) => {
+              let pageNum = i + 1;
+              if (totalPages > 5 && currentPage > 3) {
+                pageNum = currentPage - 2 + i;
+              }
+              if (pageNum > totalPages) return null;
+
+              return (
+                <button
+                  key={pageNum}
+                  onClick={() => onPageChange(pageNum)}
+                  className={`flex items-center justify-center px-3 h-8 leading-tight border border-slate-300 ${currentPage === pageNum ? 'bg-indigo-50 text-indigo-600 font-bold border-indigo-300' : 'bg-white text-slate-500 hover:bg-slate-100 hover:text-slate-700'}`}
+                >
+                  {pageNum}
+                </button>
+              );
+            })}
           
-          <button 
-            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-            disabled={currentPage === totalPages || totalPages === 0}
-            className="flex items-center justify-center px-3 h-8 leading-tight text-slate-500 bg-white border border-slate-300 rounded-r-lg hover:bg-slate-100 hover:text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Next
-          </button>
-        </div>
+            <button 
+              onClick={() => onPageChange(Math.min(totalPages, currentPage + 1))}
+              disabled={currentPage === totalPages || totalPages === 0}
+              className="flex items-center justify-center px-3 h-8 leading-tight text-slate-500 bg-white border border-slate-300 rounded-r-lg hover:bg-slate-100 hover:text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('table.next')}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const EntryDetailsModal = ({ entry, onClose }: { entry: LogEntry | null, onClose: () => void }) => {
-  if (!entry) return null;
-
-  const details = Object.entries(entry).filter(([_, value]) => {
-     if (value === null || value === undefined) return false;
-     const strVal = String(value).trim();
-     return strVal !== '' && strVal !== '-';
+const Dashboard = ({ reports }: { reports: ReportConfig[] }) => {
+  const tabIds = useMemo(() => [...reports.map(r => r.id), DAILY_SUMMARY_TAB], [reports]);
+  // The view starts from the address bar, so shared links and refreshes land where they were.
+  // An address with no rows narrowed down opens the report's default view instead.
+  const [opening] = useState(() => {
+    const view = readViewState(window.location.search, tabIds);
+    const narrowed = view.filters.length > 0 || view.dateRange.preset !== 'all' || !!view.search || !!view.sort;
+    const saved = narrowed ? undefined : getDefaultView(view.tab);
+    return { view: saved ? withSavedView(view, saved) : view, saved };
   });
-
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
-      <div 
-        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto flex flex-col animate-in zoom-in-95 duration-200" 
-        onClick={e => e.stopPropagation()}
-      >
-        <div className="flex justify-between items-center p-6 border-b border-slate-100 sticky top-0 bg-white z-10">
-            <h3 className="text-xl font-bold text-slate-800">Entry Details</h3>
-            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
-                <X className="h-5 w-5 text-slate-500" />
-            </button>
-        </div>
-        <div className="p-6 space-y-4">
-            {details.map(([key, value]) => (
-                <div key={key} className="flex flex-col border-b border-slate-50 last:border-0 pb-3 last:pb-0">
-                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">
-                        {key.replace(/_/g, ' ')}
-                    </span>
-                    <span className="text-sm sm:text-base text-slate-800 font-medium whitespace-pre-wrap leading-relaxed">
-                        {value}
-                    </span>
-                </div>
-            ))}
-            {details.length === 0 && <p className="text-slate-400 italic">No details available.</p>}
-        </div>
-        <div className="p-6 border-t border-slate-100 bg-slate-50/50 rounded-b-2xl">
-            <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-3 rounded-xl transition-colors shadow-md shadow-indigo-200">
-                Close
-            </button>
-        </div>
-      </div>
-    </div>
-  )
-}
-
-const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState(REPORTS[0].id);
+  const initialView = opening.view;
+  const [activeTab, setActiveTab] = useState(initialView.tab);
   const [data, setData] = useState<LogEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [columns, setColumns] = useState<ColumnDefinition[]>([]);
-  const [filters, setFilters] = useState<FilterState>({});
+  const [detectedColumns, setDetectedColumns] = useState<ColumnDefinition[]>([]);
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout>({});
+  const [showColumnManager, setShowColumnManager] = useState(false);
+  const [filters, setFilters] = useState<FilterState>(initialView.filters);
   const [selectedEntry, setSelectedEntry] = useState<LogEntry | null>(null);
+  // The rows the entry was opened from, in their on-screen order, for stepping through them
+  const [entryList, setEntryList] = useState<LogEntry[]>([]);
+  const [parseIssues, setParseIssues] = useState<CSVRowIssue[]>([]);
+  const [validation, setValidation] = useState<SchemaValidation>(createValidation);
+  const [rowIdentities, setRowIdentities] = useState<string[]>([]);
+  const [enquiryIds, setEnquiryIds] = useState<Map<LogEntry, string>>(new Map());
+  const [changes, setChanges] = useState<Record<string, ReportChanges>>({});
+  const [refreshIntervals, setRefreshIntervals] = useState<Record<string, number>>(
+    () => Object.fromEntries(reports.map(report => [report.id, getRefreshInterval(report)]))
+  );
+  // The rows last fetched for each report, which the next fetch is diffed against
+  const lastResults = useRef<Record<string, CSVParseResult>>({});
+  // Background refreshes finish whenever they finish; they only touch the screen if their report is still showing
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
 
-  const activeReport = REPORTS.find(r => r.id === activeTab) || REPORTS[0];
+  const [uploadedFiles, setUploadedFiles] = useState<Record<string, File>>({});
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'syncing', fetchedAt: null });
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>(initialView.dateRange);
+  const [showInsights, setShowInsights] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialView.view);
+  const [searchTerm, setSearchTerm] = useState(initialView.search);
+  const [sortConfig, setSortConfig] = useState<SortState | null>(initialView.sort);
+  const [page, setPage] = useState(initialView.page);
+  const [entriesPerPage, setEntriesPerPage] = useState<number>(opening.saved?.pageSize ?? 10);
+  const [savedViews, setSavedViews] = useState<SavedViewSet>({ views: [] });
+  // Columns of a default view being opened with its tab, for the layout effect below
+  const openingLayout = useRef<ColumnLayout | undefined>(opening.saved?.layout);
+  const summaryProvider = useMemo(() => getSummaryProvider(), []);
+  const [reloadToken, setReloadToken] = useState(0);
 
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+
+  const isSummary = activeTab === DAILY_SUMMARY_TAB;
+  const activeReport = reports.find(r => r.id === activeTab) || reports[0];
+
+  const changeLanguage = (next: Language) => {
+    setLanguage(next);
+    setLanguageState(next);
+  };
+  const uploadedFile = uploadedFiles[activeReport.id] || null;
+
+  // Keyed on the tab rather than the report, since the summary tab shares its fallback report
   useEffect(() => {
+    setSavedViews(loadSavedViews(activeReport.id));
+    setColumnLayout(openingLayout.current || resolveColumnLayout(activeReport));
+    openingLayout.current = undefined;
+  }, [activeTab]);
+
+  // Every column in the user's order (the manager lists hidden ones too); the rest of the page sees only visible ones
+  const arrangedColumns = useMemo(() => arrangeColumns(detectedColumns, columnLayout), [detectedColumns, columnLayout]);
+  const columns = useMemo(() => getVisibleColumns(arrangedColumns, columnLayout), [arrangedColumns, columnLayout]);
+
+  // Narrowing the rows sends the table back to its first page
+  const changeFilters: React.Dispatch<React.SetStateAction<FilterState>> = (update) => {
+    setFilters(update);
+    setPage(1);
+  };
+
+  const changeDateRange = (range: DateRange) => {
+    setDateRange(range);
+    setPage(1);
+  };
+
+  const changeSearch = (term: string) => {
+    setSearchTerm(term);
+    setPage(1);
+  };
+
+  const applyViewState = (view: ViewState) => {
+    setActiveTab(view.tab);
+    setViewMode(view.view);
+    setFilters(view.filters);
+    setDateRange(view.dateRange);
+    setSearchTerm(view.search);
+    setSortConfig(view.sort);
+    setPage(view.page);
+  };
+
+  const clearChanges = (reportId: string) => {
+    setChanges(prev => {
+      const { [reportId]: _seen, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // A different report starts from its default view, or a clean one; leaving one marks its changes as seen
+  const handleTabChange = (tab: string) => {
+    if (tab === activeTab) return;
+    clearChanges(activeTab);
+    const next = reports.find(r => r.id === tab);
+    const unavailable = (viewMode === 'stock' && !next?.stock)
+      || (viewMode === 'muster' && !next?.muster)
+      || (viewMode === 'pipeline' && !next?.pipeline)
+      || (viewMode === 'payments' && next?.type !== 'payment');
+    const view = unavailable ? 'table' : viewMode;
+    const blank: ViewState = { tab, view, filters: [], dateRange: ALL_DATES, search: '', sort: null, page: 1 };
+    const saved = getDefaultView(tab);
+    openingLayout.current = saved?.layout;
+    if (saved) setEntriesPerPage(saved.pageSize);
+    applyViewState(saved ? withSavedView(blank, saved) : blank);
+  };
+
+  // Tab, filter and date changes get their own history entries so back/forward steps through them;
+  // typing a search, sorting and paging just update the current entry
+  const navigationKey = JSON.stringify([activeTab, viewMode, filters, dateRange.preset, dateRange.start, dateRange.end]);
+  const lastNavigationKey = useRef(navigationKey);
+
+  useEffect(() => {
+    const search = writeViewState(
+      { tab: activeTab, view: viewMode, filters, dateRange, search: searchTerm, sort: sortConfig, page },
+      window.location.search
+    );
+    const navigated = navigationKey !== lastNavigationKey.current;
+    lastNavigationKey.current = navigationKey;
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (navigated) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [navigationKey, activeTab, viewMode, filters, dateRange, searchTerm, sortConfig, page]);
+
+  useEffect(() => {
+    const handlePopState = () => applyViewState(readViewState(window.location.search, tabIds));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [tabIds]);
+
+  const openEntry = (entry: LogEntry, rows: LogEntry[]) => {
+    setSelectedEntry(entry);
+    setEntryList(rows);
+  };
+
+  const handleSaveColumns = (layout: ColumnLayout) => {
+    saveColumnLayout(activeReport.id, layout);
+    setColumnLayout(layout);
+  };
+
+  const handleResetColumns = () => {
+    clearColumnLayout(activeReport.id);
+    setColumnLayout(resolveColumnLayout(activeReport));
+  };
+
+  // What a view saved now would hold; a saved view's columns show without replacing the user's own layout
+  const currentView = { filters, dateRange, search: searchTerm, sort: sortConfig, pageSize: entriesPerPage, layout: columnLayout };
+  const activeSavedView: SavedView | undefined = findMatchingView(savedViews, currentView);
+
+  const updateSavedViews = (set: SavedViewSet) => {
+    saveSavedViews(activeReport.id, set);
+    setSavedViews(set);
+  };
+
+  const handleApplyView = (saved: SavedView) => {
+    applyViewState(withSavedView({ tab: activeTab, view: viewMode, filters, dateRange, search: searchTerm, sort: sortConfig, page }, saved));
+    setEntriesPerPage(saved.pageSize);
+    setColumnLayout(saved.layout);
+  };
+
+  const handleImportViews = async (file: File) => {
+    const result = importSavedViews(await file.text(), reports);
+    setSavedViews(loadSavedViews(activeReport.id));
+    const imported = t('views.imported', { views: result.views, reports: result.reports });
+    return result.unknownReports.length > 0 ? `${imported}; ${t('views.skipped', { ids: result.unknownReports.join(', ') })}` : imported;
+  };
+
+  const showResult = (report: ReportConfig, { rows, issues, sourceRows }: CSVParseResult, prepared: PreparedData) => {
+    indexSourceRows(prepared.rows, sourceRows);
+    setData(prepared.rows);
+    setValidation(prepared.validation);
+    setParseIssues(issues);
+    setDetectedColumns(prepared.columns);
+    // Prepared rows keep the raw rows' order, so identities line up by index
+    setRowIdentities(identifyRows(rows, report.refresh?.identity));
+    setEnquiryIds(report.pipeline ? identifyEnquiries(rows, prepared.rows, report) : new Map());
+  };
+
+  // Diffs a fresh fetch against the previous one (or the cached snapshot) and keeps it for next time
+  const recordFetch = (report: ReportConfig, result: CSVParseResult, snapshot: CSVParseResult | undefined, notify: boolean) => {
+    const previous = lastResults.current[report.id] || snapshot;
+    lastResults.current[report.id] = result;
+    if (!previous) return;
+
+    const diff = diffRows(previous.rows, result.rows, report.refresh?.identity);
+    if (!hasChanges(diff)) return;
+    setChanges(prev => ({ ...prev, [report.id]: mergeChanges(prev[report.id], diff) }));
+    if (notify && report.refresh?.notify) notifyNewRows(report, diff.addedRows);
+  };
+
+  // Background poll: no spinner and no reset, the table just picks up the new rows if the report is showing
+  const pollReport = async (report: ReportConfig) => {
+    const sourceKey = getSourceKey(report.source);
+    try {
+      const snapshot = lastResults.current[report.id] ? undefined : (await getSnapshot(report.id, sourceKey))?.result;
+      const result = await loadReportData(report.source);
+      const fetchedAt = Date.now();
+      saveSnapshot({ reportId: report.id, sourceKey, fetchedAt, result });
+      recordFetch(report, result, snapshot, true);
+
+      if (activeTabRef.current !== report.id) return;
+      const prepared = await prepareReportData(result.rows, report.schema, report.locale);
+      if (activeTabRef.current !== report.id) return;
+      showResult(report, result, prepared);
+      setSyncStatus({ state: 'synced', fetchedAt });
+    } catch (error) {
+      console.error(`Auto-refresh of ${report.title} failed`, error);
+      if (activeTabRef.current !== report.id) return;
+      const offline = error instanceof DataSourceError && error.offline;
+      setSyncStatus(prev => ({ state: offline ? 'offline' : 'error', fetchedAt: prev.fetchedAt }));
+    }
+  };
+
+  // One timer per report with auto-refresh on, whichever tab is open, so badges and notifications keep coming
+  useEffect(() => {
+    const timers = reports
+      .filter(report => refreshIntervals[report.id] > 0)
+      .map(report => window.setInterval(() => pollReport(report), refreshIntervals[report.id] * 60_000));
+    return () => timers.forEach(timer => window.clearInterval(timer));
+  }, [reports, refreshIntervals]);
+
+  const handleRefreshIntervalChange = (minutes: number) => {
+    saveRefreshInterval(activeReport.id, minutes);
+    setRefreshIntervals(prev => ({ ...prev, [activeReport.id]: minutes }));
+  };
+
+  const handleShare = (rows: LogEntry[], details: ExportDetails) =>
+    shareSummary(
+      activeReport.title,
+      buildShareText(activeReport, columns, rows, details),
+      () => createPDFFile(activeReport.title, columns, rows, details)
+    );
+
+  useEffect(() => {
+    // The summary loads its own data
+    if (isSummary) return;
+
+    let cancelled = false;
+    const cacheable = activeReport.source.kind !== 'file';
+    const sourceKey = getSourceKey(activeReport.source);
+
+    // Snapshots hold the raw rows, so the schema is applied on every load and schema edits take effect straight away.
+    // The work happens in the background worker; results that arrive after a tab switch are dropped.
+    const applyResult = async (result: CSVParseResult) => {
+      const prepared = await prepareReportData(result.rows, activeReport.schema, activeReport.locale);
+      if (cancelled) return;
+      showResult(activeReport, result, prepared);
+    };
+
+    // Stale-while-revalidate: show the cached snapshot straight away, then refresh from the source
     const fetchData = async () => {
       setLoading(true);
       setData([]);
-      setFilters({});
-      
+      setDetectedColumns([]);
+      setParseIssues([]);
+      setValidation(createValidation());
+      setRowIdentities([]);
+      setEnquiryIds(new Map());
+      setLoadError(null);
+      setSyncStatus({ state: 'syncing', fetchedAt: null });
+
+      const cached = cacheable ? await getSnapshot(activeReport.id, sourceKey) : null;
+      if (cancelled) return;
+      if (cached) {
+        await applyResult(cached.result);
+        if (cancelled) return;
+        setSyncStatus({ state: 'syncing', fetchedAt: cached.fetchedAt });
+        setLoading(false);
+      }
+
       try {
-        const fetchedData = await parseCSV(activeReport.url);
-        setData(fetchedData);
-        
-        let cols = identifyColumns(fetchedData);
-        
-        // --- Custom Logic for specific Reports ---
-        
-        if (activeReport.id === 'worklog') {
-            // Remove 3rd (index 2) and 4th (index 3) columns if enough columns exist
-            // Important: We filter by index from the detected columns
-            if (cols.length > 3) {
-                // Filter out indices 2 and 3
-                cols = cols.filter((_, index) => index !== 2 && index !== 3);
-            } else if (cols.length > 2) {
-                cols = cols.filter((_, index) => index !== 2);
-            }
-        }
-        else if (activeReport.id === 'material') {
-            // Remove third column (index 2)
-            if (cols.length > 2) {
-                cols.splice(2, 1);
-            }
+        const result = await loadReportData(activeReport.source, uploadedFile);
+        if (cancelled) return;
+        const fetchedAt = Date.now();
+        recordFetch(activeReport, result, cached?.result, false);
+        await applyResult(result);
+        if (cancelled) return;
+        setSyncStatus({ state: 'synced', fetchedAt });
+        if (cacheable) {
+          saveSnapshot({ reportId: activeReport.id, sourceKey, fetchedAt, result });
         }
-
-        setColumns(cols);
       } catch (error) {
+        if (cancelled) return;
         console.error("Failed to fetch data", error);
+        const offline = error instanceof DataSourceError && error.offline;
+        setSyncStatus({ state: offline ? 'offline' : 'error', fetchedAt: cached ? cached.fetchedAt : null });
+        // With a cached copy on screen the badge is enough; otherwise show the failure
+        if (!cached) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchData();
-  }, [activeReport]);
+    return () => { cancelled = true; };
+  }, [activeReport, uploadedFile, reloadToken, isSummary]);
 
-  const filteredData = useMemo(() => {
-    return data.filter(item => {
-      return Object.keys(filters).every(key => {
-        if (!filters[key]) return true;
-        return String(item[key]) === filters[key];
-      });
+  const dateColumn = useMemo(() => getMainDateColumn(columns), [columns]);
+
+  // Stock, Muster Roll and Pipeline are only offered on reports configured for them, Payments on payment reports
+  const viewModes = [
+    ['table', 'view.table', Rows3],
+    ['pivot', 'view.pivot', Grid3x3],
+    ...(activeReport.stock ? [['stock', 'view.stock', Boxes]] : []),
+    ...(activeReport.muster ? [['muster', 'view.muster', ClipboardList]] : []),
+    ...(activeReport.pipeline ? [['pipeline', 'view.pipeline', Kanban]] : []),
+    ...(activeReport.type === 'payment' ? [['payments', 'view.payments', Wallet]] : [])
+  ] as [ViewMode, MessageKey, typeof Rows3][];
+
+  const activeChanges = changes[activeReport.id];
+  const rowChanges = useMemo(() => {
+    const map = new Map<LogEntry, RowChange>();
+    if (!activeChanges) return map;
+    data.forEach((row, index) => {
+      const id = rowIdentities[index];
+      if (activeChanges.added.has(id)) map.set(row, 'added');
+      else if (activeChanges.modified.has(id)) map.set(row, 'modified');
     });
-  }, [data, filters]);
+    return map;
+  }, [data, rowIdentities, activeChanges]);
+
+  const badges = useMemo(
+    () => Object.fromEntries(Object.entries(changes).map(([id, reportChanges]: [string, ReportChanges]) => [id, reportChanges.added.size])),
+    [changes]
+  );
+
+  const filteredData = useMemo(() => {
+    const inRange = dateColumn && isDateRangeActive(dateRange)
+      ? data.filter(item => isWithinDateRange(getRowTimestamp(item, dateColumn.key), dateRange))
+      : data;
+    return applyFilters(inRange, filters, arrangedColumns);
+  }, [data, filters, dateColumn, dateRange, arrangedColumns]);
+
+  // The muster roll picks its own week or month and balances run up to their own date, so both ignore the date range
+  const allDatesData = useMemo(
+    () => viewMode === 'muster' || viewMode === 'payments' ? applyFilters(data, filters, arrangedColumns) : [],
+    [viewMode, data, filters, arrangedColumns]
+  );
 
+  const exportDetails = useMemo<ExportDetails>(() => ({
+    dateRange: dateColumn && isDateRangeActive(dateRange) 
+      ? `${formatDateRange(dateRange, activeReport.locale)} (${dateColumn.label})` 
+      : undefined,
+    filters: filters.filter(isConditionComplete).map(condition => describeCondition(condition, arrangedColumns, activeReport.locale, 'en')),
+    locale: activeReport.locale
+  }), [filters, arrangedColumns, dateColumn, dateRange, activeReport]);
+
+  // Everything below formats dates and amounts the active report's way; the Daily Summary uses each report's own
   return (
-    <div className="min-h-screen bg-slate-50 font-sans pb-12">
-      <Header activeTab={activeTab} onTabChange={setActiveTab} />
+    <LocaleContext.Provider value={activeReport.locale}>
+      <div className="min-h-screen bg-slate-50 font-sans pb-12">
+        <Header
+          reports={reports}
+          activeTab={activeTab}
+          onTabChange={handleTabChange}
+          syncStatus={isSummary ? null : syncStatus}
+          badges={badges}
+          language={language}
+          onLanguageChange={changeLanguage}
+        />
       
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="text-center mb-10">
-          <h1 className={`text-4xl font-extrabold ${activeReport.primaryColor} mb-2 tracking-tight`}>
-            {activeReport.title}
-          </h1>
-          <p className="text-slate-500">
-            Real-time tracking and analysis of site operations
-          </p>
-        </div>
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isSummary ? (
+            <>
+              <div className="text-center mb-10">
+                <h1 className="text-4xl font-extrabold text-indigo-600 mb-2 tracking-tight">
+                  {t('tab.dailySummary')}
+                </h1>
+                <p className="text-slate-500">
+                  {t('summary.subtitle')}
+                </p>
+              </div>
+              <DailySummary reports={reports} />
+            </>
+          ) : (
+            <>
+              <div className="text-center mb-10">
+                <div className="flex flex-wrap justify-center items-center gap-3 mb-2">
+                  <h1 className={`text-4xl font-extrabold ${activeReport.primaryColor} tracking-tight`}>
+                    {activeReport.title}
+                  </h1>
+                  <SavedViewsMenu
+                    views={savedViews}
+                    activeId={activeSavedView?.id}
+                    onApply={handleApplyView}
+                    onSave={(name) => updateSavedViews(upsertView(savedViews, createSavedView(name, currentView)))}
+                    onDelete={(id) => updateSavedViews(removeView(savedViews, id))}
+                    onSetDefault={(id) => updateSavedViews({ ...savedViews, defaultId: id })}
+                    onExport={() => exportSavedViews(reports)}
+                    onImport={handleImportViews}
+                  />
+                </div>
+                <p className="text-slate-500">
+                  {t('report.subtitle')}
+                </p>
+              </div>
 
-        {!loading && (
-          <FilterBar 
-            columns={columns} 
-            data={data} 
-            filters={filters}
-            setFilters={setFilters}
-            reportId={activeReport.id}
-          />
-        )}
+              {activeReport.source.kind === 'file' && (
+                <FileSourcePrompt
+                  format={activeReport.source.format}
+                  fileName={uploadedFile?.name}
+                  onFileSelected={(file) => setUploadedFiles(prev => ({ ...prev, [activeReport.id]: file }))}
+                />
+              )}
+
+              {!loading && (
+                <>
+                  <ParseIssuesBanner issues={parseIssues} />
+                  <SchemaIssuesBanner validation={validation} columns={arrangedColumns} />
+                  <ChangesBanner changes={activeChanges} onDismiss={() => clearChanges(activeReport.id)} />
+                </>
+              )}
+
+              {loadError ? (
+                <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-red-100">
+                  <AlertTriangle className="h-8 w-8 text-red-500 mx-auto mb-4" />
+                  <p className="text-slate-700 font-medium mb-1">{t('report.loadFailed', { title: activeReport.title })}</p>
+                  <p className="text-sm text-slate-500 mb-6">{loadError}</p>
+                  <button
+                    onClick={() => setReloadToken(t => t + 1)}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium inline-flex items-center gap-2 transition-colors"
+                  >
+                    <RefreshCcw className="h-4 w-4" />
+                    {t('report.retry')}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  {!loading && (
+                    <FilterBar 
+                      columns={columns} 
+                      data={data} 
+                      filters={filters}
+                      setFilters={changeFilters}
+                      allColumns={arrangedColumns}
+                      reportId={activeReport.id}
+                      dateColumn={dateColumn}
+                      dateRange={dateRange}
+                      setDateRange={changeDateRange}
+                      onAnalyze={() => setShowInsights(true)}
+                      onAudit={() => setShowAudit(true)}
+                    />
+                  )}
 
-        <DataTable 
-          data={filteredData} 
-          columns={columns} 
-          loading={loading} 
-          title={activeReport.title} 
-          onRowClick={setSelectedEntry}
+                  {!loading && (
+                    <ReportDashboard
+                      data={filteredData}
+                      columns={columns}
+                      dateColumn={dateColumn}
+                      filters={filters}
+                      onFilterChange={(key, value) => changeFilters(prev => setSingleValue(prev, key, value))}
+                      onDaySelect={(day) => changeDateRange(getDayRange(day))}
+                    />
+                  )}
+
+                  {!loading && data.length > 0 && (
+                    <div className="flex flex-wrap justify-end items-center gap-2 mb-4">
+                      {activeReport.source.kind !== 'file' && (
+                        <AutoRefreshControl
+                          interval={refreshIntervals[activeReport.id] || 0}
+                          onChange={handleRefreshIntervalChange}
+                          notify={!!activeReport.refresh?.notify}
+                        />
+                      )}
+                      <CopyLinkButton />
+                      <div className="inline-flex p-1 bg-slate-100 rounded-lg border border-slate-200">
+                        {viewModes.map(([mode, label, Icon]) => (
+                          <button
+                            key={mode}
+                            onClick={() => setViewMode(mode)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${viewMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                          >
+                            <Icon className="h-4 w-4" />
+                            {t(label)}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {viewMode === 'stock' && activeReport.stock && !loading && data.length > 0 ? (
+                    <StockView
+                      report={activeReport}
+                      config={activeReport.stock}
+                      data={data}
+                      columns={arrangedColumns}
+                    />
+                  ) : viewMode === 'muster' && activeReport.muster && !loading && data.length > 0 ? (
+                    <MusterRollView
+                      report={activeReport}
+                      config={activeReport.muster}
+                      data={allDatesData}
+                      columns={arrangedColumns}
+                      exportDetails={exportDetails}
+                    />
+                  ) : viewMode === 'pipeline' && activeReport.pipeline && !loading && data.length > 0 ? (
+                    <PipelineView
+                      report={activeReport}
+                      config={activeReport.pipeline}
+                      data={filteredData}
+                      columns={arrangedColumns}
+                      ids={enquiryIds}
+                      onOpenEntry={(entry) => openEntry(entry, [entry])}
+                    />
+                  ) : viewMode === 'payments' && activeReport.type === 'payment' && !loading && data.length > 0 ? (
+                    <PaymentsView
+                      report={activeReport}
+                      config={activeReport.payment || {}}
+                      data={allDatesData}
+                      columns={arrangedColumns}
+                    />
+                  ) : viewMode === 'pivot' && !loading && data.length > 0 ? (
+                    <PivotView
+                      data={filteredData}
+                      columns={columns}
+                      title={activeReport.title}
+                      exportDetails={exportDetails}
+                    />
+                  ) : (
+                    <DataTable 
+                      data={filteredData} 
+                      columns={columns} 
+                      loading={loading} 
+                      title={activeReport.title} 
+                      exportDetails={exportDetails}
+                      onRowClick={openEntry}
+                      onManageColumns={() => setShowColumnManager(true)}
+                      cellIssues={validation.cellIssues}
+                      rowChanges={rowChanges}
+                      searchTerm={searchTerm}
+                      onSearchChange={changeSearch}
+                      sortConfig={sortConfig}
+                      onSortChange={setSortConfig}
+                      page={page}
+                      onPageChange={setPage}
+                      entriesPerPage={entriesPerPage}
+                      onEntriesPerPageChange={setEntriesPerPage}
+                      onShare={handleShare}
+                      filterKey={JSON.stringify([activeReport.id, filters, dateRange])}
+                    />
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </main>
+
+        <DataQualityPanel
+          open={showAudit}
+          onClose={() => setShowAudit(false)}
+          title={activeReport.title}
+          data={data}
+          columns={arrangedColumns}
+          schema={activeReport.schema}
+          onOpenRows={openEntry}
         />
-      </main>
 
-      <EntryDetailsModal 
-        entry={selectedEntry} 
-        onClose={() => setSelectedEntry(null)} 
-      />
-    </div>
+        <EntryDetailsModal
+          entry={selectedEntry}
+          entries={entryList}
+          onNavigate={setSelectedEntry}
+          onClose={() => setSelectedEntry(null)}
+          report={activeReport}
+          reports={reports}
+          columns={arrangedColumns}
+        />
+
+        <ColumnManager
+          open={showColumnManager}
+          onClose={() => setShowColumnManager(false)}
+          columns={arrangedColumns}
+          detectedColumns={detectedColumns}
+          layout={columnLayout}
+          onSave={handleSaveColumns}
+          onReset={handleResetColumns}
+        />
+
+        <InsightsPanel
+          open={showInsights}
+          onClose={() => setShowInsights(false)}
+          title={activeReport.title}
+          data={filteredData}
+          columns={columns}
+          provider={summaryProvider}
+        />
+      </div>
+    </LocaleContext.Provider>
   );
 };
 
+const App: React.FC = () => {
+  const [reports, setReports] = useState<ReportConfig[] | null>(null);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadReportRegistry()
+      .then(setReports)
+      .catch((error) => {
+        console.error("Failed to load report configuration", error);
+        setConfigErrors(error instanceof ReportConfigError ? error.errors : [String(error)]);
+      });
+  }, []);
+
+  if (configErrors.length > 0) {
+    return (
+      <div className="min-h-screen bg-slate-50 font-sans flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm border border-red-100 p-6 max-w-xl w-full">
+          <div className="flex items-center gap-2 mb-4">
+            <AlertTriangle className="h-5 w-5 text-red-500" />
+            <h2 className="text-lg font-bold text-slate-800">{t('app.configInvalid')}</h2>
+          </div>
+          <ul className="space-y-2 text-sm text-slate-600 font-mono">
+            {configErrors.map((error, index) => (
+              <li key={index} className="bg-red-50/50 rounded-lg px-3 py-2 break-words">{error}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  if (!reports) {
+    return (
+      <div className="min-h-screen bg-slate-50 font-sans flex items-center justify-center">
+        <RefreshCcw className="h-8 w-8 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return <Dashboard reports={reports} />;
+};
+
 export default App;
\ No newline at end of file
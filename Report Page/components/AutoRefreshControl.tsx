@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Timer, Bell, BellOff, ChevronDown } from 'lucide-react';
+import { REFRESH_INTERVALS, canNotify, requestNotifications } from '../services/autoRefresh';
+import { t } from '../services/i18n';
+
+// Polling interval picker, plus a prompt for notifications on reports that offer them
+const AutoRefreshControl = ({
+  interval,
+  onChange,
+  notify
+}: {
+  interval: number,
+  onChange: (minutes: number) => void,
+  notify: boolean
+}) => {
+  const [permission, setPermission] = useState(() => canNotify() ? Notification.permission : 'denied');
+
+  // A configured default that isn't in the standard list still shows up as an option
+  const options = Array.from(new Set([...REFRESH_INTERVALS, interval])).filter(m => m > 0).sort((a, b) => a - b);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotifications());
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative">
+        <Timer className="absolute left-2.5 top-2 h-4 w-4 text-slate-400 pointer-events-none" />
+        <select
+          value={interval}
+          onChange={(e) => onChange(Number(e.target.value))}
+          title={t('refresh.hint')}
+          className="appearance-none pl-8 pr-8 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value={0}>{t('refresh.off')}</option>
+          {options.map(minutes => (
+            <option key={minutes} value={minutes}>{t('refresh.every', { minutes })}</option>
+          ))}
+        </select>
+        <ChevronDown className="absolute right-2.5 top-2 h-4 w-4 text-slate-400 pointer-events-none" />
+      </div>
+
+      {notify && interval > 0 && canNotify() && permission !== 'granted' && (
+        permission === 'denied' ? (
+          <span className="flex items-center gap-1.5 text-xs text-slate-400" title={t('refresh.blockedHint')}>
+            <BellOff className="h-4 w-4" />
+            {t('refresh.blocked')}
+          </span>
+        ) : (
+          <button
+            onClick={handleEnableNotifications}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            <Bell className="h-4 w-4" />
+            {t('refresh.notify')}
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default AutoRefreshControl;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { RefreshCcw, X } from 'lucide-react';
+import { ReportChanges } from '../types';
+import { t } from '../services/i18n';
+
+// Summarises what auto-refresh brought in; the rows themselves are tinted in the table
+const ChangesBanner = ({ changes, onDismiss }: { changes?: ReportChanges, onDismiss: () => void }) => {
+  if (!changes) return null;
+
+  const added = changes.added.size;
+  const modified = changes.modified.size;
+  const parts = [
+    added > 0 ? <span key="added" className="inline-flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-emerald-200" />{t('changes.added', { count: added })}</span> : null,
+    modified > 0 ? <span key="modified" className="inline-flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-amber-200" />{t('changes.modified', { count: modified })}</span> : null,
+    changes.removed > 0 ? <span key="removed">{t('changes.removed', { count: changes.removed })}</span> : null
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div className="bg-emerald-50 border border-emerald-200 rounded-xl mb-8 flex items-center justify-between gap-3 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-emerald-800">
+        <span className="flex items-center gap-2 font-medium">
+          <RefreshCcw className="h-4 w-4 shrink-0 text-emerald-500" />
+          {t('changes.since')}
+        </span>
+        {parts}
+      </div>
+      <button onClick={onDismiss} title={t('changes.dismiss')} className="p-1 hover:bg-emerald-100 rounded-full transition-colors">
+        <X className="h-4 w-4 text-emerald-600" />
+      </button>
+    </div>
+  );
+};
+
+export default ChangesBanner;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { TrendPoint, ValueTally } from '../types';
+import { formatCompactNumber, formatDisplayDate } from '../utils';
+import { t, useLocale } from '../services/i18n';
+
+// Drawing area of the line chart in SVG units; the chart scales to its container width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 12, bottom: 24, left: 44 };
+
+export const TimeSeriesChart = ({
+  points,
+  metric,
+  formatValue,
+  onPointClick,
+  color = '#6366f1'
+}: {
+  points: TrendPoint[],
+  metric: 'amount' | 'count',
+  formatValue: (value: number) => string,
+  onPointClick?: (point: TrendPoint) => void,
+  color?: string
+}) => {
+  const locale = useLocale();
+  const [hovered, setHovered] = useState<TrendPoint | null>(null);
+
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-400 italic py-8 text-center">{t('charts.noDates')}</p>;
+  }
+
+  const max = Math.max(...points.map(p => p[metric]), 1);
+  const first = points[0].date;
+  const span = Math.max(points[points.length - 1].date - first, 1);
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+
+  const x = (date: number) => PAD.left + (points.length === 1 ? innerW / 2 : ((date - first) / span) * innerW);
+  const y = (value: number) => PAD.top + innerH - (value / max) * innerH;
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(p[metric]).toFixed(1)}`).join(' ');
+  const area = `${line} L${x(points[points.length - 1].date).toFixed(1)},${PAD.top + innerH} L${x(first).toFixed(1)},${PAD.top + innerH} Z`;
+  const labelPoints = points.length > 2 ? [points[0], points[Math.floor(points.length / 2)], points[points.length - 1]] : points;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(max * fraction)} y2={y(max * fraction)} stroke="#e2e8f0" strokeDasharray={fraction === 0 ? undefined : '4 4'} />
+            <text x={PAD.left - 6} y={y(max * fraction) + 4} textAnchor="end" fontSize="10" fill="#94a3b8">
+              {formatCompactNumber(max * fraction, locale)}
+            </text>
+          </g>
+        ))}
+        {labelPoints.map(p => (
+          <text key={p.date} x={x(p.date)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#94a3b8">
+            {formatDisplayDate(p.date, locale).slice(0, 5)}
+          </text>
+        ))}
+        <path d={area} fill={color} fillOpacity="0.08" />
+        <path d={line} fill="none" stroke={color} strokeWidth="2" strokeLinejoin="round" />
+        {points.map(p => (
+          <g
+            key={p.date}
+            className={onPointClick ? 'cursor-pointer' : ''}
+            onClick={() => onPointClick?.(p)}
+            onMouseEnter={() => setHovered(p)}
+            onMouseLeave={() => setHovered(null)}
+          >
+            <circle cx={x(p.date)} cy={y(p[metric])} r="10" fill="transparent" />
+            <circle cx={x(p.date)} cy={y(p[metric])} r={hovered === p ? 5 : 3} fill="white" stroke={color} strokeWidth="2" />
+          </g>
+        ))}
+      </svg>
+      {hovered && (
+        <div className="absolute top-0 right-0 bg-slate-800 text-white text-xs rounded-lg px-2.5 py-1.5 pointer-events-none">
+          {formatDisplayDate(hovered.date, locale)} · {formatValue(hovered[metric])}
+          {metric === 'amount' && <span className="text-slate-300"> ({t(hovered.count === 1 ? 'common.entry' : 'common.entries', { count: hovered.count })})</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const CategoryBarChart = ({
+  items,
+  metric,
+  formatValue,
+  activeValue,
+  onBarClick
+}: {
+  items: ValueTally[],
+  metric: 'amount' | 'count',
+  formatValue: (value: number) => string,
+  activeValue?: string,
+  onBarClick?: (item: ValueTally) => void
+}) => {
+  if (items.length === 0) {
+    return <p className="text-sm text-slate-400 italic py-8 text-center">{t('charts.noValues')}</p>;
+  }
+
+  const max = Math.max(...items.map(i => i[metric]), 1);
+
+  return (
+    <ul className="space-y-2">
+      {items.map(item => {
+        const isActive = activeValue === item.value;
+        return (
+          <li key={item.value}>
+            <button
+              onClick={() => onBarClick?.(item)}
+              className="w-full text-left group"
+              title={onBarClick ? (isActive ? t('charts.clearFilter') : t('charts.filterTo', { value: item.value })) : undefined}
+            >
+              <div className="flex justify-between text-xs sm:text-sm mb-1">
+                <span className={`font-medium truncate pr-2 ${isActive ? 'text-indigo-700' : 'text-slate-700 group-hover:text-indigo-600'}`}>{item.value}</span>
+                <span className="text-slate-500 whitespace-nowrap">{formatValue(item[metric])}</span>
+              </div>
+              <div className="h-2.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-colors ${isActive ? 'bg-indigo-600' : 'bg-indigo-300 group-hover:bg-indigo-500'}`}
+                  style={{ width: `${(item[metric] / max) * 100}%` }}
+                />
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
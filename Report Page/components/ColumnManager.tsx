@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowUp, ArrowDown, Eye, EyeOff, Pin, RotateCcw } from 'lucide-react';
+import { ColumnDefinition, ColumnLayout } from '../types';
+import { t } from '../services/i18n';
+
+interface EditableColumn {
+  key: string;
+  detectedLabel: string;
+  label: string;
+  hidden: boolean;
+  pinned: boolean;
+}
+
+const toEditable = (arranged: ColumnDefinition[], detected: ColumnDefinition[], layout: ColumnLayout): EditableColumn[] => {
+  const hidden = new Set((layout.hidden || []).map(k => k.trim().toLowerCase()));
+  return arranged.map(col => ({
+    key: col.key,
+    detectedLabel: detected.find(d => d.key === col.key)?.label || col.key,
+    label: col.label,
+    hidden: hidden.has(col.key.trim().toLowerCase()),
+    pinned: !!col.pinned
+  }));
+};
+
+const ColumnManager = ({
+  open,
+  onClose,
+  columns,
+  detectedColumns,
+  layout,
+  onSave,
+  onReset
+}: {
+  open: boolean,
+  onClose: () => void,
+  columns: ColumnDefinition[],          // Every column, arranged by the current layout
+  detectedColumns: ColumnDefinition[],  // As detected from the sheet, for default labels
+  layout: ColumnLayout,
+  onSave: (layout: ColumnLayout) => void,
+  onReset: () => void
+}) => {
+  const [items, setItems] = useState<EditableColumn[]>([]);
+
+  useEffect(() => {
+    if (open) setItems(toEditable(columns, detectedColumns, layout));
+  }, [open, columns, detectedColumns, layout]);
+
+  if (!open) return null;
+
+  const update = (index: number, changes: Partial<EditableColumn>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const move = (index: number, offset: number) => {
+    setItems(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const labels: Record<string, string> = {};
+    items.forEach(item => {
+      const label = item.label.trim();
+      if (label && label !== item.detectedLabel) labels[item.key] = label;
+    });
+    onSave({
+      order: items.map(item => item.key),
+      hidden: items.filter(item => item.hidden).map(item => item.key),
+      pinned: items.filter(item => item.pinned).map(item => item.key),
+      labels
+    });
+    onClose();
+  };
+
+  const visibleCount = items.filter(item => !item.hidden).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('columns.title')}</h3>
+            <p className="text-sm text-slate-500">{t('columns.shown', { visible: visibleCount, total: items.length })}</p>
+          </div>
+          <button onClick={onClose} title={t('common.close')} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="h-5 w-5 text-slate-500" />
+          </button>
+        </div>
+
+        <ul className="p-4 space-y-2 overflow-y-auto">
+          {items.map((item, index) => (
+            <li key={item.key} className={`flex items-center gap-2 border rounded-xl p-2 ${item.hidden ? 'bg-slate-50 border-slate-100' : 'bg-white border-slate-200'}`}>
+              <div className="flex flex-col">
+                <button onClick={() => move(index, -1)} disabled={index === 0} title={t('columns.moveUp')} className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === items.length - 1} title={t('columns.moveDown')} className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={item.label}
+                  onChange={(e) => update(index, { label: e.target.value })}
+                  className={`w-full text-sm font-medium border border-transparent hover:border-slate-200 focus:border-indigo-500 focus:ring-indigo-500 rounded-md px-2 py-1 ${item.hidden ? 'bg-transparent text-slate-400' : 'text-slate-800'}`}
+                />
+                {item.label.trim() !== item.key && (
+                  <p className="text-xs text-slate-400 px-2 truncate">{t('columns.sheetColumn', { key: item.key })}</p>
+                )}
+              </div>
+              <button
+                onClick={() => update(index, { pinned: !item.pinned })}
+                title={item.pinned ? t('columns.unpin') : t('columns.pin')}
+                className={`p-2 rounded-lg transition-colors ${item.pinned ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:bg-slate-100'}`}
+              >
+                <Pin className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => update(index, { hidden: !item.hidden })}
+                title={item.hidden ? t('columns.show') : t('columns.hide')}
+                className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors"
+              >
+                {item.hidden ? <EyeOff className="h-4 w-4 text-slate-300" /> : <Eye className="h-4 w-4" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50/50 rounded-b-2xl flex gap-3">
+          <button
+            onClick={() => { onReset(); onClose(); }}
+            className="flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <RotateCcw className="h-4 w-4" />
+            {t('columns.defaults')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={visibleCount === 0}
+            className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-3 rounded-xl transition-colors shadow-md shadow-indigo-200 disabled:opacity-50"
+          >
+            {t('columns.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnManager;
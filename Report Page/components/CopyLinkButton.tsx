@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { Link2, Check } from 'lucide-react';
+import { t } from '../services/i18n';
+
+// Copies the current address, which carries the whole view (tab, filters, search, sort, page)
+const CopyLinkButton = () => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    const url = window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard access needs a secure context; let the user copy it by hand
+      window.prompt(t('copyLink.prompt'), url);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors"
+    >
+      {copied ? <Check className="h-4 w-4 text-emerald-600" /> : <Link2 className="h-4 w-4" />}
+      {copied ? t('common.copied') : t('copyLink.button')}
+    </button>
+  );
+};
+
+export default CopyLinkButton;
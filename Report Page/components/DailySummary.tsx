@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, RefreshCcw, ChevronDown, AlertTriangle, CloudOff } from 'lucide-react';
+import { ReportConfig, LogEntry, ColumnDefinition } from '../types';
+import { loadLatestReportData } from '../services/dataSources';
+import { buildDailySection, collectSites, getSharedLocale } from '../services/dailySummary';
+import { getReportColumns } from '../services/columnLayout';
+import { prepareReportData } from '../services/dataWorkerClient';
+import { cellText, formatDisplayDate, downloadDailySummaryPDF, toInputValue } from '../utils';
+import ReportIcon from './ReportIcon';
+import { t, getLanguage, formatRelativeTime, Language } from '../services/i18n';
+
+interface LoadedReport {
+  report: ReportConfig;
+  data: LogEntry[];
+  columns: ColumnDefinition[];
+  fetchedAt: number | null;
+  fromCache: boolean;
+  error?: string;
+}
+
+const DailySummary = ({ reports }: { reports: ReportConfig[] }) => {
+  const [day, setDay] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  });
+  const [site, setSite] = useState('');
+  const [loaded, setLoaded] = useState<LoadedReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  // Uploaded-file reports have nothing to load until the user picks a file, so they're left out
+  const sources = useMemo(() => reports.filter(r => r.source.kind !== 'file'), [reports]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all(sources.map(async (report): Promise<LoadedReport> => {
+      try {
+        const { result, fetchedAt, fromCache } = await loadLatestReportData(report);
+        const prepared = await prepareReportData(result.rows, report.schema, report.locale);
+        return { report, data: prepared.rows, columns: getReportColumns(report, prepared.columns), fetchedAt, fromCache };
+      } catch (error) {
+        console.error(`Failed to load ${report.title}`, error);
+        return { report, data: [], columns: [], fetchedAt: null, fromCache: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    })).then(results => {
+      if (cancelled) return;
+      setLoaded(results);
+      setLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [sources, reloadToken]);
+
+  const locale = useMemo(() => getSharedLocale(sources), [sources]);
+  const sites = useMemo(() => collectSites(loaded), [loaded]);
+
+  const buildSections = (lang?: Language) =>
+    loaded.filter(item => !item.error).map(item => buildDailySection(item.report, item.data, item.columns, day, site, lang));
+  const sections = useMemo(() => buildSections(), [loaded, day, site, getLanguage()]);
+
+  const failed = loaded.filter(item => item.error);
+  const cached = loaded.filter(item => item.fromCache);
+
+  // The PDF stays in English, like the other exports
+  const handleDownload = () => {
+    const subtitle = `${formatDisplayDate(day, locale)} · ${site || t('summary.allSites', {}, 'en')}`;
+    downloadDailySummaryPDF(`Daily Site Summary ${formatDisplayDate(day, locale).replace(/\//g, '-')}`, subtitle, buildSections('en'), locale);
+  };
+
+  return (
+    <>
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('summary.date')}</label>
+            <input
+              type="date"
+              value={toInputValue(day)}
+              onChange={(e) => {
+                const [y, m, d] = e.target.value.split('-').map(Number);
+                if (y && m && d) setDay(new Date(y, m - 1, d).getTime());
+              }}
+              className="bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5"
+            />
+          </div>
+          <div className="sm:w-56">
+            <label className="block text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('summary.site')}</label>
+            <div className="relative">
+              <select
+                value={site}
+                onChange={(e) => setSite(e.target.value)}
+                className="w-full appearance-none bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 pr-8"
+              >
+                <option value="">{t('summary.allSites')}</option>
+                {sites.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <ChevronDown className="absolute right-2.5 top-3 h-4 w-4 text-slate-400 pointer-events-none" />
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setReloadToken(token => token + 1)}
+            disabled={loading}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <RefreshCcw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            {t('summary.refresh')}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={loading || sections.length === 0}
+            className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50 flex-1 md:flex-none justify-center"
+          >
+            <Download className="h-4 w-4" />
+            {t('summary.downloadPdf')}
+          </button>
+        </div>
+      </div>
+
+      {!loading && (failed.length > 0 || cached.length > 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl mb-8 px-4 py-3 text-sm text-amber-800 space-y-1">
+          {failed.map(item => (
+            <p key={item.report.id} className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+              {t('summary.loadFailed', { title: item.report.title, error: item.error })}
+            </p>
+          ))}
+          {cached.map(item => (
+            <p key={item.report.id} className="flex items-center gap-2">
+              <CloudOff className="h-4 w-4 shrink-0 text-amber-500" />
+              {item.fetchedAt
+                ? t('summary.fromCache', { title: item.report.title, time: formatRelativeTime(item.fetchedAt) })
+                : t('summary.fromCacheUndated', { title: item.report.title })}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-slate-100">
+          <RefreshCcw className="h-8 w-8 text-indigo-500 animate-spin mx-auto mb-4" />
+          <p className="text-slate-500">{t('summary.loading')}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sections.map(section => (
+            <div key={section.report.id} className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+              <div className="p-5 border-b border-slate-100">
+                <div className="flex items-center gap-2 mb-3">
+                  <ReportIcon name={section.report.icon} className={`h-5 w-5 ${section.report.primaryColor}`} />
+                  <h2 className="text-lg font-bold text-slate-800">{section.report.title}</h2>
+                  {site && !section.siteSpecific && (
+                    <span className="text-xs text-slate-400">{t('summary.noSiteColumn')}</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {section.highlights.map(h => (
+                    <span key={h.label} className="bg-slate-50 border border-slate-100 rounded-lg px-3 py-1.5 text-sm">
+                      <span className="text-slate-500">{h.label}: </span>
+                      <span className="font-semibold text-slate-800">{h.value}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {section.rows.length === 0 ? (
+                <p className="px-5 py-6 text-sm text-slate-400 italic">{t('summary.noEntries')}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+                    <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
+                      <tr>
+                        {section.columns.map(col => (
+                          <th key={col.key} className="px-4 py-3 font-semibold whitespace-nowrap">{col.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {section.rows.map((row, index) => (
+                        <tr key={index} className="bg-white border-b border-slate-100 last:border-0">
+                          {section.columns.map(col => (
+                            <td key={col.key} className="px-4 py-3 font-medium text-slate-900 whitespace-pre-wrap max-w-xs">{cellText(row[col.key], section.report.locale)}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DailySummary;
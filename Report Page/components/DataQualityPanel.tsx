@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { X, ShieldCheck, Download, CheckCircle2 } from 'lucide-react';
+import { LogEntry, ColumnDefinition, QualityCheck, QualityIssue, ReportSchema } from '../types';
+import { QUALITY_CHECKS, auditData, describeIssue, exportQualityIssues, toSheetRows } from '../services/dataQuality';
+import { t, useLocale } from '../services/i18n';
+
+// Row links shown per issue before the rest are counted
+const ROW_LINKS = 8;
+
+const DataQualityPanel = ({
+  open,
+  onClose,
+  title,
+  data,
+  columns,
+  schema,
+  onOpenRows
+}: {
+  open: boolean,
+  onClose: () => void,
+  title: string,
+  data: LogEntry[],                    // Every loaded row, before filters
+  columns: ColumnDefinition[],
+  schema?: ReportSchema,
+  onOpenRows: (entry: LogEntry, rows: LogEntry[]) => void
+}) => {
+  const locale = useLocale();
+  const issues = useMemo(() => open ? auditData(data, columns, schema, locale) : [], [open, data, columns, schema, locale]);
+
+  if (!open) return null;
+
+  const checks = (Object.keys(QUALITY_CHECKS) as QualityCheck[])
+    .map(check => ({ check, issues: issues.filter((issue: QualityIssue) => issue.check === check) }))
+    .filter(group => group.issues.length > 0);
+
+  const openIssue = (issue: QualityIssue, index: number) => {
+    const rows = issue.rows.map(i => data[i]);
+    onOpenRows(rows[index], rows);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto flex flex-col animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center gap-2 p-6 border-b border-slate-100 sticky top-0 bg-white z-10">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-indigo-600" />
+            <h3 className="text-xl font-bold text-slate-800">{t('quality.title')}</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => exportQualityIssues(title, issues, data)}
+              disabled={issues.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+              <X className="h-5 w-5 text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {issues.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-slate-500">
+              <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+              {t('quality.clean', { rows: data.length })}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-500">
+                {issues.length === 1 ? t('quality.foundOne', { rows: data.length }) : t('quality.found', { issues: issues.length, rows: data.length })}
+              </p>
+              {checks.map(group => (
+                <div key={group.check} className="border-b border-slate-100 last:border-0 pb-5 last:pb-0">
+                  <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
+                    {t(QUALITY_CHECKS[group.check])} · {group.issues.length}
+                  </h4>
+                  <ul className="space-y-2">
+                    {group.issues.map((issue: QualityIssue, index: number) => {
+                      const sheetRows = toSheetRows(issue, data);
+                      return (
+                        <li key={index} className="text-sm bg-amber-50/60 rounded-lg px-3 py-2">
+                          <p className="text-slate-700">
+                            {issue.column && <span className="font-semibold">{issue.column}: </span>}
+                            {describeIssue(issue)}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                            {sheetRows.slice(0, ROW_LINKS).map((row, i) => (
+                              <button
+                                key={row}
+                                onClick={() => openIssue(issue, i)}
+                                className="px-2 py-0.5 rounded-md bg-white border border-amber-200 text-xs font-mono text-amber-800 hover:bg-amber-100 transition-colors"
+                              >
+                                {t('quality.row', { row })}
+                              </button>
+                            ))}
+                            {sheetRows.length > ROW_LINKS && (
+                              <span className="text-xs text-slate-400">{t('quality.more', { count: sheetRows.length - ROW_LINKS })}</span>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
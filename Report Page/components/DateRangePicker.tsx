@@ -0,0 +1,83 @@
+import React from 'react';
+import { Calendar, ChevronDown } from 'lucide-react';
+import { DateRange, DateRangePreset } from '../types';
+import { resolveDateRange, formatDateRange, toInputValue, fromInputValue } from '../utils';
+import { t, MessageKey, useLocale } from '../services/i18n';
+
+const PRESETS: { value: DateRangePreset, label: MessageKey }[] = [
+  { value: 'all', label: 'date.all' },
+  { value: 'today', label: 'date.today' },
+  { value: 'yesterday', label: 'date.yesterday' },
+  { value: 'thisWeek', label: 'date.thisWeek' },
+  { value: 'thisMonth', label: 'date.thisMonth' },
+  { value: 'lastMonth', label: 'date.lastMonth' },
+  { value: 'custom', label: 'date.custom' }
+];
+
+const DateRangePicker = ({
+  label,
+  value,
+  onChange
+}: {
+  label: string,
+  value: DateRange,
+  onChange: (range: DateRange) => void
+}) => {
+  const locale = useLocale();
+
+  const handlePresetChange = (preset: DateRangePreset) => {
+    if (preset === 'custom') {
+      // Start the custom range from whatever is currently applied
+      onChange({ ...value, preset });
+    } else {
+      onChange(resolveDateRange(preset));
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+      <div className="sm:w-48">
+        <label className="block text-xs font-medium text-slate-500 mb-1.5 ml-1">
+          {label}
+        </label>
+        <div className="relative">
+          <Calendar className="absolute left-2.5 top-3 h-4 w-4 text-slate-400 pointer-events-none" />
+          <select
+            value={value.preset}
+            onChange={(e) => handlePresetChange(e.target.value as DateRangePreset)}
+            className="w-full appearance-none bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5 pl-8 pr-8"
+          >
+            {PRESETS.map(preset => (
+              <option key={preset.value} value={preset.value}>{t(preset.label)}</option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-2.5 top-3 h-4 w-4 text-slate-400 pointer-events-none" />
+        </div>
+      </div>
+
+      {value.preset === 'custom' ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={toInputValue(value.start)}
+            max={toInputValue(value.end) || undefined}
+            onChange={(e) => onChange({ ...value, start: fromInputValue(e.target.value, false) })}
+            className="bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2"
+          />
+          <span className="text-slate-400 text-sm">{t('date.to')}</span>
+          <input
+            type="date"
+            value={toInputValue(value.end)}
+            min={toInputValue(value.start) || undefined}
+            onChange={(e) => onChange({ ...value, end: fromInputValue(e.target.value, true) })}
+            className="bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2"
+          />
+        </div>
+      ) : value.preset !== 'all' && (
+        <span className="text-sm text-slate-500 pb-2.5">{formatDateRange(value, locale)}</span>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, ChevronLeft, ChevronRight, Copy, Check, FileDown, ExternalLink, CalendarDays, Loader2 } from 'lucide-react';
+import { LogEntry, ColumnDefinition, EntryField, ReportConfig, SameDayRecords } from '../types';
+import { entryToText, findSameDayRecords, getEntryFields, getThumbnailUrl, shortenLink, summarizeRow } from '../services/entryDetails';
+import { getRowTimestamp } from '../services/rowIndex';
+import { downloadEntryPDF, formatDisplayDate, getMainDateColumn } from '../utils';
+import { t, useLocale } from '../services/i18n';
+import ReportIcon from './ReportIcon';
+
+// Linked entries listed per report before the rest are counted
+const LINKED_ROW_LIMIT = 5;
+
+const LinkChip = ({ url }: { url: string }) => (
+  <a
+    href={url}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="inline-flex items-center gap-1.5 max-w-full px-2.5 py-1 rounded-lg bg-slate-100 text-sm text-indigo-700 hover:bg-indigo-50 transition-colors"
+  >
+    <ExternalLink className="h-3.5 w-3.5 shrink-0" />
+    <span className="truncate">{shortenLink(url)}</span>
+  </a>
+);
+
+// Falls back to a plain link when the preview can't be loaded (private Drive files, non-images)
+const Thumbnail = ({ url }: { url: string }) => {
+  const [failed, setFailed] = useState(false);
+  const preview = getThumbnailUrl(url);
+  if (!preview || failed) return <LinkChip url={url} />;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="block aspect-square rounded-lg overflow-hidden bg-slate-100 border border-slate-200 hover:ring-2 hover:ring-indigo-300 transition">
+      <img src={preview} alt="" loading="lazy" referrerPolicy="no-referrer" onError={() => setFailed(true)} className="h-full w-full object-cover" />
+    </a>
+  );
+};
+
+const FieldValue = ({ field }: { field: EntryField }) => {
+  if (field.links.length === 0) {
+    return <span className="text-sm sm:text-base text-slate-800 font-medium whitespace-pre-wrap leading-relaxed">{field.value}</span>;
+  }
+  const previews = field.links.filter(url => getThumbnailUrl(url));
+  const others = field.links.filter(url => !getThumbnailUrl(url));
+  return (
+    <div className="space-y-2">
+      {previews.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {previews.map(url => <React.Fragment key={url}><Thumbnail url={url} /></React.Fragment>)}
+        </div>
+      )}
+      {others.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {others.map(url => <React.Fragment key={url}><LinkChip url={url} /></React.Fragment>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const EntryDetailsModal = ({
+  entry,
+  entries,
+  onNavigate,
+  onClose,
+  report,
+  reports,
+  columns
+}: {
+  entry: LogEntry | null,
+  entries: LogEntry[],                 // The rows in on-screen order, for previous/next
+  onNavigate: (entry: LogEntry) => void,
+  onClose: () => void,
+  report: ReportConfig,
+  reports: ReportConfig[],
+  columns: ColumnDefinition[]          // Every column, arranged by the current layout
+}) => {
+  const locale = useLocale();
+  const [copied, setCopied] = useState(false);
+  const [linked, setLinked] = useState<SameDayRecords[] | null>(null);
+
+  const index = entry ? entries.indexOf(entry) : -1;
+  const previous = index > 0 ? entries[index - 1] : null;
+  const next = index !== -1 && index < entries.length - 1 ? entries[index + 1] : null;
+
+  const fields = useMemo(() => entry ? getEntryFields(entry, columns, locale) : [], [entry, columns, locale]);
+  const dateColumn = useMemo(() => getMainDateColumn(columns), [columns]);
+  const timestamp = entry && dateColumn ? getRowTimestamp(entry, dateColumn.key) : NaN;
+  const day = isNaN(timestamp) ? null : formatDisplayDate(timestamp, locale);
+
+  useEffect(() => {
+    if (!entry) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && previous) onNavigate(previous);
+      else if (e.key === 'ArrowRight' && next) onNavigate(next);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [entry, previous, next, onNavigate, onClose]);
+
+  // Stepping between entries of the same day keeps the linked records already found
+  useEffect(() => {
+    if (day === null) {
+      setLinked(null);
+      return;
+    }
+    let cancelled = false;
+    setLinked(null);
+    findSameDayRecords(reports, report, timestamp).then(results => {
+      if (!cancelled) setLinked(results);
+    });
+    return () => { cancelled = true; };
+  }, [day, report, reports]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  if (!entry) return null;
+
+  const handleCopy = async () => {
+    const text = entryToText(report.title, fields);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      // Clipboard access needs a secure context; let the user copy it by hand
+      window.prompt(t('entry.copyPrompt'), text);
+    }
+  };
+
+  const withRows = (linked || []).filter((group: SameDayRecords) => group.rows.length > 0);
+  const failed = (linked || []).filter((group: SameDayRecords) => group.error);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto flex flex-col animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center gap-2 p-6 border-b border-slate-100 sticky top-0 bg-white z-10">
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-800">{t('entry.title')}</h3>
+              {index !== -1 && entries.length > 1 && (
+                <p className="text-xs text-slate-400">{t('entry.position', { index: index + 1, total: entries.length })}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {entries.length > 1 && (
+                <>
+                  <button onClick={() => previous && onNavigate(previous)} disabled={!previous} title={t('entry.previous')} className="p-2 hover:bg-slate-100 rounded-full transition-colors disabled:opacity-30">
+                      <ChevronLeft className="h-5 w-5 text-slate-500" />
+                  </button>
+                  <button onClick={() => next && onNavigate(next)} disabled={!next} title={t('entry.next')} className="p-2 hover:bg-slate-100 rounded-full transition-colors disabled:opacity-30">
+                      <ChevronRight className="h-5 w-5 text-slate-500" />
+                  </button>
+                </>
+              )}
+              <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                  <X className="h-5 w-5 text-slate-500" />
+              </button>
+            </div>
+        </div>
+        <div className="flex gap-2 px-6 pt-4">
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              {copied ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+              {copied ? t('common.copied') : t('entry.copy')}
+            </button>
+            <button
+              onClick={() => downloadEntryPDF(report.title, day ? `Entry of ${day}` : 'Entry', fields, locale)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              <FileDown className="h-4 w-4" />
+              PDF
+            </button>
+        </div>
+        <div className="p-6 space-y-4">
+            {fields.map(field => (
+                <div key={field.key} className="flex flex-col border-b border-slate-50 last:border-0 pb-3 last:pb-0">
+                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1">
+                        {field.label}
+                    </span>
+                    <FieldValue field={field} />
+                </div>
+            ))}
+            {fields.length === 0 && <p className="text-slate-400 italic">{t('entry.empty')}</p>}
+        </div>
+        {day && (
+          <div className="px-6 pb-6">
+            <h4 className="flex items-center gap-2 text-sm font-bold text-slate-700 mb-3">
+              <CalendarDays className="h-4 w-4 text-slate-400" />
+              {t('entry.sameDay', { day })}
+            </h4>
+            {linked === null ? (
+              <p className="flex items-center gap-2 text-sm text-slate-400">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t('entry.searching')}
+              </p>
+            ) : withRows.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">{t('entry.nothingElse')}</p>
+            ) : (
+              <div className="space-y-3">
+                {withRows.map((group: SameDayRecords) => (
+                  <div key={group.report.id} className="rounded-xl border border-slate-100 p-3">
+                    <p className={`flex items-center gap-2 text-sm font-semibold mb-1.5 ${group.report.primaryColor}`}>
+                      <ReportIcon name={group.report.icon} className="h-4 w-4" />
+                      {group.report.title}
+                      <span className="text-xs font-normal text-slate-400">{t('common.entries', { count: group.rows.length })}</span>
+                    </p>
+                    <ul className="space-y-1 text-sm text-slate-600">
+                      {group.rows.slice(0, LINKED_ROW_LIMIT).map((row: LogEntry, i: number) => (
+                        <li key={i} className="truncate">• {summarizeRow(row, group.columns, group.report.locale) || '—'}</li>
+                      ))}
+                      {group.rows.length > LINKED_ROW_LIMIT && (
+                        <li className="text-xs text-slate-400">{t('entry.more', { count: group.rows.length - LINKED_ROW_LIMIT })}</li>
+                      )}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+            {failed.length > 0 && (
+              <p className="text-xs text-slate-400 mt-2">{t('entry.loadFailed', { reports: failed.map((group: SameDayRecords) => group.report.title).join(', ') })}</p>
+            )}
+          </div>
+        )}
+        <div className="p-6 border-t border-slate-100 bg-slate-50/50 rounded-b-2xl">
+            <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-3 rounded-xl transition-colors shadow-md shadow-indigo-200">
+                {t('common.close')}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryDetailsModal;
@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, ChevronDown, FileText, FileSpreadsheet, FileJson, Table } from 'lucide-react';
+import { t, MessageKey } from '../services/i18n';
+
+export type ExportFormat = 'pdf' | 'csv' | 'xlsx' | 'json';
+
+const OPTIONS: { format: ExportFormat, label: MessageKey, icon: React.ReactNode }[] = [
+  { format: 'pdf', label: 'export.pdf', icon: <FileText className="h-4 w-4 text-red-500" /> },
+  { format: 'xlsx', label: 'export.xlsx', icon: <FileSpreadsheet className="h-4 w-4 text-emerald-600" /> },
+  { format: 'csv', label: 'export.csv', icon: <Table className="h-4 w-4 text-slate-500" /> },
+  { format: 'json', label: 'export.json', icon: <FileJson className="h-4 w-4 text-amber-500" /> }
+];
+
+const ExportMenu = ({ onExport, disabled }: { onExport: (format: ExportFormat) => void, disabled?: boolean }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div className="relative w-full md:w-auto" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors w-full md:w-auto justify-center disabled:opacity-50"
+      >
+        <Download className="h-4 w-4" />
+        {t('export.button')}
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-full md:w-52 bg-white rounded-xl shadow-lg border border-slate-100 py-1 z-20">
+          {OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => {
+                setOpen(false);
+                onExport(option.format);
+              }}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              {option.icon}
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { t } from '../services/i18n';
+
+const FileSourcePrompt = ({
+  format,
+  fileName,
+  onFileSelected
+}: {
+  format?: 'csv' | 'json',
+  fileName?: string,
+  onFileSelected: (file: File) => void
+}) => {
+  const accept = format === 'json' ? '.json,application/json'
+    : format === 'csv' ? '.csv,text/csv'
+    : '.csv,.json,text/csv,application/json';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 mb-8 flex flex-col sm:flex-row items-center justify-between gap-4">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800">{t('file.title')}</h2>
+        <p className="text-sm text-slate-500">
+          {fileName ? <>{t('file.showing')} <span className="font-medium text-slate-700">{fileName}</span></> : t('file.prompt')}
+        </p>
+      </div>
+      <label className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors cursor-pointer w-full sm:w-auto justify-center">
+        <Upload className="h-4 w-4" />
+        {fileName ? t('file.chooseAnother') : t('file.choose')}
+        <input
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFileSelected(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default FileSourcePrompt;
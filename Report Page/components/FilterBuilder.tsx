@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import { LogEntry, ColumnDefinition, FilterCondition, FilterOperator } from '../types';
+import { getFilterKind, getOperatorArity, getOperatorLabel, isConditionComplete, OPERATORS_BY_KIND } from '../services/filters';
+import { getUniqueValues } from '../services/rowIndex';
+import { t } from '../services/i18n';
+
+// Long value lists are searched rather than scrolled
+const MAX_LISTED_VALUES = 200;
+
+const inputClass = "w-full bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5";
+
+const Select = ({ value, onChange, children }: { value: string, onChange: (value: string) => void, children: React.ReactNode }) => (
+  <div className="relative">
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} appearance-none pr-8`}>
+      {children}
+    </select>
+    <ChevronDown className="absolute right-2.5 top-3 h-4 w-4 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+const FilterBuilder = ({
+  columns,
+  data,
+  initial,
+  onApply,
+  onCancel
+}: {
+  columns: ColumnDefinition[],
+  data: LogEntry[],
+  initial?: FilterCondition,
+  onApply: (condition: FilterCondition) => void,
+  onCancel: () => void
+}) => {
+  const [condition, setCondition] = useState<FilterCondition>(() => initial || {
+    column: columns[0]?.key || '',
+    operator: OPERATORS_BY_KIND[getFilterKind(columns[0])][0],
+    values: []
+  });
+  const [valueSearch, setValueSearch] = useState('');
+
+  const column = columns.find(col => col.key === condition.column);
+  const kind = getFilterKind(column);
+  const arity = getOperatorArity(condition.operator);
+  const inputType = kind === 'date' ? 'date' : kind === 'number' ? 'number' : 'text';
+
+  const uniqueValues = getUniqueValues(data, condition.column);
+  const listedValues = uniqueValues
+    .filter(v => v.toLowerCase().includes(valueSearch.trim().toLowerCase()))
+    .slice(0, MAX_LISTED_VALUES);
+
+  const changeColumn = (key: string) => {
+    const nextKind = getFilterKind(columns.find(col => col.key === key));
+    setCondition(prev => ({
+      column: key,
+      // Keep the operator when the new column supports it
+      operator: OPERATORS_BY_KIND[nextKind].includes(prev.operator) ? prev.operator : OPERATORS_BY_KIND[nextKind][0],
+      values: []
+    }));
+    setValueSearch('');
+  };
+
+  const changeOperator = (operator: FilterOperator) => {
+    setCondition(prev => ({
+      ...prev,
+      operator,
+      // Picked values carry over between "is" and "is not"; typed values between single-value operators
+      values: getOperatorArity(operator) === getOperatorArity(prev.operator) ? prev.values : []
+    }));
+  };
+
+  const setValue = (index: number, value: string) => {
+    setCondition(prev => {
+      const values = [...prev.values];
+      values[index] = value;
+      return { ...prev, values };
+    });
+  };
+
+  const toggleValue = (value: string) => {
+    setCondition(prev => ({
+      ...prev,
+      values: prev.values.includes(value) ? prev.values.filter(v => v !== value) : [...prev.values, value]
+    }));
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-50 border border-slate-200 rounded-xl">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('filters.column')}</label>
+          <Select value={condition.column} onChange={changeColumn}>
+            {columns.map(col => <option key={col.key} value={col.key}>{col.label}</option>)}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('filters.condition')}</label>
+          <Select value={condition.operator} onChange={(op) => changeOperator(op as FilterOperator)}>
+            {OPERATORS_BY_KIND[kind].map(op => (
+              <option key={op} value={op}>{op === 'in' ? t('filters.anyOf') : op === 'notIn' ? t('filters.noneOf') : getOperatorLabel(op, kind)}</option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      {arity === 'one' && (
+        <input
+          type={condition.operator === 'contains' ? 'text' : inputType}
+          value={condition.values[0] || ''}
+          onChange={(e) => setValue(0, e.target.value)}
+          placeholder={t('filters.value')}
+          className={inputClass}
+          autoFocus
+        />
+      )}
+
+      {arity === 'two' && (
+        <div className="flex items-center gap-2">
+          <input type={inputType} value={condition.values[0] || ''} onChange={(e) => setValue(0, e.target.value)} placeholder={t('filters.from')} className={inputClass} />
+          <span className="text-slate-400 text-sm">{t('date.to')}</span>
+          <input type={inputType} value={condition.values[1] || ''} onChange={(e) => setValue(1, e.target.value)} placeholder={t('filters.to')} className={inputClass} />
+        </div>
+      )}
+
+      {arity === 'many' && (
+        <div className="bg-white border border-slate-200 rounded-lg">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-100">
+            <Search className="h-4 w-4 text-slate-400" />
+            <input
+              type="text"
+              value={valueSearch}
+              onChange={(e) => setValueSearch(e.target.value)}
+              placeholder={t('filters.searchValues', { count: uniqueValues.length })}
+              className="flex-1 text-sm border-0 p-0 focus:ring-0"
+            />
+            <span className="text-xs text-slate-400 whitespace-nowrap">{t('filters.selected', { count: condition.values.length })}</span>
+          </div>
+          <ul className="max-h-56 overflow-y-auto py-1">
+            {listedValues.map(value => (
+              <li key={value}>
+                <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={condition.values.includes(value)}
+                    onChange={() => toggleValue(value)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className={value ? '' : 'italic text-slate-400'}>{value || t('filters.blank')}</span>
+                </label>
+              </li>
+            ))}
+            {listedValues.length === 0 && <li className="px-3 py-2 text-sm text-slate-400 italic">{t('filters.noValues')}</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={() => onApply(condition)}
+          disabled={!isConditionComplete(condition)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {initial ? t('filters.update') : t('filters.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,24 @@
+import React from 'react';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks every case-insensitive occurrence of the terms
+const HighlightText = ({ text, terms }: { text: string, terms: string[] }) => {
+  const needles = terms.filter(Boolean);
+  if (needles.length === 0 || !text) return <>{text}</>;
+
+  // Longest first, so "exact phrase" wins over "exact"
+  const pattern = new RegExp(`(${needles.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-amber-100 text-inherit rounded px-0.5">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightText;
@@ -0,0 +1,226 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, Sparkles, TrendingUp, TrendingDown, AlertTriangle, Users, RefreshCcw } from 'lucide-react';
+import { LogEntry, CellValue, ColumnDefinition, CategoryBreakdown } from '../types';
+import { buildInsights, getDayOverDayChange } from '../services/insights';
+import { SummaryProvider } from '../services/summaryProviders';
+import { formatCurrency, formatDisplayDate, cellText } from '../utils';
+import { t, useLocale } from '../services/i18n';
+
+// Number of most recent days drawn in the trend bars
+const TREND_DAYS = 14;
+
+const Section = ({ title, icon, children }: { title: string, icon?: React.ReactNode, children: React.ReactNode }) => (
+  <div className="border-b border-slate-100 last:border-0 pb-5 last:pb-0">
+    <h4 className="flex items-center gap-2 text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
+      {icon}
+      {title}
+    </h4>
+    {children}
+  </div>
+);
+
+const TallyList = ({ breakdown, showAmount }: { breakdown: CategoryBreakdown, showAmount: boolean }) => {
+  const locale = useLocale();
+  const max = Math.max(...breakdown.items.map(i => showAmount ? i.amount : i.count), 1);
+  return (
+    <ul className="space-y-2">
+      {breakdown.items.map(item => (
+        <li key={item.value}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-slate-700 font-medium truncate pr-2">{item.value}</span>
+            <span className="text-slate-500 whitespace-nowrap">
+              {t(item.count === 1 ? 'common.entry' : 'common.entries', { count: item.count })}
+              {showAmount && <> · {formatCurrency(item.amount, locale)}</>}
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 rounded-full"
+              style={{ width: `${((showAmount ? item.amount : item.count) / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const InsightsPanel = ({
+  open,
+  onClose,
+  title,
+  data,
+  columns,
+  provider
+}: {
+  open: boolean,
+  onClose: () => void,
+  title: string,
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  provider: SummaryProvider | null
+}) => {
+  const locale = useLocale();
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [summarizing, setSummarizing] = useState(false);
+
+  const report = useMemo(() => open ? buildInsights(data, columns) : null, [open, data, columns]);
+
+  // A written summary only describes the data it was made from
+  useEffect(() => {
+    setSummary(null);
+    setSummaryError(null);
+  }, [report]);
+
+  if (!open || !report) return null;
+
+  const showAmount = !!report.amountColumn;
+  const change = getDayOverDayChange(report);
+  const trendPoints = report.trend ? report.trend.points.slice(-TREND_DAYS) : [];
+  const trendMetric = showAmount ? 'amount' : 'count';
+  const trendMax = Math.max(...trendPoints.map(p => p[trendMetric]), 1);
+
+  const handleSummarize = async () => {
+    if (!provider) return;
+    setSummarizing(true);
+    setSummaryError(null);
+    try {
+      setSummary(await provider.summarize(report, { title, locale }));
+    } catch (error) {
+      console.error("Summary provider failed", error);
+      setSummaryError(t('insights.summaryFailed'));
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto flex flex-col animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-6 border-b border-slate-100 sticky top-0 bg-white z-10">
+          <div className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-indigo-600" />
+            <h3 className="text-xl font-bold text-slate-800">{t('insights.title')}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="h-5 w-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {report.entryCount === 0 ? (
+            <p className="text-slate-400 italic">{t('insights.noMatch')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-slate-50 rounded-xl p-4">
+                  <p className="text-xs font-medium text-slate-500 mb-1">{t('insights.entries')}</p>
+                  <p className="text-2xl font-bold text-slate-800">{report.entryCount}</p>
+                </div>
+                <div className="bg-slate-50 rounded-xl p-4">
+                  <p className="text-xs font-medium text-slate-500 mb-1">{showAmount ? t('insights.total', { column: report.amountColumn }) : t('insights.totalAmount')}</p>
+                  <p className="text-2xl font-bold text-slate-800">{showAmount ? formatCurrency(report.totalAmount, locale) : '—'}</p>
+                </div>
+              </div>
+
+              {provider && (
+                <Section title={t('insights.summary', { provider: provider.label })} icon={<Sparkles className="h-3.5 w-3.5" />}>
+                  {summary ? (
+                    <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">{summary}</p>
+                  ) : (
+                    <button
+                      onClick={handleSummarize}
+                      disabled={summarizing}
+                      className="bg-indigo-50 hover:bg-indigo-100 text-indigo-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-60"
+                    >
+                      {summarizing ? <RefreshCcw className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                      {summarizing ? t('insights.summarizing') : t('insights.summarize')}
+                    </button>
+                  )}
+                  {summaryError && <p className="text-sm text-red-500 mt-2">{summaryError}</p>}
+                </Section>
+              )}
+
+              {report.trend && trendPoints.length > 0 && (
+                <Section
+                  title={t('insights.trend', { column: report.trend.column })}
+                  icon={change && change.change !== null && change.change < 0
+                    ? <TrendingDown className="h-3.5 w-3.5" />
+                    : <TrendingUp className="h-3.5 w-3.5" />}
+                >
+                  {change && (
+                    <p className="text-sm text-slate-600 mb-3">
+                      {formatDisplayDate(change.latest.date, locale)}:{' '}
+                      <span className="font-semibold text-slate-800">
+                        {showAmount ? formatCurrency(change.latest.amount, locale) : t('common.entries', { count: change.latest.count })}
+                      </span>
+                      {change.change !== null && (
+                        <span className={`ml-2 font-medium ${change.change >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                          {t('insights.versus', { change: `${change.change >= 0 ? '+' : ''}${change.change.toFixed(0)}`, date: formatDisplayDate(change.previous.date, locale) })}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  <div className="flex items-end gap-1 h-24">
+                    {trendPoints.map(point => (
+                      <div
+                        key={point.date}
+                        className="flex-1 bg-indigo-200 hover:bg-indigo-400 rounded-t transition-colors"
+                        style={{ height: `${Math.max(4, (point[trendMetric] / trendMax) * 100)}%` }}
+                        title={`${formatDisplayDate(point.date, locale)}: ${t('common.entries', { count: point.count })}${showAmount ? `, ${formatCurrency(point.amount, locale)}` : ''}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-slate-400 mt-1">
+                    <span>{formatDisplayDate(trendPoints[0].date, locale)}</span>
+                    <span>{formatDisplayDate(trendPoints[trendPoints.length - 1].date, locale)}</span>
+                  </div>
+                </Section>
+              )}
+
+              {report.topContributors && report.topContributors.items.length > 0 && (
+                <Section title={t('insights.top', { column: report.topContributors.column })} icon={<Users className="h-3.5 w-3.5" />}>
+                  <TallyList breakdown={report.topContributors} showAmount={showAmount} />
+                </Section>
+              )}
+
+              {report.breakdowns.map(breakdown => (
+                <React.Fragment key={breakdown.column}>
+                  <Section title={t('insights.by', { column: breakdown.column })}>
+                    <TallyList breakdown={breakdown} showAmount={showAmount} />
+                  </Section>
+                </React.Fragment>
+              ))}
+
+              <Section title={t('insights.outliers')} icon={<AlertTriangle className="h-3.5 w-3.5" />}>
+                {report.outliers.length === 0 ? (
+                  <p className="text-sm text-slate-400 italic">{t('insights.noOutliers')}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {report.outliers.map((outlier, index) => (
+                      <li key={index} className="flex justify-between gap-3 text-sm bg-amber-50/60 rounded-lg px-3 py-2">
+                        <span className="text-slate-700">
+                          <span className="font-semibold">{outlier.column}</span> {t('insights.outlierValue', { value: outlier.value })}
+                          <span className="text-slate-400"> {t('insights.typical', { median: outlier.median })}</span>
+                        </span>
+                        <span className="text-slate-500 truncate">
+                          {Object.values(outlier.entry).map((value: CellValue) => cellText(value, locale)).filter(v => v.trim()).slice(0, 2).join(' · ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsightsPanel;
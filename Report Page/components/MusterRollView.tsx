@@ -0,0 +1,216 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, ClipboardList, FileDown, FileText } from 'lucide-react';
+import { LogEntry, ColumnDefinition, ExportDetails, MusterConfig, MusterPeriod, MusterWorker, ReportConfig } from '../types';
+import { buildMusterRoll, formatAttendance, formatPeriod, formatWeekday, getMusterColumns, getMusterTable, getPeriodRange, loadWageRates, saveWageRate, shiftPeriod } from '../services/musterRoll';
+import { getRowTimestamp } from '../services/rowIndex';
+import { exportCSV } from '../services/exporters';
+import { downloadMusterRollPDF, formatCurrency, fromInputValue, toInputValue } from '../utils';
+import { t, useLocale } from '../services/i18n';
+
+// Opens on the period of the newest entry, so an older sheet doesn't start on an empty week
+const getLatestDate = (data: LogEntry[], dateKey?: string) => {
+  let latest = NaN;
+  if (dateKey) {
+    data.forEach(row => {
+      const timestamp = getRowTimestamp(row, dateKey);
+      if (!isNaN(timestamp) && !(timestamp <= latest)) latest = timestamp;
+    });
+  }
+  return isNaN(latest) ? Date.now() : latest;
+};
+
+const formatDays = (value: number) => String(Math.round(value * 100) / 100);
+
+const MusterRollView = ({
+  report,
+  config,
+  data,
+  columns,
+  exportDetails
+}: {
+  report: ReportConfig,
+  config: MusterConfig,
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  exportDetails: ExportDetails
+}) => {
+  const locale = useLocale();
+  const musterColumns = useMemo(() => getMusterColumns(columns, config), [columns, config]);
+  const dateKey = musterColumns.date?.key;
+  const [period, setPeriod] = useState<MusterPeriod>('week');
+  const [anchor, setAnchor] = useState(() => getLatestDate(data, dateKey));
+  const [rates, setRates] = useState(() => loadWageRates(report));
+
+  // Only a different report moves the period; new entries arriving shouldn't
+  useEffect(() => {
+    setRates(loadWageRates(report));
+    setAnchor(getLatestDate(data, dateKey));
+  }, [report]);
+
+  const roll = useMemo(() => buildMusterRoll(data, columns, config, anchor, period, rates), [data, columns, config, anchor, period, rates]);
+  const periodLabel = formatPeriod(anchor, period, locale);
+  const { start } = getPeriodRange(anchor, period);
+
+  const commitRate = (worker: MusterWorker, text: string) => {
+    const rate = text.trim() === '' ? null : Number(text);
+    if (rate !== null && (isNaN(rate) || rate < 0)) return;
+    if (rate === (worker.rate ?? null)) return;
+    saveWageRate(report, worker.rateKey, rate);
+    setRates(loadWageRates(report));
+  };
+
+  const handleExport = (format: 'pdf' | 'csv') => {
+    const { columns: tableColumns, rows } = getMusterTable(roll);
+    const notes = exportDetails.filters && exportDetails.filters.length > 0 ? [`Filters: ${exportDetails.filters.join('; ')}`] : [];
+    if (format === 'pdf') downloadMusterRollPDF(report.title, formatPeriod(anchor, period, locale, 'en'), tableColumns, rows, notes, locale);
+    else exportCSV(`${report.title} Muster Roll ${toInputValue(start)}`, tableColumns, rows, locale);
+  };
+
+  const hasTrade = roll.workers.some(worker => worker.trade);
+  const cellClass = 'px-2 py-2 text-center';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">{t('muster.title')}</h2>
+          <p className="text-sm text-slate-500">
+            {roll.workers.length === 1 ? t('muster.workersOne') : t('muster.workers', { count: roll.workers.length })} · {t('muster.manDays', { count: formatDays(roll.totalDays) })}
+            {roll.unpriced > 0 && <span className="text-amber-600 font-medium"> · {t('muster.unpriced', { count: roll.unpriced })}</span>}
+            {roll.skipped > 0 && <span> · {roll.skipped === 1 ? t('muster.skippedOne') : t('muster.skipped', { count: roll.skipped })}</span>}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="inline-flex p-1 bg-slate-100 rounded-lg border border-slate-200">
+            {(['week', 'month'] as MusterPeriod[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setPeriod(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${period === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+              >
+                {option === 'week' ? t('muster.week') : t('muster.month')}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setAnchor(shiftPeriod(anchor, period, -1))} title={t('muster.previous')} className="p-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-600">
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <input
+              type="date"
+              value={toInputValue(anchor)}
+              onChange={(e) => {
+                const value = fromInputValue(e.target.value, false);
+                if (value !== null) setAnchor(value);
+              }}
+              className="bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-1.5"
+            />
+            <button onClick={() => setAnchor(shiftPeriod(anchor, period, 1))} title={t('muster.next')} className="p-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-600">
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => handleExport('pdf')}
+            disabled={roll.workers.length === 0}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <FileDown className="h-4 w-4" />
+            PDF
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={roll.workers.length === 0}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <FileText className="h-4 w-4" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {roll.workers.length === 0 ? (
+        <div className="p-12 text-center">
+          <ClipboardList className="h-8 w-8 text-slate-300 mx-auto mb-4" />
+          <p className="text-slate-500">{t('muster.empty', { period: periodLabel })}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 font-semibold sticky left-0 bg-slate-50">{t('muster.name')}</th>
+                {hasTrade && <th className="px-4 py-3 font-semibold">{t('muster.trade')}</th>}
+                {roll.days.map(day => {
+                  const d = new Date(day);
+                  return (
+                    <th key={day} className={`px-2 py-3 font-semibold text-center ${d.getDay() === 0 ? 'bg-slate-100' : ''}`}>
+                      <div>{d.getDate()}</div>
+                      <div className="text-[10px] font-normal text-slate-400 normal-case">{formatWeekday(day)}</div>
+                    </th>
+                  );
+                })}
+                <th className="px-4 py-3 font-semibold text-right">{t('muster.days')}</th>
+                <th className="px-4 py-3 font-semibold text-right">{t('muster.rate')}</th>
+                <th className="px-4 py-3 font-semibold text-right">{t('muster.amount')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roll.workers.map(worker => (
+                <tr key={`${worker.name}\u0000${worker.trade}`} className="border-b border-slate-100 bg-white hover:bg-indigo-50/50">
+                  <td className="px-4 py-2 font-medium text-slate-900 whitespace-nowrap sticky left-0 bg-inherit">{worker.name}</td>
+                  {hasTrade && <td className="px-4 py-2 whitespace-nowrap">{worker.trade || '—'}</td>}
+                  {worker.attendance.map((value, index) => (
+                    <td
+                      key={roll.days[index]}
+                      className={`${cellClass} font-semibold ${value >= 1 ? 'text-emerald-600' : value > 0 ? 'text-amber-600' : 'text-slate-300'} ${new Date(roll.days[index]).getDay() === 0 ? 'bg-slate-50' : ''}`}
+                    >
+                      {formatAttendance(value) || '·'}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-right font-medium text-slate-900">{formatDays(worker.daysWorked)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <input
+                      key={worker.rate ?? ''}
+                      type="number"
+                      min={0}
+                      defaultValue={worker.rate ?? ''}
+                      placeholder="—"
+                      onBlur={(e) => commitRate(worker, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      className="w-24 text-right bg-white border border-slate-200 text-slate-700 text-sm rounded-md focus:ring-indigo-500 focus:border-indigo-500 p-1"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right font-bold text-slate-900 whitespace-nowrap">
+                    {worker.payable === undefined ? '—' : formatCurrency(worker.payable, locale)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-slate-50 border-t border-slate-200 text-slate-800 font-semibold">
+              <tr>
+                <td className="px-4 py-3 sticky left-0 bg-slate-50">{t('muster.headcount')}</td>
+                {hasTrade && <td />}
+                {roll.headcount.map((count, index) => (
+                  <td key={roll.days[index]} className={cellClass}>{count > 0 ? formatDays(count) : ''}</td>
+                ))}
+                <td className="px-4 py-3 text-right">{formatDays(roll.totalDays)}</td>
+                <td />
+                <td className="px-4 py-3 text-right whitespace-nowrap">{formatCurrency(roll.totalPayable, locale)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-slate-400 px-6 py-3 border-t border-slate-100">
+        {musterColumns.headcount.length > 0
+          ? t('muster.headcountNote', { columns: musterColumns.headcount.map(col => col.label).join(', ') })
+          : t('muster.marksNote')} {t('muster.filtersNote')}
+      </p>
+    </div>
+  );
+};
+
+export default MusterRollView;
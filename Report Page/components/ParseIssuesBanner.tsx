@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, ChevronDown, X } from 'lucide-react';
+import { CSVRowIssue } from '../types';
+import { t } from '../services/i18n';
+
+const ParseIssuesBanner = ({ issues }: { issues: CSVRowIssue[] }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  // A fresh load brings a new set of issues, so show the banner again
+  useEffect(() => {
+    setExpanded(false);
+    setDismissed(false);
+  }, [issues]);
+
+  if (issues.length === 0 || dismissed) return null;
+
+  const skipped = issues.filter(issue => issue.action === 'skipped').length;
+  const repaired = issues.length - skipped;
+
+  const summary = [
+    skipped > 0 ? (skipped === 1 ? t('parseIssues.skippedOne') : t('parseIssues.skipped', { count: skipped })) : '',
+    repaired > 0 ? (repaired === 1 ? t('parseIssues.repairedOne') : t('parseIssues.repaired', { count: repaired })) : ''
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl mb-8 overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-3">
+        <div className="flex items-center gap-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+          <span className="font-medium">{summary}</span>
+          <span className="text-amber-300">—</span>
+          <button
+            onClick={() => setExpanded(e => !e)}
+            className="flex items-center gap-1 font-semibold text-amber-700 hover:text-amber-900 underline-offset-2 hover:underline"
+          >
+            {expanded ? t('parseIssues.hide') : t('parseIssues.show')}
+            <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+          </button>
+        </div>
+        <button onClick={() => setDismissed(true)} title={t('common.close')} className="p-1 hover:bg-amber-100 rounded-full transition-colors">
+          <X className="h-4 w-4 text-amber-600" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="border-t border-amber-200 bg-white max-h-72 overflow-y-auto">
+          <table className="w-full text-xs sm:text-sm text-left">
+            <thead className="text-xs text-slate-600 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-semibold">{t('parseIssues.line')}</th>
+                <th className="px-4 py-2 font-semibold">{t('parseIssues.status')}</th>
+                <th className="px-4 py-2 font-semibold">{t('parseIssues.reason')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {issues.map((issue, index) => (
+                <tr key={index} className="border-b border-slate-100 align-top">
+                  <td className="px-4 py-2 font-mono text-slate-700">{issue.line}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${issue.action === 'skipped' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}>
+                      {issue.action === 'skipped' ? t('parseIssues.actionSkipped') : t('parseIssues.actionRepaired')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-700">
+                    {issue.reason}
+                    {issue.raw && (
+                      <div className="mt-1 font-mono text-xs text-slate-400 truncate max-w-md" title={issue.raw}>
+                        {issue.raw}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParseIssuesBanner;
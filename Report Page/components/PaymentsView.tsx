@@ -0,0 +1,212 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { FileDown, Wallet, X } from 'lucide-react';
+import { LogEntry, ColumnDefinition, PartyBalance, PaymentConfig, PaymentEntry, ReportConfig } from '../types';
+import { AGEING_BUCKETS, buildPaymentLedger, getPaymentColumns, getPartyStatement } from '../services/paymentLedger';
+import { cellText, downloadPartyStatementPDF, formatCurrency, formatDisplayDate, fromInputValue, toInputValue } from '../utils';
+import { MessageKey, t, useLocale } from '../services/i18n';
+
+// Bucket colours from fresh to overdue
+const AGEING_COLORS = ['bg-emerald-400', 'bg-amber-400', 'bg-rose-500'];
+// On-screen names of AGEING_BUCKETS; the statement PDF keeps the English ones
+const AGEING_LABELS: MessageKey[] = ['payments.age30', 'payments.age60', 'payments.ageOver60'];
+
+const PaymentsView = ({
+  report,
+  config,
+  data,
+  columns
+}: {
+  report: ReportConfig,
+  config: PaymentConfig,
+  data: LogEntry[],
+  columns: ColumnDefinition[]
+}) => {
+  const locale = useLocale();
+  const [asOf, setAsOf] = useState(() => Date.now());
+  const [selectedParty, setSelectedParty] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedParty(null);
+  }, [report]);
+
+  const ledger = useMemo(() => buildPaymentLedger(data, columns, config, asOf), [data, columns, config, asOf]);
+  const selected: PartyBalance | undefined = ledger.parties.find((p: PartyBalance) => p.party === selectedParty);
+  const statement = useMemo(() => selected ? getPartyStatement(ledger, selected.party) : [], [ledger, selected]);
+
+  // Site, purpose and the like, for the statement's particulars
+  const particularColumns = useMemo(() => {
+    const cols = getPaymentColumns(columns, config);
+    const used = new Set([cols.party?.key, cols.amount?.key, cols.kind?.key]);
+    return columns.filter(col => !col.isDate && !col.isNumeric && !used.has(col.key));
+  }, [columns, config]);
+  const describe = (entry: PaymentEntry) =>
+    particularColumns.map(col => cellText(entry.row[col.key], locale).trim()).filter(Boolean).join(' · ');
+
+  const downloadStatement = (party: PartyBalance) => {
+    const entries = getPartyStatement(ledger, party.party);
+    downloadPartyStatementPDF(report.title, party, entries, entries.map(describe), ledger.asOf, AGEING_BUCKETS.map(b => b.label), locale);
+  };
+
+  if (ledger.parties.length === 0) {
+    return (
+      <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-slate-100">
+        <Wallet className="h-8 w-8 text-slate-300 mx-auto mb-4" />
+        <p className="text-slate-500">{t('payments.none')}</p>
+      </div>
+    );
+  }
+
+  const ageingTotal = ledger.ageing.reduce((sum: number, amount: number) => sum + amount, 0);
+  const summary = [
+    { label: t('payments.billed'), value: ledger.billed, tone: 'text-slate-900' },
+    { label: t('payments.paid'), value: ledger.paid, tone: 'text-emerald-700' },
+    { label: t('payments.outstanding'), value: ledger.outstanding, tone: ledger.outstanding > 0 ? 'text-rose-700' : 'text-slate-900' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {summary.map(item => (
+          <div key={item.label} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100">
+            <p className="text-sm text-slate-500">{item.label}</p>
+            <p className={`text-2xl font-bold ${item.tone}`}>{formatCurrency(item.value, locale)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+          <h2 className="text-lg font-bold text-slate-800">{t('payments.ageing')}</h2>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            {t('payments.asOf')}
+            <input
+              type="date"
+              value={toInputValue(asOf)}
+              onChange={(e) => setAsOf(fromInputValue(e.target.value, false) ?? Date.now())}
+              className="bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-1.5"
+            />
+          </label>
+        </div>
+        {ageingTotal > 0 ? (
+          <div className="flex h-3 rounded-full overflow-hidden bg-slate-100 mb-3">
+            {ledger.ageing.map((amount: number, index: number) => (
+              <div key={index} className={AGEING_COLORS[index]} style={{ width: `${(amount / ageingTotal) * 100}%` }} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400 italic mb-3">{t('payments.settled')}</p>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+          {AGEING_BUCKETS.map((bucket, index) => (
+            <div key={bucket.label} className="flex items-center gap-2">
+              <span className={`h-2.5 w-2.5 rounded-sm ${AGEING_COLORS[index]}`} />
+              <span className="text-slate-500">{t(AGEING_LABELS[index])}</span>
+              <span className="font-semibold text-slate-800 ml-auto sm:ml-0">{formatCurrency(ledger.ageing[index], locale)}</span>
+            </div>
+          ))}
+        </div>
+        {ledger.skipped > 0 && (
+          <p className="text-xs text-slate-400 mt-3">{ledger.skipped === 1 ? t('payments.skippedOne') : t('payments.skipped', { count: ledger.skipped })}</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800">{t('payments.byParty')}</h2>
+          <p className="text-sm text-slate-500">{ledger.parties.length === 1 ? t('payments.partiesOne') : t('payments.parties', { count: ledger.parties.length })}</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 sm:px-6 font-semibold">{t('payments.party')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('payments.billed')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('payments.paid')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('payments.outstanding')}</th>
+                {AGEING_BUCKETS.map((bucket, index) => (
+                  <th key={bucket.label} className="px-4 py-3 font-semibold text-right whitespace-nowrap">{t(AGEING_LABELS[index])}</th>
+                ))}
+                <th className="px-4 py-3 sm:px-6 font-semibold">{t('payments.lastPaid')}</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.parties.map((party: PartyBalance) => (
+                <tr
+                  key={party.party}
+                  onClick={() => setSelectedParty(party.party === selectedParty ? null : party.party)}
+                  className={`border-b border-slate-100 cursor-pointer transition-colors ${party.party === selectedParty ? 'bg-indigo-50/60' : 'bg-white hover:bg-indigo-50/50'}`}
+                >
+                  <td className="px-4 py-3 sm:px-6 font-medium text-slate-900 whitespace-nowrap">{party.party}</td>
+                  <td className="px-4 py-3 sm:px-6 text-right whitespace-nowrap">{formatCurrency(party.billed, locale)}</td>
+                  <td className="px-4 py-3 sm:px-6 text-right whitespace-nowrap text-emerald-700">{formatCurrency(party.paid, locale)}</td>
+                  <td className={`px-4 py-3 sm:px-6 text-right whitespace-nowrap font-bold ${party.outstanding > 0 ? 'text-rose-700' : 'text-slate-900'}`}>
+                    {party.outstanding < 0 ? t('payments.advance', { amount: formatCurrency(-party.outstanding, locale) }) : formatCurrency(party.outstanding, locale)}
+                  </td>
+                  {party.ageing.map((amount, index) => (
+                    <td key={index} className="px-4 py-3 text-right whitespace-nowrap">{amount > 0 ? formatCurrency(amount, locale) : '—'}</td>
+                  ))}
+                  <td className="px-4 py-3 sm:px-6 whitespace-nowrap">{isNaN(party.lastPayment) ? '—' : formatDisplayDate(party.lastPayment, locale)}</td>
+                  <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => downloadStatement(party)} title={t('payments.statementPdf')} className="p-1.5 hover:bg-slate-100 rounded-lg transition-colors">
+                      <FileDown className="h-4 w-4 text-slate-500" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-indigo-100">
+          <div className="flex justify-between items-start gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">{t('payments.statement', { party: selected.party })}</h2>
+              <p className="text-sm text-slate-500">{t('payments.asOfDate', { date: formatDisplayDate(ledger.asOf, locale) })}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => downloadStatement(selected)}
+                className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+              >
+                <FileDown className="h-4 w-4" />
+                {t('payments.statementPdf')}
+              </button>
+              <button onClick={() => setSelectedParty(null)} title={t('common.close')} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                <X className="h-4 w-4 text-slate-500" />
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">{t('payments.date')}</th>
+                  <th className="px-4 py-2 font-semibold">{t('payments.particulars')}</th>
+                  <th className="px-4 py-2 font-semibold text-right">{t('payments.billed')}</th>
+                  <th className="px-4 py-2 font-semibold text-right">{t('payments.paid')}</th>
+                  <th className="px-4 py-2 font-semibold text-right">{t('payments.balance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.map((entry: PaymentEntry, index: number) => (
+                  <tr key={index} className="border-t border-slate-100">
+                    <td className="px-4 py-2 whitespace-nowrap">{isNaN(entry.timestamp) ? '—' : formatDisplayDate(entry.timestamp, locale)}</td>
+                    <td className="px-4 py-2">{describe(entry)}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">{entry.kind === 'due' ? formatCurrency(entry.amount, locale) : ''}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap text-emerald-700">{entry.kind === 'paid' ? formatCurrency(entry.amount, locale) : ''}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap font-medium text-slate-900">{formatCurrency(entry.balance, locale)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentsView;
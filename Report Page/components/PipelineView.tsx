@@ -0,0 +1,321 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AlarmClock, CalendarClock, Eye, Kanban, StickyNote, Trash2, X } from 'lucide-react';
+import { LogEntry, ColumnDefinition, ConversionRow, PipelineCard, PipelineConfig, ReportConfig } from '../types';
+import { ConversionGrouping, buildPipeline, getConversion, getFollowUps, getFunnel, getPipelineColumns, loadPipelineState, updatePipelineEntry } from '../services/enquiryPipeline';
+import { cellText, formatDisplayDate, formatDisplayDateTime, toInputValue } from '../utils';
+import { t, getLanguage, useLocale } from '../services/i18n';
+import { CategoryBarChart } from './Charts';
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const stageHeaderClass = (won: boolean, lost: boolean) =>
+  won ? 'bg-emerald-50 text-emerald-800 border-emerald-200' : lost ? 'bg-rose-50 text-rose-800 border-rose-200' : 'bg-slate-50 text-slate-700 border-slate-200';
+
+const PipelineView = ({
+  report,
+  config,
+  data,
+  columns,
+  ids,
+  onOpenEntry
+}: {
+  report: ReportConfig,
+  config: PipelineConfig,
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  ids: Map<LogEntry, string>,          // Enquiry ids over all loaded rows, from identifyEnquiries
+  onOpenEntry: (entry: LogEntry) => void
+}) => {
+  const locale = useLocale();
+  const [state, setState] = useState(() => loadPipelineState(report));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<ConversionGrouping>('source');
+  const [noteText, setNoteText] = useState('');
+
+  useEffect(() => {
+    setState(loadPipelineState(report));
+    setSelectedId(null);
+  }, [report]);
+
+  const statusColumn = useMemo(() => getPipelineColumns(columns, config).status, [columns, config]);
+  const pipeline = useMemo(() => buildPipeline(data, columns, config, state, ids, locale), [data, columns, config, state, ids, locale]);
+  const { cards, stages, isWon, isLost } = pipeline;
+  const isClosed = (stage: string) => isWon(stage) || isLost(stage);
+
+  const followUps = useMemo(() => getFollowUps(cards, isClosed), [pipeline]);
+  const funnel = useMemo(() => getFunnel(cards, stages, isLost), [pipeline]);
+  const conversion = useMemo(() => getConversion(cards, grouping, isWon, isLost), [pipeline, grouping, getLanguage()]);
+  const wonCount = cards.filter((card: PipelineCard) => isWon(card.stage)).length;
+  const selected: PipelineCard | undefined = cards.find((card: PipelineCard) => card.id === selectedId);
+
+  const update = (card: PipelineCard, patch: Parameters<typeof updatePipelineEntry>[2]) => {
+    updatePipelineEntry(report, card.id, patch);
+    setState(loadPipelineState(report));
+  };
+
+  // Moving a card back to what the sheet says forgets the local stage, so later sheet edits show through
+  const moveCard = (card: PipelineCard, stage: string) => {
+    const sheetStatus = statusColumn ? cellText(card.row[statusColumn.key]).trim().toLowerCase() : '';
+    update(card, { stage: stage.toLowerCase() === sheetStatus ? undefined : stage });
+  };
+
+  const addNote = (card: PipelineCard) => {
+    const text = noteText.trim();
+    if (!text) return;
+    update(card, { notes: [...card.notes, { at: Date.now(), text }] });
+    setNoteText('');
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const card = cards.find((c: PipelineCard) => c.id === e.dataTransfer.getData('text/plain'));
+    if (card && card.stage !== stage) moveCard(card, stage);
+  };
+
+  const selectCard = (id: string) => {
+    setSelectedId(id === selectedId ? null : id);
+    setNoteText('');
+  };
+
+  const renderFollowUpList = (title: string, list: PipelineCard[], tone: string, Icon: typeof AlarmClock) => (
+    <div>
+      <h3 className={`text-sm font-semibold flex items-center gap-1.5 mb-2 ${tone}`}>
+        <Icon className="h-4 w-4" />
+        {title} ({list.length})
+      </h3>
+      {list.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{t('pipeline.nothing')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {list.map(card => (
+            <li key={card.id}>
+              <button onClick={() => selectCard(card.id)} className="w-full text-left flex justify-between gap-3 px-3 py-2 rounded-lg hover:bg-slate-50 text-sm">
+                <span className="font-medium text-slate-800 truncate">{card.title} <span className="font-normal text-slate-400">· {card.stage}</span></span>
+                <span className="text-slate-500 whitespace-nowrap">{formatDisplayDate(card.followUp, locale)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex flex-col md:flex-row justify-between gap-2 mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">{t('pipeline.followUps')}</h2>
+            <p className="text-sm text-slate-500">
+              {cards.length === 1 ? t('pipeline.enquiriesOne') : t('pipeline.enquiries', { count: cards.length })} · {t('pipeline.wonSummary', { count: wonCount, rate: formatPercent(cards.length > 0 ? wonCount / cards.length : 0) })}
+            </p>
+          </div>
+          <p className="text-xs text-slate-400 md:text-right md:max-w-xs">{t('pipeline.localOnly')}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderFollowUpList(t('pipeline.overdue'), followUps.overdue, 'text-rose-600', AlarmClock)}
+          {renderFollowUpList(t('pipeline.dueToday'), followUps.dueToday, 'text-amber-600', CalendarClock)}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="flex gap-4 min-w-max">
+          {stages.map(stage => {
+            const stageCards = cards.filter((card: PipelineCard) => card.stage === stage);
+            return (
+              <div
+                key={stage}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTarget(stage);
+                }}
+                onDragLeave={() => setDropTarget(current => current === stage ? null : current)}
+                onDrop={(e) => handleDrop(e, stage)}
+                className={`w-64 shrink-0 rounded-xl border bg-white shadow-sm transition-colors ${dropTarget === stage ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-100'}`}
+              >
+                <div className={`px-4 py-2.5 rounded-t-xl border-b text-sm font-semibold flex justify-between ${stageHeaderClass(isWon(stage), isLost(stage))}`}>
+                  <span>{stage}</span>
+                  <span className="font-normal">{stageCards.length}</span>
+                </div>
+                <div className="p-2 space-y-2 min-h-24 max-h-[28rem] overflow-y-auto">
+                  {stageCards.map(card => {
+                    const overdue = followUps.overdue.includes(card);
+                    return (
+                      <div
+                        key={card.id}
+                        draggable
+                        onDragStart={(e) => e.dataTransfer.setData('text/plain', card.id)}
+                        onClick={() => selectCard(card.id)}
+                        className={`p-3 rounded-lg border cursor-pointer text-sm transition-colors ${selectedId === card.id ? 'border-indigo-400 bg-indigo-50/60' : 'border-slate-200 bg-white hover:border-indigo-300'}`}
+                      >
+                        <div className="font-medium text-slate-900 truncate">{card.title}</div>
+                        {card.details.map((detail, index) => (
+                          <div key={index} className="text-xs text-slate-500 truncate">{detail}</div>
+                        ))}
+                        <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+                          {card.source && <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{card.source}</span>}
+                          {!isNaN(card.followUp) && (
+                            <span className={`px-1.5 py-0.5 rounded ${overdue ? 'bg-rose-100 text-rose-700' : 'bg-amber-50 text-amber-700'}`}>
+                              {formatDisplayDate(card.followUp, locale)}
+                            </span>
+                          )}
+                          {card.notes.length > 0 && (
+                            <span className="flex items-center gap-0.5 text-slate-400"><StickyNote className="h-3 w-3" />{card.notes.length}</span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-indigo-100">
+          <div className="flex justify-between items-start gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">{selected.title}</h2>
+              <p className="text-sm text-slate-500">
+                {isNaN(selected.received) ? t('pipeline.dateUnknown') : t('pipeline.received', { date: formatDisplayDateTime(selected.received, locale) })}
+                {selected.stageIsLocal && statusColumn && <span> · {t('pipeline.sheetSays', { status: cellText(selected.row[statusColumn.key], locale) || t('pipeline.noStatus') })}</span>}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <button onClick={() => onOpenEntry(selected.row)} title={t('pipeline.showEntry')} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                <Eye className="h-4 w-4 text-slate-500" />
+              </button>
+              <button onClick={() => setSelectedId(null)} title={t('common.close')} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                <X className="h-4 w-4 text-slate-500" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <label className="text-sm text-slate-600">
+              <span className="block mb-1 font-medium">{t('pipeline.stage')}</span>
+              <select
+                value={selected.stage}
+                onChange={(e) => moveCard(selected, e.target.value)}
+                className="w-full bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2"
+              >
+                {stages.map(stage => <option key={stage} value={stage}>{stage}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              <span className="block mb-1 font-medium">{t('pipeline.followUpOn')}</span>
+              <input
+                type="date"
+                value={isNaN(selected.followUp) ? '' : toInputValue(selected.followUp)}
+                onChange={(e) => update(selected, { followUp: e.target.value || undefined })}
+                className="w-full bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2"
+              />
+            </label>
+          </div>
+
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">{t('pipeline.notes')}</h3>
+          {selected.notes.length > 0 && (
+            <ul className="space-y-2 mb-3">
+              {selected.notes.map((note, index) => (
+                <li key={note.at} className="flex justify-between gap-3 bg-slate-50 rounded-lg px-3 py-2 text-sm">
+                  <div>
+                    <p className="text-slate-800 whitespace-pre-wrap">{note.text}</p>
+                    <p className="text-xs text-slate-400 mt-0.5">{formatDisplayDateTime(note.at, locale)}</p>
+                  </div>
+                  <button
+                    onClick={() => update(selected, { notes: selected.notes.filter((_, i) => i !== index) })}
+                    title={t('pipeline.deleteNote')}
+                    className="p-1 h-fit hover:bg-slate-200 rounded transition-colors"
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-slate-400" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <textarea
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) addNote(selected);
+              }}
+              rows={2}
+              placeholder={t('pipeline.notePlaceholder')}
+              className="flex-1 bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2"
+            />
+            <button
+              onClick={() => addNote(selected)}
+              disabled={!noteText.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {t('pipeline.addNote')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 mb-4">{t('pipeline.funnel')}</h2>
+          <CategoryBarChart
+            items={funnel}
+            metric="count"
+            formatValue={(value) => `${value} (${formatPercent(cards.length > 0 ? value / cards.length : 0)})`}
+          />
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <div className="flex justify-between items-center gap-3 mb-4">
+            <h2 className="text-lg font-bold text-slate-800">{t('pipeline.conversion')}</h2>
+            <div className="inline-flex p-1 bg-slate-100 rounded-lg border border-slate-200">
+              {(['source', 'month'] as ConversionGrouping[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setGrouping(option)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${grouping === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                >
+                  {option === 'source' ? t('pipeline.bySource') : t('pipeline.byMonth')}
+                </button>
+              ))}
+            </div>
+          </div>
+          <table className="w-full text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 font-semibold">{grouping === 'source' ? t('pipeline.source') : t('pipeline.month')}</th>
+                <th className="px-3 py-2 font-semibold text-right">{t('pipeline.enquiriesColumn')}</th>
+                <th className="px-3 py-2 font-semibold text-right">{t('pipeline.won')}</th>
+                <th className="px-3 py-2 font-semibold text-right">{t('pipeline.lost')}</th>
+                <th className="px-3 py-2 font-semibold text-right">{t('pipeline.conversion')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conversion.map((row: ConversionRow) => (
+                <tr key={row.group} className="border-t border-slate-100">
+                  <td className="px-3 py-2 font-medium text-slate-800">{row.group}</td>
+                  <td className="px-3 py-2 text-right">{row.total}</td>
+                  <td className="px-3 py-2 text-right text-emerald-700">{row.won}</td>
+                  <td className="px-3 py-2 text-right text-rose-700">{row.lost}</td>
+                  <td className="px-3 py-2 text-right font-semibold text-slate-900">{formatPercent(row.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {cards.length === 0 && (
+            <div className="text-center py-8">
+              <Kanban className="h-8 w-8 text-slate-300 mx-auto mb-2" />
+              <p className="text-sm text-slate-400">{t('pipeline.noMatches')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineView;
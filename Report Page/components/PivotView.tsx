@@ -0,0 +1,266 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArrowUpDown, ChevronDown, Plus, X } from 'lucide-react';
+import { LogEntry, ColumnDefinition, PivotConfig, PivotAggregation, DateBucket, ExportDetails } from '../types';
+import { buildPivot, isAdditivePivotColumn, AGGREGATION_LABELS, BUCKET_LABELS } from '../services/pivot';
+import { exportCSV, exportJSON, exportXLSX } from '../services/exporters';
+import { downloadPDF, formatCurrency, isSummableColumn } from '../utils';
+import { t, getLanguage, useLocale } from '../services/i18n';
+import ExportMenu, { ExportFormat } from './ExportMenu';
+
+const selectClass = "appearance-none bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2 pr-8";
+
+const Select = ({ value, onChange, children }: { value: string, onChange: (value: string) => void, children: React.ReactNode }) => (
+  <div className="relative">
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+      {children}
+    </select>
+    <ChevronDown className="absolute right-2.5 top-2.5 h-4 w-4 text-slate-400 pointer-events-none" />
+  </div>
+);
+
+type SortState = { key: string, direction: 'asc' | 'desc' } | null;
+
+const sortPivotRows = (rows: LogEntry[], sortConfig: SortState) => {
+  if (!sortConfig) return rows;
+  const dir = sortConfig.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const valA = a[sortConfig.key];
+    const valB = b[sortConfig.key];
+    if (typeof valA === 'number' && typeof valB === 'number') return (valA - valB) * dir;
+    return String(valA).localeCompare(String(valB), undefined, { numeric: true }) * dir;
+  });
+};
+
+const defaultConfig = (columns: ColumnDefinition[]): PivotConfig => {
+  const firstCategory = columns.find(col => !col.isNumeric && !col.isDate);
+  const firstNumeric = columns.find(isSummableColumn);
+  return {
+    rows: firstCategory ? [{ key: firstCategory.key }] : [],
+    column: null,
+    measures: [
+      { aggregation: 'count' },
+      ...(firstNumeric ? [{ aggregation: 'sum' as const, column: firstNumeric.key }] : [])
+    ]
+  };
+};
+
+const PivotView = ({
+  data,
+  columns,
+  title,
+  exportDetails
+}: {
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  title: string,
+  exportDetails: ExportDetails
+}) => {
+  const locale = useLocale();
+  const [config, setConfig] = useState<PivotConfig>(() => defaultConfig(columns));
+  const [sortConfig, setSortConfig] = useState<SortState>(null);
+
+  // A different report brings different columns
+  useEffect(() => {
+    setConfig(defaultConfig(columns));
+    setSortConfig(null);
+  }, [columns]);
+
+  const numericColumns = columns.filter(col => col.isNumeric);
+  const dimensionColumns = columns.filter(col => !col.isNumeric || col.isDate);
+  const isDateKey = (key: string) => !!columns.find(col => col.key === key)?.isDate;
+
+  const pivot = useMemo(() => buildPivot(data, columns, config, locale), [data, columns, config, locale, getLanguage()]);
+
+  const sortedRows = useMemo(() => sortPivotRows(pivot.rows, sortConfig), [pivot.rows, sortConfig]);
+
+  const handleSort = (key: string) => {
+    setSortConfig(prev => ({ key, direction: prev?.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  const toggleRowDimension = (key: string) => {
+    setConfig(prev => prev.rows.some(d => d.key === key)
+      ? { ...prev, rows: prev.rows.filter(d => d.key !== key) }
+      : { ...prev, rows: [...prev.rows, { key, bucket: isDateKey(key) ? 'day' : undefined }] });
+  };
+
+  const updateMeasure = (index: number, aggregation: PivotAggregation, column?: string) => {
+    setConfig(prev => ({
+      ...prev,
+      measures: prev.measures.map((m, i) => i === index
+        ? { aggregation, column: aggregation === 'count' ? undefined : (column || numericColumns[0]?.key) }
+        : m)
+    }));
+  };
+
+  // Exports are rebuilt with English headings; both builds lay out their columns alike,
+  // so the sort column is found by position
+  const handleExport = (format: ExportFormat) => {
+    const exportTitle = `${title} Pivot`;
+    const english = buildPivot(data, columns, config, locale, 'en');
+    const sortIndex = pivot.columns.findIndex(col => col.key === sortConfig?.key);
+    const rows = sortPivotRows(english.rows, sortConfig && sortIndex >= 0 ? { ...sortConfig, key: english.columns[sortIndex].key } : null);
+    try {
+      if (format === 'pdf') downloadPDF(exportTitle, english.columns, rows, exportDetails, col => isAdditivePivotColumn(col, config));
+      else if (format === 'csv') exportCSV(exportTitle, english.columns, rows, locale);
+      else if (format === 'xlsx') exportXLSX(exportTitle, english.columns, rows, exportDetails);
+      else exportJSON(exportTitle, english.columns, rows, exportDetails);
+    } catch (error) {
+      console.error("Export failed", error);
+      alert(t('table.exportFailed'));
+    }
+  };
+
+  const formatCell = (col: ColumnDefinition, value: string | number) =>
+    col.isNumeric && typeof value === 'number' && /amount|price|cost|total/i.test(col.label.replace(/^Total · /, ''))
+      ? formatCurrency(value, locale)
+      : value;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">{t('pivot.title')}</h2>
+          <p className="text-sm text-slate-500">{t('pivot.groups', { groups: sortedRows.length, entries: data.length })}</p>
+        </div>
+        <ExportMenu onExport={handleExport} disabled={sortedRows.length === 0} />
+      </div>
+
+      <div className="p-4 bg-slate-50/50 border-b border-slate-100 space-y-4">
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('pivot.rows')}</p>
+          <div className="flex flex-wrap gap-2">
+            {dimensionColumns.map(col => {
+              const selected = config.rows.find(d => d.key === col.key);
+              return (
+                <div key={col.key} className="flex items-center gap-1">
+                  <button
+                    onClick={() => toggleRowDimension(col.key)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${selected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                  >
+                    {col.label}
+                  </button>
+                  {selected && col.isDate && (
+                    <Select
+                      value={selected.bucket || 'day'}
+                      onChange={(bucket) => setConfig(prev => ({
+                        ...prev,
+                        rows: prev.rows.map(d => d.key === col.key ? { ...d, bucket: bucket as DateBucket } : d)
+                      }))}
+                    >
+                      {(Object.keys(BUCKET_LABELS) as DateBucket[]).map(bucket => <option key={bucket} value={bucket}>{t(BUCKET_LABELS[bucket])}</option>)}
+                    </Select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div>
+            <p className="text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('pivot.columns')}</p>
+            <div className="flex gap-2">
+              <Select
+                value={config.column?.key || ''}
+                onChange={(key) => setConfig(prev => ({
+                  ...prev,
+                  column: key ? { key, bucket: isDateKey(key) ? 'month' : undefined } : null
+                }))}
+              >
+                <option value="">{t('pivot.none')}</option>
+                {dimensionColumns.map(col => <option key={col.key} value={col.key}>{col.label}</option>)}
+              </Select>
+              {config.column && isDateKey(config.column.key) && (
+                <Select
+                  value={config.column.bucket || 'month'}
+                  onChange={(bucket) => setConfig(prev => ({ ...prev, column: prev.column && { ...prev.column, bucket: bucket as DateBucket } }))}
+                >
+                  {(Object.keys(BUCKET_LABELS) as DateBucket[]).map(bucket => <option key={bucket} value={bucket}>{t(BUCKET_LABELS[bucket])}</option>)}
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1">
+            <p className="text-xs font-medium text-slate-500 mb-1.5 ml-1">{t('pivot.values')}</p>
+            <div className="flex flex-wrap gap-2">
+              {config.measures.map((measure, index) => (
+                <div key={index} className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg pl-1 pr-1.5 py-1">
+                  <Select value={measure.aggregation} onChange={(agg) => updateMeasure(index, agg as PivotAggregation, measure.column)}>
+                    {(Object.keys(AGGREGATION_LABELS) as PivotAggregation[])
+                      .filter(agg => agg === 'count' || numericColumns.length > 0)
+                      .map(agg => <option key={agg} value={agg}>{t(AGGREGATION_LABELS[agg])}</option>)}
+                  </Select>
+                  {measure.aggregation !== 'count' && (
+                    <Select value={measure.column || ''} onChange={(key) => updateMeasure(index, measure.aggregation, key)}>
+                      {numericColumns.map(col => <option key={col.key} value={col.key}>{col.label}</option>)}
+                    </Select>
+                  )}
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, measures: prev.measures.filter((_, i) => i !== index) }))}
+                    title={t('pivot.removeValue')}
+                    className="p-1 hover:bg-slate-100 rounded-full"
+                  >
+                    <X className="h-3.5 w-3.5 text-slate-400" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setConfig(prev => ({
+                  ...prev,
+                  measures: [...prev.measures, numericColumns[0] ? { aggregation: 'sum', column: numericColumns[0].key } : { aggregation: 'count' }]
+                }))}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg text-xs font-medium text-indigo-600 hover:bg-indigo-50 transition-colors"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                {t('pivot.addValue')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs sm:text-sm text-left text-slate-500 min-w-full">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              {pivot.columns.map(col => (
+                <th
+                  key={col.key}
+                  scope="col"
+                  className={`px-4 py-3 sm:px-6 sm:py-4 font-semibold whitespace-nowrap cursor-pointer hover:bg-slate-100 transition-colors group ${col.isNumeric ? 'text-right' : ''}`}
+                  onClick={() => handleSort(col.key)}
+                >
+                  <div className={`flex items-center gap-1 ${col.isNumeric ? 'justify-end' : ''}`}>
+                    {col.label}
+                    <ArrowUpDown className={`h-3 w-3 ${sortConfig?.key === col.key ? 'text-indigo-600' : 'text-slate-300 group-hover:text-slate-500'}`} />
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row, index) => (
+              <tr key={index} className="bg-white border-b border-slate-100 hover:bg-slate-50">
+                {pivot.columns.map(col => (
+                  <td key={col.key} className={`px-4 py-3 sm:px-6 sm:py-4 whitespace-nowrap ${col.isNumeric ? 'text-right tabular-nums text-slate-700' : 'font-medium text-slate-900'}`}>
+                    {formatCell(col, row[col.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {sortedRows.length === 0 && (
+              <tr>
+                <td colSpan={pivot.columns.length || 1} className="px-6 py-8 text-center text-slate-400">
+                  {t('pivot.noRecords')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PivotView;
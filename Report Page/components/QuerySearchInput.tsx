@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { ColumnDefinition } from '../types';
+import { getColumnToken, suggestColumns } from '../services/searchQuery';
+import { t } from '../services/i18n';
+
+// The search box with column-name autocomplete for the word being typed
+const QuerySearchInput = ({
+  value,
+  onChange,
+  columns
+}: {
+  value: string,
+  onChange: (value: string) => void,
+  columns: ColumnDefinition[]
+}) => {
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const lastWord = value.match(/(\S*)$/)![1];
+  const suggestions = focused ? suggestColumns(lastWord, columns) : [];
+
+  const accept = (col: ColumnDefinition) => {
+    const negation = lastWord.startsWith('-') ? '-' : '';
+    onChange(`${value.slice(0, value.length - lastWord.length)}${negation}${getColumnToken(col)}:`);
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(i => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full sm:w-80">
+      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+        <Search className="w-4 h-4 text-slate-400" />
+      </div>
+      <input
+        type="text"
+        className="block w-full p-2 pl-10 text-sm text-slate-900 border border-slate-300 rounded-lg bg-white focus:ring-indigo-500 focus:border-indigo-500 placeholder-slate-400"
+        placeholder={t('search.placeholder')}
+        title={t('search.help')}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setFocused(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white rounded-lg shadow-lg border border-slate-100 py-1 z-20">
+          {suggestions.map((col, index) => (
+            <li key={col.key}>
+              <button
+                // mousedown fires before the input blurs and hides the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(col);
+                }}
+                className={`w-full flex justify-between items-center gap-3 px-3 py-1.5 text-sm text-left ${index === highlighted ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'}`}
+              >
+                <span className="font-mono">{getColumnToken(col)}:</span>
+                <span className="text-xs text-slate-400 truncate">{col.label}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QuerySearchInput;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { ChevronDown, Hash, IndianRupee, CalendarDays, TrendingUp } from 'lucide-react';
+import { LogEntry, ColumnDefinition, FilterState, TrendPoint } from '../types';
+import { calculateTotalAmount, findAmountKey, formatCurrency, cellText } from '../utils';
+import { getSingleValue } from '../services/filters';
+import { tallyColumn, buildDailyTrend } from '../services/insights';
+import { t, useLocale } from '../services/i18n';
+import { TimeSeriesChart, CategoryBarChart } from './Charts';
+
+const TOP_CATEGORIES = 8;
+// Columns with more distinct values than this are free text, not categories
+const MAX_CATEGORY_VALUES = 50;
+
+const KpiCard = ({ label, value, icon }: { label: string, value: string, icon: React.ReactNode }) => (
+  <div className="bg-white p-4 sm:p-5 rounded-xl shadow-sm border border-slate-100 flex items-center gap-3">
+    <div className="bg-indigo-50 text-indigo-600 p-2.5 rounded-lg shrink-0">{icon}</div>
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-slate-500">{label}</p>
+      <p className="text-lg sm:text-xl font-bold text-slate-800 truncate">{value}</p>
+    </div>
+  </div>
+);
+
+const ReportDashboard = ({
+  data,
+  columns,
+  dateColumn,
+  filters,
+  onFilterChange,
+  onDaySelect
+}: {
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  dateColumn?: ColumnDefinition,
+  filters: FilterState,
+  onFilterChange: (key: string, value: string) => void,
+  onDaySelect: (day: number) => void
+}) => {
+  const locale = useLocale();
+  const amountKey = useMemo(() => findAmountKey(columns.map(col => col.key)), [columns]);
+  const metric = amountKey ? 'amount' : 'count';
+  const formatMetric = (value: number) => metric === 'amount' ? formatCurrency(value, locale) : t(value === 1 ? 'common.entry' : 'common.entries', { count: value });
+
+  const categoryColumns = useMemo(() => columns.filter(col => {
+    if (col.isDate || col.isNumeric || /e-?mail/i.test(col.key)) return false;
+    const unique = new Set(data.map(row => cellText(row[col.key])));
+    return unique.size > 1 && unique.size <= MAX_CATEGORY_VALUES;
+  }), [columns, data]);
+
+  const [categoryKey, setCategoryKey] = useState<string>('');
+
+  // Keep the chosen category if it still exists after a tab or filter change
+  useEffect(() => {
+    if (!categoryColumns.some(col => col.key === categoryKey)) {
+      setCategoryKey(categoryColumns[0]?.key || '');
+    }
+  }, [categoryColumns, categoryKey]);
+
+  const trend = useMemo(
+    () => dateColumn ? buildDailyTrend(data, dateColumn.key, amountKey) : [],
+    [data, dateColumn, amountKey]
+  );
+  const categories = useMemo(
+    () => categoryKey ? tallyColumn(data, categoryKey, amountKey).slice(0, TOP_CATEGORIES) : [],
+    [data, categoryKey, amountKey]
+  );
+
+  if (data.length === 0) return null;
+
+  const totalAmount = calculateTotalAmount(data);
+  const activeDays = trend.length;
+
+  return (
+    <div className="mb-8 space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label={t('dashboard.entries')} value={String(data.length)} icon={<Hash className="h-5 w-5" />} />
+        <KpiCard label={t('dashboard.totalAmount')} value={amountKey ? formatCurrency(totalAmount, locale) : '—'} icon={<IndianRupee className="h-5 w-5" />} />
+        <KpiCard label={t('dashboard.activeDays')} value={dateColumn ? String(activeDays) : '—'} icon={<CalendarDays className="h-5 w-5" />} />
+        <KpiCard
+          label={amountKey ? t('dashboard.averagePerDay') : t('dashboard.entriesPerDay')}
+          value={activeDays > 0 ? (amountKey ? formatCurrency(totalAmount / activeDays, locale) : (data.length / activeDays).toFixed(1)) : '—'}
+          icon={<TrendingUp className="h-5 w-5" />}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        {dateColumn && (
+          <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-100 lg:col-span-3">
+            <h3 className="text-sm font-semibold text-slate-800 mb-1">
+              {metric === 'amount' ? t('dashboard.amountPerDay') : t('dashboard.entriesPerDay')}
+            </h3>
+            <p className="text-xs text-slate-400 mb-3">{t('dashboard.trendHint', { column: dateColumn.label })}</p>
+            <TimeSeriesChart
+              points={trend}
+              metric={metric}
+              formatValue={formatMetric}
+              onPointClick={(point: TrendPoint) => onDaySelect(point.date)}
+            />
+          </div>
+        )}
+
+        {categoryColumns.length > 0 && (
+          <div className={`bg-white p-5 rounded-xl shadow-sm border border-slate-100 ${dateColumn ? 'lg:col-span-2' : 'lg:col-span-5'}`}>
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <h3 className="text-sm font-semibold text-slate-800">{t('dashboard.topCategories')}</h3>
+              <div className="relative">
+                <select
+                  value={categoryKey}
+                  onChange={(e) => setCategoryKey(e.target.value)}
+                  className="appearance-none bg-white border border-slate-200 text-slate-700 text-xs rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block py-1.5 pl-2.5 pr-7"
+                >
+                  {categoryColumns.map(col => (
+                    <option key={col.key} value={col.key}>{col.label}</option>
+                  ))}
+                </select>
+                <ChevronDown className="absolute right-2 top-2 h-3.5 w-3.5 text-slate-400 pointer-events-none" />
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mb-3">{t('dashboard.categoryHint')}</p>
+            <CategoryBarChart
+              items={categories}
+              metric={metric}
+              formatValue={formatMetric}
+              activeValue={getSingleValue(filters, categoryKey)}
+              onBarClick={(item) => onFilterChange(categoryKey, getSingleValue(filters, categoryKey) === item.value ? '' : item.value)}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportDashboard;
@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  LayoutDashboard,
+  Coffee,
+  Hammer,
+  MessageSquareText,
+  FileText,
+  ClipboardList,
+  Truck,
+  Users,
+  Wallet,
+  Receipt,
+  Package,
+  HardHat,
+  Building2,
+  Upload,
+  Database
+} from 'lucide-react';
+
+// Icons that reports.json may refer to by name
+export const REPORT_ICONS = {
+  LayoutDashboard,
+  Coffee,
+  Hammer,
+  MessageSquareText,
+  FileText,
+  ClipboardList,
+  Truck,
+  Users,
+  Wallet,
+  Receipt,
+  Package,
+  HardHat,
+  Building2,
+  Upload,
+  Database
+};
+
+const ReportIcon = ({ name, className }: { name: string, className?: string }) => {
+  const Icon = REPORT_ICONS[name as keyof typeof REPORT_ICONS] || FileText;
+  return <Icon className={className} />;
+};
+
+export default ReportIcon;
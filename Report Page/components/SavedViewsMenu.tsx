@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bookmark, ChevronDown, Star, Trash2, Plus, Download, Upload } from 'lucide-react';
+import { SavedView, SavedViewSet } from '../types';
+import { t } from '../services/i18n';
+
+const SavedViewsMenu = ({
+  views,
+  activeId,
+  onApply,
+  onSave,
+  onDelete,
+  onSetDefault,
+  onExport,
+  onImport
+}: {
+  views: SavedViewSet,
+  activeId?: string,                   // The saved view matching what's on screen
+  onApply: (view: SavedView) => void,
+  onSave: (name: string) => void,
+  onDelete: (id: string) => void,
+  onSetDefault: (id: string | undefined) => void,
+  onExport: () => void,
+  onImport: (file: File) => Promise<string>
+}) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) setMessage(null);
+  }, [open]);
+
+  const active: SavedView | undefined = views.views.find((view: SavedView) => view.id === activeId);
+  const willReplace = views.views.some((view: SavedView) => view.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name);
+    setMessage(t('views.saved', { name: name.trim() }));
+    setName('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setMessage(await onImport(file));
+    } catch (error) {
+      setMessage(t('views.importFailed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  return (
+    <div className="relative inline-block text-left" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+      >
+        <Bookmark className={`h-4 w-4 ${active ? 'text-indigo-600' : 'text-slate-400'}`} />
+        {active ? active.name : t('views.button')}
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute left-1/2 -translate-x-1/2 mt-2 w-72 bg-white rounded-xl shadow-lg border border-slate-100 py-1 z-20">
+          {views.views.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-400 italic">{t('views.empty')}</p>
+          ) : (
+            views.views.map((view: SavedView) => {
+              const isDefault = view.id === views.defaultId;
+              return (
+                <div key={view.id} className={`flex items-center gap-1 px-2 ${view.id === activeId ? 'bg-indigo-50/60' : ''}`}>
+                  <button
+                    onClick={() => {
+                      setOpen(false);
+                      onApply(view);
+                    }}
+                    className="flex-1 text-left px-2 py-2 text-sm text-slate-700 hover:text-indigo-700 truncate"
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    onClick={() => onSetDefault(isDefault ? undefined : view.id)}
+                    title={isDefault ? t('views.isDefault') : t('views.makeDefault')}
+                    className="p-1.5 hover:bg-slate-100 rounded-lg transition-colors"
+                  >
+                    <Star className={`h-4 w-4 ${isDefault ? 'text-amber-500 fill-amber-400' : 'text-slate-300'}`} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(view.id)}
+                    title={t('views.delete')}
+                    className="p-1.5 hover:bg-slate-100 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4 text-slate-400" />
+                  </button>
+                </div>
+              );
+            })
+          )}
+
+          <form onSubmit={handleSave} className="flex items-center gap-2 px-3 py-2 border-t border-slate-100">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('views.namePlaceholder')}
+              className="flex-1 min-w-0 bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-1.5"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              title={willReplace ? t('views.replace') : t('views.save')}
+              className="p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+          {willReplace && name.trim() && (
+            <p className="px-4 pb-2 text-xs text-amber-600">{t('views.replaceNote')}</p>
+          )}
+
+          <div className="flex border-t border-slate-100">
+            <button
+              onClick={onExport}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              <Download className="h-4 w-4 text-slate-500" />
+              {t('export.button')}
+            </button>
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              <Upload className="h-4 w-4 text-slate-500" />
+              {t('views.import')}
+            </button>
+            <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </div>
+          {message && <p className="px-4 pb-2 text-xs text-slate-500">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
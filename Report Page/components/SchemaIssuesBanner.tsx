@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, ChevronDown, X } from 'lucide-react';
+import { ColumnDefinition, SchemaValidation } from '../types';
+import { t, MessageKey } from '../services/i18n';
+
+const SchemaIssuesBanner = ({ validation, columns }: { validation: SchemaValidation, columns: ColumnDefinition[] }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  // A fresh load brings a new set of issues, so show the banner again
+  useEffect(() => {
+    setExpanded(false);
+    setDismissed(false);
+  }, [validation]);
+
+  const { tallies, missingColumns, invalidCells } = validation;
+  if ((invalidCells === 0 && missingColumns.length === 0) || dismissed) return null;
+
+  const labelOf = (key: string) => columns.find(col => col.key === key)?.label || key;
+  const invalidRows = validation.cellIssues.size;
+
+  const summary = [
+    invalidCells === 1 ? t('schema.invalidCellOne')
+      : invalidCells > 1 ? t(invalidRows === 1 ? 'schema.invalidCellsOneRow' : 'schema.invalidCells', { cells: invalidCells, rows: invalidRows })
+      : '',
+    missingColumns.length > 0
+      ? t(missingColumns.length === 1 ? 'schema.missingColumnOne' : 'schema.missingColumns', { columns: missingColumns.join(', ') })
+      : ''
+  ].filter(Boolean).join('; ');
+
+  return (
+    <div className="bg-rose-50 border border-rose-200 rounded-xl mb-8 overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-3">
+        <div className="flex items-center gap-2 text-sm text-rose-800">
+          <ShieldAlert className="h-4 w-4 shrink-0 text-rose-500" />
+          <span className="font-medium">{summary}</span>
+          {tallies.length > 0 && (
+            <>
+              <span className="text-rose-300">—</span>
+              <button
+                onClick={() => setExpanded(e => !e)}
+                className="flex items-center gap-1 font-semibold text-rose-700 hover:text-rose-900 underline-offset-2 hover:underline"
+              >
+                {expanded ? t('parseIssues.hide') : t('parseIssues.show')}
+                <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+              </button>
+            </>
+          )}
+        </div>
+        <button onClick={() => setDismissed(true)} title={t('common.close')} className="p-1 hover:bg-rose-100 rounded-full transition-colors">
+          <X className="h-4 w-4 text-rose-600" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="border-t border-rose-200 bg-white max-h-72 overflow-y-auto">
+          <table className="w-full text-xs sm:text-sm text-left">
+            <thead className="text-xs text-slate-600 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-semibold">{t('schema.column')}</th>
+                <th className="px-4 py-2 font-semibold">{t('schema.problem')}</th>
+                <th className="px-4 py-2 font-semibold text-right">{t('schema.cells')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tallies.map((tally, index) => (
+                <tr key={index} className="border-b border-slate-100 align-top">
+                  <td className="px-4 py-2 font-medium text-slate-700">{labelOf(tally.column)}</td>
+                  <td className="px-4 py-2 text-slate-700">
+                    {t(tally.reason as MessageKey, tally.values)}
+                    {tally.example && (
+                      <div className="mt-1 font-mono text-xs text-slate-400 truncate max-w-md" title={tally.example}>
+                        {t('schema.example', { example: tally.example })}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-700">{tally.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaIssuesBanner;
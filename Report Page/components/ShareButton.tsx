@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+import { Share2, Check } from 'lucide-react';
+import { ShareOutcome } from '../services/shareSummary';
+import { t } from '../services/i18n';
+
+// Posts a text summary of the rows on screen; the label briefly confirms where it went
+const ShareButton = ({ onShare, disabled }: { onShare: () => Promise<ShareOutcome>, disabled?: boolean }) => {
+  const [outcome, setOutcome] = useState<ShareOutcome | null>(null);
+
+  useEffect(() => {
+    if (!outcome) return;
+    const timer = setTimeout(() => setOutcome(null), 2000);
+    return () => clearTimeout(timer);
+  }, [outcome]);
+
+  const handleShare = async () => {
+    const result = await onShare();
+    setOutcome(result === 'cancelled' ? null : result);
+  };
+
+  return (
+    <button
+      onClick={handleShare}
+      disabled={disabled}
+      title={t('share.hint')}
+      className="bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors justify-center disabled:opacity-50"
+    >
+      {outcome ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+      {outcome === 'shared' ? t('share.shared') : outcome === 'whatsapp' ? t('share.whatsapp') : t('share.button')}
+    </button>
+  );
+};
+
+export default ShareButton;
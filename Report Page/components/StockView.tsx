@@ -0,0 +1,210 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AlertTriangle, ChevronDown, FileDown, Boxes } from 'lucide-react';
+import { LogEntry, ColumnDefinition, ReportConfig, StockConfig, StockPosition } from '../types';
+import { buildStockLedger, getMovements, getBalanceHistory, loadReorderLevels, saveReorderLevel } from '../services/stockLedger';
+import { downloadStockLedgerPDF, formatDisplayDate, formatQuantity } from '../utils';
+import { t, useLocale } from '../services/i18n';
+import { TimeSeriesChart } from './Charts';
+
+// Newest movements listed under the chart; the PDF has all of them
+const LISTED_MOVEMENTS = 100;
+
+// "material\u0000site"; an empty site means every site together
+const selectionKey = (material: string, site: string) => `${material}\u0000${site}`;
+
+const StockView = ({
+  report,
+  config,
+  data,
+  columns
+}: {
+  report: ReportConfig,
+  config: StockConfig,
+  data: LogEntry[],
+  columns: ColumnDefinition[]
+}) => {
+  const locale = useLocale();
+  const [levels, setLevels] = useState(() => loadReorderLevels(report));
+  const [selected, setSelected] = useState('');
+
+  useEffect(() => {
+    setLevels(loadReorderLevels(report));
+    setSelected('');
+  }, [report]);
+
+  const ledger = useMemo(() => buildStockLedger(data, columns, config, levels), [data, columns, config, levels]);
+  const lowCount = ledger.positions.filter(p => p.low).length;
+  const materials: string[] = Array.from(new Set(ledger.positions.map((p: StockPosition) => p.material)));
+
+  const [material, site] = (selected || selectionKey(ledger.positions[0]?.material || '', ledger.positions[0]?.site || '')).split('\u0000');
+  const movements = useMemo(() => getMovements(ledger, material, ledger.bySite && site ? site : undefined), [ledger, material, site]);
+  const history = useMemo(() => getBalanceHistory(movements), [movements]);
+  // Balances re-run over the selection, so "all sites" shows the combined figure
+  const listed = useMemo(() => {
+    let balance = 0;
+    return movements.map(movement => {
+      balance += movement.direction === 'inward' ? movement.quantity : -movement.quantity;
+      return { ...movement, balance };
+    });
+  }, [movements]);
+  const unit = movements.find(m => m.unit)?.unit || '';
+
+  const commitLevel = (position: StockPosition, text: string) => {
+    const level = text.trim() === '' ? null : Number(text);
+    if (level !== null && (isNaN(level) || level < 0)) return;
+    if (level === (position.reorderLevel ?? null)) return;
+    saveReorderLevel(report, position.material, level);
+    setLevels(loadReorderLevels(report));
+  };
+
+  if (ledger.positions.length === 0) {
+    return (
+      <div className="bg-white p-12 text-center rounded-xl shadow-sm border border-slate-100">
+        <Boxes className="h-8 w-8 text-slate-300 mx-auto mb-4" />
+        <p className="text-slate-500">{t('stock.none')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">{t('stock.current')}</h2>
+            <p className="text-sm text-slate-500">
+              {materials.length === 1 ? t('stock.materialsOne') : t('stock.materials', { count: materials.length })}
+              {lowCount > 0 && <span className="text-rose-600 font-medium"> · {t('stock.low', { count: lowCount })}</span>}
+              {ledger.skipped > 0 && <span> · {ledger.skipped === 1 ? t('stock.skippedOne') : t('stock.skipped', { count: ledger.skipped })}</span>}
+            </p>
+            <p className="text-xs text-slate-400 mt-1">{t('stock.allEntries')}</p>
+          </div>
+          <button
+            onClick={() => downloadStockLedgerPDF(report.title, ledger, locale)}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+          >
+            <FileDown className="h-4 w-4" />
+            {t('stock.ledgerPdf')}
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 sm:px-6 font-semibold">{t('stock.material')}</th>
+                {ledger.bySite && <th className="px-4 py-3 sm:px-6 font-semibold">{t('stock.site')}</th>}
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('stock.inward')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('stock.outward')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('stock.balance')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold text-right">{t('stock.reorderLevel')}</th>
+                <th className="px-4 py-3 sm:px-6 font-semibold">{t('stock.lastMovement')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.positions.map(position => {
+                const key = selectionKey(position.material, position.site);
+                const isSelected = key === selectionKey(material, site);
+                return (
+                  <tr
+                    key={key}
+                    onClick={() => setSelected(key)}
+                    className={`border-b border-slate-100 cursor-pointer transition-colors ${position.low ? 'bg-rose-50 hover:bg-rose-100/70' : isSelected ? 'bg-indigo-50/60' : 'bg-white hover:bg-indigo-50/50'}`}
+                  >
+                    <td className="px-4 py-3 sm:px-6 font-medium text-slate-900 whitespace-nowrap">
+                      <span className="inline-flex items-center gap-1.5">
+                        {position.low && <AlertTriangle className="h-3.5 w-3.5 text-rose-500" />}
+                        {position.material}
+                      </span>
+                    </td>
+                    {ledger.bySite && <td className="px-4 py-3 sm:px-6 whitespace-nowrap">{position.site || '—'}</td>}
+                    <td className="px-4 py-3 sm:px-6 text-right text-emerald-700">{formatQuantity(position.inward, '', locale)}</td>
+                    <td className="px-4 py-3 sm:px-6 text-right text-amber-700">{formatQuantity(position.outward, '', locale)}</td>
+                    <td className={`px-4 py-3 sm:px-6 text-right font-bold whitespace-nowrap ${position.low ? 'text-rose-700' : 'text-slate-900'}`}>
+                      {formatQuantity(position.balance, position.unit, locale)}
+                    </td>
+                    <td className="px-4 py-3 sm:px-6 text-right" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        key={position.reorderLevel ?? ''}
+                        type="number"
+                        min={0}
+                        defaultValue={position.reorderLevel ?? ''}
+                        placeholder="—"
+                        title={ledger.bySite ? t('stock.levelEverySite') : undefined}
+                        onBlur={(e) => commitLevel(position, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                        }}
+                        className="w-20 text-right bg-white border border-slate-200 text-slate-700 text-sm rounded-md focus:ring-indigo-500 focus:border-indigo-500 p-1"
+                      />
+                    </td>
+                    <td className="px-4 py-3 sm:px-6 whitespace-nowrap">
+                      {isNaN(position.lastMovement) ? '—' : formatDisplayDate(position.lastMovement, locale)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+          <h2 className="text-lg font-bold text-slate-800">{t('stock.history')}</h2>
+          <div className="relative">
+            <select
+              value={selectionKey(material, site)}
+              onChange={(e) => setSelected(e.target.value)}
+              className="appearance-none bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2 pr-8"
+            >
+              {materials.map(name => (
+                <React.Fragment key={name}>
+                  {ledger.bySite && <option value={selectionKey(name, '')}>{t('stock.allSites', { material: name })}</option>}
+                  {ledger.positions.filter(p => p.material === name).map(p => (
+                    <option key={p.site} value={selectionKey(name, p.site)}>
+                      {ledger.bySite ? `${name} · ${p.site || t('stock.noSite')}` : name}
+                    </option>
+                  ))}
+                </React.Fragment>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-2.5 top-2.5 h-4 w-4 text-slate-400 pointer-events-none" />
+          </div>
+        </div>
+
+        <TimeSeriesChart points={history} metric="amount" formatValue={(value) => formatQuantity(value, unit, locale)} color="#d97706" />
+
+        <div className="overflow-x-auto mt-6 max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+          <table className="w-full text-xs sm:text-sm text-left text-slate-500">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-semibold">{t('stock.date')}</th>
+                {ledger.bySite && !site && <th className="px-4 py-2 font-semibold">{t('stock.site')}</th>}
+                <th className="px-4 py-2 font-semibold text-right">{t('stock.inward')}</th>
+                <th className="px-4 py-2 font-semibold text-right">{t('stock.outward')}</th>
+                <th className="px-4 py-2 font-semibold text-right">{t('stock.balance')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.slice(-LISTED_MOVEMENTS).reverse().map((movement, index) => (
+                <tr key={index} className="border-t border-slate-100">
+                  <td className="px-4 py-2 whitespace-nowrap">{isNaN(movement.timestamp) ? '—' : formatDisplayDate(movement.timestamp, locale)}</td>
+                  {ledger.bySite && !site && <td className="px-4 py-2 whitespace-nowrap">{movement.site || '—'}</td>}
+                  <td className="px-4 py-2 text-right text-emerald-700">{movement.direction === 'inward' ? formatQuantity(movement.quantity, '', locale) : ''}</td>
+                  <td className="px-4 py-2 text-right text-amber-700">{movement.direction === 'outward' ? formatQuantity(movement.quantity, '', locale) : ''}</td>
+                  <td className="px-4 py-2 text-right font-medium text-slate-900">{formatQuantity(movement.balance, movement.unit, locale)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {movements.length > LISTED_MOVEMENTS && (
+          <p className="text-xs text-slate-400 mt-2">{t('stock.latest', { count: LISTED_MOVEMENTS, total: movements.length })}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockView;
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { CloudOff, RefreshCcw, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { SyncStatus } from '../types';
+import { t, formatRelativeTime } from '../services/i18n';
+
+const SyncStatusBadge = ({ status }: { status: SyncStatus }) => {
+  const [now, setNow] = useState(Date.now());
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+
+  // Keep the relative time fresh and follow the browser's connectivity
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30000);
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const synced = status.fetchedAt ? t('sync.lastSynced', { time: formatRelativeTime(status.fetchedAt, now) }) : t('sync.never');
+
+  if (!isOnline || status.state === 'offline') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 px-2.5 py-1 rounded-full">
+        <CloudOff className="h-3.5 w-3.5" />
+        {t('sync.offline', { synced })}
+      </span>
+    );
+  }
+
+  if (status.state === 'syncing') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs font-medium text-slate-500 bg-slate-50 border border-slate-200 px-2.5 py-1 rounded-full">
+        <RefreshCcw className="h-3.5 w-3.5 animate-spin" />
+        {status.fetchedAt ? t('sync.refreshing', { synced }) : t('sync.syncing')}
+      </span>
+    );
+  }
+
+  if (status.state === 'error') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs font-medium text-red-600 bg-red-50 border border-red-200 px-2.5 py-1 rounded-full">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        {t('sync.failed', { synced })}
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 px-2.5 py-1 rounded-full">
+      <CheckCircle2 className="h-3.5 w-3.5" />
+      {synced}
+    </span>
+  );
+};
+
+export default SyncStatusBadge;
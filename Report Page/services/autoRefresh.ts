@@ -0,0 +1,103 @@
+import { LogEntry, ReportChanges, ReportConfig, RowDiff } from '../types';
+import { cellText } from '../utils';
+import { readJSON, writeJSON } from './storage';
+
+// Intervals offered in the picker, in minutes
+export const REFRESH_INTERVALS = [1, 5, 15, 30, 60];
+
+const storageKey = (reportId: string) => `refresh:${reportId}`;
+
+// The user's chosen interval in minutes (0 = off), or the report's configured default
+export const getRefreshInterval = (report: ReportConfig): number => {
+  if (report.source.kind === 'file') return 0;
+  return readJSON<number | null>(storageKey(report.id), null) ?? report.refresh?.intervalMinutes ?? 0;
+};
+
+export const saveRefreshInterval = (reportId: string, minutes: number) =>
+  writeJSON(storageKey(reportId), minutes);
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// A key per row that stays the same across fetches. Rows sharing an identity are told apart by
+// how many times it has come up before, so duplicates don't collapse into one.
+export const identifyRows = (rows: LogEntry[], identity?: string[]): string[] => {
+  if (rows.length === 0) return [];
+  const headers = Object.keys(rows[0]);
+  const matched = (identity || [])
+    .map(name => headers.find(header => normalize(header) === normalize(name)))
+    .filter((key): key is string => !!key);
+  const keys = matched.length > 0 ? matched : headers;
+
+  const seen = new Map<string, number>();
+  return rows.map(row => {
+    const base = keys.map(key => cellText(row[key]).trim()).join('\u0000');
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}\u0000#${count}`;
+  });
+};
+
+const rowSignature = (row: LogEntry) => Object.values(row).map(value => cellText(value)).join('\u0000');
+
+export const diffRows = (previous: LogEntry[], next: LogEntry[], identity?: string[]): RowDiff => {
+  const previousIds = identifyRows(previous, identity);
+  const before = new Map(previousIds.map((id, index) => [id, rowSignature(previous[index])]));
+  const nextIds = identifyRows(next, identity);
+  const after = new Set(nextIds);
+
+  const diff: RowDiff = { added: [], modified: [], removed: [], addedRows: [] };
+  nextIds.forEach((id, index) => {
+    const signature = before.get(id);
+    if (signature === undefined) {
+      diff.added.push(id);
+      diff.addedRows.push(next[index]);
+    } else if (signature !== rowSignature(next[index])) {
+      diff.modified.push(id);
+    }
+  });
+  diff.removed = previousIds.filter(id => !after.has(id));
+  return diff;
+};
+
+export const hasChanges = (diff: RowDiff) =>
+  diff.added.length > 0 || diff.modified.length > 0 || diff.removed.length > 0;
+
+// Folds a fetch's diff into the changes still waiting to be seen. A new row stays "new" if it's edited again.
+export const mergeChanges = (changes: ReportChanges | undefined, diff: RowDiff): ReportChanges => {
+  const merged: ReportChanges = {
+    added: new Set(changes?.added),
+    modified: new Set(changes?.modified),
+    removed: (changes?.removed || 0) + diff.removed.length
+  };
+  diff.added.forEach(id => merged.added.add(id));
+  diff.modified.forEach(id => {
+    if (!merged.added.has(id)) merged.modified.add(id);
+  });
+  diff.removed.forEach(id => {
+    merged.added.delete(id);
+    merged.modified.delete(id);
+  });
+  return merged;
+};
+
+export const canNotify = () => typeof Notification !== 'undefined';
+
+// Must be called from a click; browsers ignore permission prompts that aren't user-initiated
+export const requestNotifications = async (): Promise<NotificationPermission> =>
+  canNotify() ? Notification.requestPermission() : 'denied';
+
+// e.g. "2 new entries in Site Enquiry Log", with the latest entry's first few values as the body
+export const notifyNewRows = (report: ReportConfig, rows: LogEntry[]) => {
+  if (!canNotify() || Notification.permission !== 'granted' || rows.length === 0) return;
+
+  const latest = rows[rows.length - 1];
+  const body = Object.values(latest).map(value => cellText(value).trim()).filter(Boolean).slice(0, 4).join(' · ');
+  const notification = new Notification(
+    `${rows.length} new ${rows.length === 1 ? 'entry' : 'entries'} in ${report.title}`,
+    { body, tag: `report:${report.id}` }
+  );
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
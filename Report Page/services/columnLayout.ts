@@ -0,0 +1,52 @@
+import { ColumnDefinition, ColumnLayout, ReportConfig } from '../types';
+import { readJSON, writeJSON, removeKey } from './storage';
+
+const storageKey = (reportId: string) => `columns:${reportId}`;
+
+export const loadColumnLayout = (reportId: string): ColumnLayout | null =>
+  readJSON<ColumnLayout | null>(storageKey(reportId), null);
+
+export const saveColumnLayout = (reportId: string, layout: ColumnLayout) =>
+  writeJSON(storageKey(reportId), layout);
+
+export const clearColumnLayout = (reportId: string) => removeKey(storageKey(reportId));
+
+// The user's saved arrangement, or the report's configured defaults
+export const resolveColumnLayout = (report: ReportConfig): ColumnLayout =>
+  loadColumnLayout(report.id) || report.columns || {};
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Orders, renames, pins and hides detected columns by name.
+// Columns the layout doesn't mention (e.g. newly added to the sheet) keep their sheet position at the end.
+export const arrangeColumns = (detected: ColumnDefinition[], layout: ColumnLayout): ColumnDefinition[] => {
+  const order = (layout.order || []).map(normalize);
+  const pinned = new Set((layout.pinned || []).map(normalize));
+  const labels = new Map(Object.entries(layout.labels || {}).map(([key, label]) => [normalize(key), label]));
+
+  const rank = (col: ColumnDefinition) => {
+    const index = order.indexOf(normalize(col.key));
+    return index === -1 ? order.length + detected.indexOf(col) : index;
+  };
+
+  return [...detected]
+    .sort((a, b) => rank(a) - rank(b))
+    .map(col => ({
+      ...col,
+      label: labels.get(normalize(col.key)) || col.label,
+      pinned: pinned.has(normalize(col.key))
+    }))
+    // Pinned columns lead, keeping their relative order
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+};
+
+export const getVisibleColumns = (arranged: ColumnDefinition[], layout: ColumnLayout): ColumnDefinition[] => {
+  const hidden = new Set((layout.hidden || []).map(normalize));
+  return arranged.filter(col => !hidden.has(normalize(col.key)));
+};
+
+// A report's detected (or declared) columns, as the user (or config) wants them shown
+export const getReportColumns = (report: ReportConfig, detected: ColumnDefinition[]): ColumnDefinition[] => {
+  const layout = resolveColumnLayout(report);
+  return getVisibleColumns(arrangeColumns(detected, layout), layout);
+};
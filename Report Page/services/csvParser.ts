@@ -0,0 +1,204 @@
+import { LogEntry, CSVParseResult, CSVRowIssue } from '../types';
+
+// Number of characters handed to the tokenizer before yielding back to the UI thread
+const CHUNK_SIZE = 64 * 1024;
+
+interface CSVRecord {
+  cells: string[];
+  line: number;
+  row: number; // Sheet row, which a quoted line break doesn't end
+  unterminated: boolean;
+}
+
+const yieldToMain = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Incremental RFC 4180 tokenizer.
+// Handles quoted fields containing commas, CR/LF line breaks and escaped quotes (""),
+// and keeps state between chunks so a record may span any number of pushes.
+const createTokenizer = () => {
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteClosed = false; // Just left a quoted section, waiting for a delimiter
+  let pendingQuote = false; // Saw a quote inside quotes, may be an escape ("")
+  let pendingCR = false;
+  let quotedCR = false; // Last quoted character was a CR, so a following LF is the same line break
+  let line = 1;
+  let recordLine = 1;
+  let row = 1;
+  let recordRow = 1;
+  let recordStarted = false;
+  let isFirstChunk = true;
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    quoteClosed = false;
+  };
+
+  const endRecord = (out: CSVRecord[], unterminated = false) => {
+    endField();
+    // A record made of a single empty cell is a blank line
+    if (!(cells.length === 1 && cells[0].trim() === '' && !unterminated)) {
+      out.push({ cells, line: recordLine, row: recordRow, unterminated });
+    }
+    cells = [];
+    recordStarted = false;
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    const out: CSVRecord[] = [];
+    let text = chunk;
+    if (isFirstChunk) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      if (text.length > 0) isFirstChunk = false;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A lone CR ends the line; CRLF counts once
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (!recordStarted) {
+        recordStarted = true;
+        recordLine = line;
+        recordRow = row;
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+        quoteClosed = true;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          if (char === '\r' || (char === '\n' && !quotedCR)) line++;
+          quotedCR = char === '\r';
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // Quotes only open a quoted field at its start; elsewhere they are literal
+        if (field.trim() === '' && !quoteClosed) {
+          field = '';
+          inQuotes = true;
+        } else {
+          field += char;
+        }
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        line++;
+        row++;
+        if (char === '\r') pendingCR = true;
+        endRecord(out);
+      } else if (!quoteClosed || char.trim() !== '') {
+        field += char;
+      }
+    }
+    return out;
+  };
+
+  const finish = (): CSVRecord[] => {
+    const out: CSVRecord[] = [];
+    if (pendingQuote) {
+      pendingQuote = false;
+      inQuotes = false;
+    }
+    if (recordStarted) {
+      endRecord(out, inQuotes);
+    }
+    inQuotes = false;
+    return out;
+  };
+
+  return { push, finish };
+};
+
+// Turns tokenized records into entries, validating each row against the header
+const createRowBuilder = () => {
+  let headers: string[] | null = null;
+  const rows: LogEntry[] = [];
+  const sourceRows: number[] = [];
+  const issues: CSVRowIssue[] = [];
+
+  const add = (records: CSVRecord[]) => {
+    for (const record of records) {
+      const cells = record.cells.map(cell => cell.trim());
+
+      if (!headers) {
+        headers = cells;
+        if (record.unterminated) {
+          issues.push({ line: record.line, action: 'repaired', reason: 'Header row has an unclosed quote' });
+        }
+        continue;
+      }
+
+      const reasons: string[] = [];
+      if (record.unterminated) {
+        reasons.push('Unclosed quote at end of file; cell closed automatically');
+      }
+
+      if (cells.length > headers.length) {
+        const extra = cells.slice(headers.length);
+        if (extra.some(cell => cell !== '')) {
+          issues.push({
+            line: record.line,
+            action: 'skipped',
+            reason: `Expected ${headers.length} cells but found ${cells.length}`,
+            raw: record.cells.join(',')
+          });
+          continue;
+        }
+        cells.length = headers.length;
+        reasons.push(`Dropped ${extra.length} trailing empty cell${extra.length > 1 ? 's' : ''}`);
+      } else if (cells.length < headers.length) {
+        const missing = headers.length - cells.length;
+        while (cells.length < headers.length) cells.push('');
+        reasons.push(`Missing ${missing} cell${missing > 1 ? 's' : ''}; filled with blanks`);
+      }
+
+      if (reasons.length > 0) {
+        issues.push({ line: record.line, action: 'repaired', reason: reasons.join('. '), raw: record.cells.join(',') });
+      }
+
+      const entry: LogEntry = {};
+      headers.forEach((header, index) => {
+        entry[header.trim()] = cells[index];
+      });
+      rows.push(entry);
+      sourceRows.push(record.row);
+    }
+  };
+
+  const result = (): CSVParseResult => ({ headers: headers || [], rows, issues, sourceRows });
+
+  return { add, result };
+};
+
+// Parses CSV text in chunks, yielding between them so large sheets don't block rendering
+export const parseCSVText = async (text: string): Promise<CSVParseResult> => {
+  const tokenizer = createTokenizer();
+  const builder = createRowBuilder();
+
+  for (let offset = 0; offset < text.length; offset += CHUNK_SIZE) {
+    builder.add(tokenizer.push(text.slice(offset, offset + CHUNK_SIZE)));
+    if (offset + CHUNK_SIZE < text.length) await yieldToMain();
+  }
+  builder.add(tokenizer.finish());
+
+  return builder.result();
+};
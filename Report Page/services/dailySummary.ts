@@ -0,0 +1,110 @@
+import { LogEntry, ColumnDefinition, LocaleConfig, ReportConfig, DailySummarySection, SummaryHighlight } from '../types';
+import { calculateTotalAmount, formatCurrency, getMainDateColumn, parseAmount, getDayRange, isWithinDateRange, cellText, resolveLocale } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+import { t, Language } from './i18n';
+
+export const findSiteColumn = (columns: ColumnDefinition[]) =>
+  columns.find(col => /\bsite\b|project/i.test(col.key));
+
+const findColumn = (columns: ColumnDefinition[], pattern: RegExp) =>
+  columns.find(col => pattern.test(col.key));
+
+const countDistinct = (rows: LogEntry[], key: string) =>
+  new Set(rows.map(row => cellText(row[key]).trim()).filter(Boolean)).size;
+
+// Headline numbers for each kind of report
+const buildHighlights = (report: ReportConfig, rows: LogEntry[], columns: ColumnDefinition[], lang?: Language): SummaryHighlight[] => {
+  const highlights: SummaryHighlight[] = [{ label: t('summary.entries', {}, lang), value: String(rows.length) }];
+  if (rows.length === 0) return highlights;
+
+  switch (report.type) {
+    case 'work': {
+      const person = findColumn(columns, /name|worker|labou?r/i);
+      if (person) highlights.push({ label: t('summary.people', {}, lang), value: String(countDistinct(rows, person.key)) });
+      break;
+    }
+    case 'material': {
+      const material = findColumn(columns, /material/i);
+      const quantity = columns.find(col => col.isNumeric && /qty|quantity|nos|count/i.test(col.key));
+      const unit = findColumn(columns, /\bunits?\b|uom/i);
+      if (material && quantity) {
+        const totals = new Map<string, { qty: number, unit: string }>();
+        rows.forEach(row => {
+          const name = cellText(row[material.key]).trim() || t('summary.unspecified', {}, lang);
+          const item = totals.get(name) || { qty: 0, unit: unit ? cellText(row[unit.key]).trim() : '' };
+          item.qty += parseAmount(row[quantity.key]) || 0;
+          totals.set(name, item);
+        });
+        totals.forEach((item, name) => highlights.push({ label: name, value: `${item.qty} ${item.unit}`.trim() }));
+      }
+      break;
+    }
+    case 'enquiry': {
+      const source = findColumn(columns, /source|channel|reference/i);
+      if (source) highlights.push({ label: t('summary.sources', {}, lang), value: String(countDistinct(rows, source.key)) });
+      break;
+    }
+    case 'payment': {
+      const party = findColumn(columns, /payee|party|vendor|supplier|contractor/i);
+      if (party) highlights.push({ label: t('summary.parties', {}, lang), value: String(countDistinct(rows, party.key)) });
+      break;
+    }
+  }
+
+  const total = calculateTotalAmount(rows);
+  if (total !== 0) highlights.push({ label: t('summary.amount', {}, lang), value: formatCurrency(total, report.locale) });
+
+  return highlights;
+};
+
+// The summary's own dates, like the day it covers, follow the reports' locale when they all share one
+export const getSharedLocale = (reports: ReportConfig[]): LocaleConfig | undefined => {
+  const [first, ...rest] = reports.map(report => JSON.stringify(resolveLocale(report.locale)));
+  return first !== undefined && rest.every(locale => locale === first) ? reports[0].locale : undefined;
+};
+
+// Picks a report's entries for one day (and optionally one site); pass a language for the PDF's labels
+export const buildDailySection = (
+  report: ReportConfig,
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  day: number,
+  site: string,
+  lang?: Language
+): DailySummarySection => {
+  const dateColumn = getMainDateColumn(columns);
+  const siteColumn = findSiteColumn(columns);
+  const range = getDayRange(day);
+
+  const rows = dateColumn
+    ? data.filter(row => {
+        if (!isWithinDateRange(getRowTimestamp(row, dateColumn.key), range)) return false;
+        if (site && siteColumn) return cellText(row[siteColumn.key]).trim() === site;
+        return true;
+      })
+    : [];
+
+  // The day is implied by the page, so drop the date columns from the tables
+  const tableColumns = columns.filter(col => !col.isDate);
+
+  return {
+    report,
+    columns: tableColumns,
+    rows,
+    highlights: buildHighlights(report, rows, columns, lang),
+    siteSpecific: !!siteColumn
+  };
+};
+
+export const collectSites = (datasets: { data: LogEntry[], columns: ColumnDefinition[] }[]): string[] => {
+  const sites = new Set<string>();
+  datasets.forEach(({ data, columns }) => {
+    const siteColumn = findSiteColumn(columns);
+    if (!siteColumn) return;
+    data.forEach(row => {
+      const value = cellText(row[siteColumn.key]).trim();
+      if (value) sites.add(value);
+    });
+  });
+  return Array.from(sites).sort();
+};
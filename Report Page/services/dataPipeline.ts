@@ -0,0 +1,19 @@
+import { LocaleConfig, LogEntry, PreparedData, ReportSchema } from '../types';
+import { parseDate } from '../utils';
+import { applySchema, identifyTypedColumns } from './schema';
+
+// Everything done to freshly loaded rows before they're shown.
+// Pure, so the worker and the main-thread fallback produce the same result.
+// Dates are read in the report's own locale, whichever report is on screen.
+export const prepareData = (rows: LogEntry[], schema?: ReportSchema, locale?: LocaleConfig): PreparedData => {
+  const dateFormat = locale?.dateFormat;
+  const typed = applySchema(rows, schema, dateFormat);
+  const columns = identifyTypedColumns(typed.rows, schema, dateFormat);
+
+  const timestamps: Record<string, number[]> = {};
+  columns.filter(col => col.isDate).forEach(col => {
+    timestamps[col.key] = typed.rows.map(row => parseDate(row[col.key], dateFormat));
+  });
+
+  return { rows: typed.rows, validation: typed.validation, columns, timestamps };
+};
@@ -0,0 +1,235 @@
+import { LogEntry, ColumnDefinition, LocaleConfig, QualityCheck, QualityIssue, ReportSchema } from '../types';
+import { cellText, parseAmount, getDayRange, formatNumber } from '../utils';
+import { downloadBlob, serializeCSV, toFileName } from './exporters';
+import { findColumnOutliers } from './insights';
+import { getRowTimestamp, getSourceRow } from './rowIndex';
+import { isWebLink } from './schema';
+import { Language, MessageKey, t } from './i18n';
+
+export const QUALITY_CHECKS: Record<QualityCheck, MessageKey> = {
+  duplicate: 'quality.duplicate',
+  nearDuplicate: 'quality.nearDuplicate',
+  empty: 'quality.empty',
+  badDate: 'quality.badDate',
+  futureDate: 'quality.futureDate',
+  notNumeric: 'quality.notNumeric',
+  outlier: 'quality.outlier',
+  spelling: 'quality.spelling'
+};
+
+const CHECK_ORDER = Object.keys(QUALITY_CHECKS) as QualityCheck[];
+
+// The form's own submission time differs between two sends of the same entry
+const SUBMITTED_AT_PATTERN = /time\s*stamp/i;
+// Blanks only count as mistakes in columns that are nearly always filled in
+const MOSTLY_FILLED = 0.8;
+// Columns with more distinct values than this are free text, not categories
+const MAX_CATEGORY_VALUES = 300;
+const MAX_CATEGORY_LENGTH = 40;
+const EXAMPLES = 3;
+// Row 1 of the sheet is the header; used for rows the parser didn't number (JSON sources)
+const FIRST_SHEET_ROW = 2;
+
+const isBlank = (text: string) => text === '' || text === '-';
+
+// Case, spacing and punctuation don't make two values different
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const quote = (values: string[]) => values.slice(0, EXAMPLES).map(value => `"${value}"`).join(', ');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// "Cemnt" and "Cement" are one value typed two ways; "Block 1" and "Block 2", or "Site A" and "Site B", are not
+const isSpellingVariant = (a: string, b: string) => {
+  if (a === b) return true;
+  if (a.replace(/\D/g, '') !== b.replace(/\D/g, '')) return false;
+  const wordsA = a.split(' ');
+  const wordsB = b.split(' ');
+  if (wordsA.length === wordsB.length) {
+    const differing = wordsA.filter((word, i) => word !== wordsB[i]);
+    if (differing.length === 1 && differing[0].length <= 2) return false;
+  }
+  const shorter = Math.min(a.length, b.length);
+  const allowed = shorter >= 10 ? 2 : shorter >= 5 ? 1 : 0;
+  return allowed > 0 && Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+};
+
+const findDuplicates = (rows: LogEntry[], columns: ColumnDefinition[]): QualityIssue[] => {
+  const compared = columns.filter(col => !SUBMITTED_AT_PATTERN.test(col.key));
+  const exact = new Map<string, number[]>();
+  const near = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const cells = columns.map(col => cellText(row[col.key]).trim());
+    if (cells.every(isBlank)) return;
+    const exactKey = JSON.stringify(cells);
+    const nearKey = JSON.stringify(compared.map(col => normalize(cellText(row[col.key]))));
+    exact.set(exactKey, [...(exact.get(exactKey) || []), index]);
+    near.set(nearKey, [...(near.get(nearKey) || []), index]);
+  });
+
+  const issues: QualityIssue[] = [];
+  exact.forEach(indexes => {
+    if (indexes.length > 1) issues.push({ check: 'duplicate', detail: 'quality.duplicateDetail', values: { count: indexes.length }, rows: indexes });
+  });
+  // Groups that are just one set of identical rows were reported above
+  near.forEach(indexes => {
+    if (indexes.length < 2) return;
+    const variants = new Set(indexes.map(i => JSON.stringify(columns.map(col => cellText(rows[i][col.key]).trim()))));
+    if (variants.size > 1) {
+      issues.push({ check: 'nearDuplicate', detail: 'quality.nearDuplicateDetail', values: { count: indexes.length }, rows: indexes });
+    }
+  });
+  return issues;
+};
+
+const findEmptyCells = (rows: LogEntry[], columns: ColumnDefinition[], schema?: ReportSchema): QualityIssue[] =>
+  columns.flatMap(col => {
+    const blank = rows.flatMap((row, index) => isBlank(cellText(row[col.key]).trim()) ? [index] : []);
+    const required = !!schema?.[col.key]?.required;
+    if (blank.length === 0 || blank.length === rows.length) return [];
+    if (!required && rows.length - blank.length < rows.length * MOSTLY_FILLED) return [];
+    const detail: MessageKey = required ? 'quality.emptyRequiredDetail' : 'quality.emptyDetail';
+    return [{ check: 'empty' as const, column: col.label, detail, values: { count: blank.length }, rows: blank }];
+  });
+
+const findDateProblems = (rows: LogEntry[], columns: ColumnDefinition[]): QualityIssue[] => {
+  const endOfToday = getDayRange(Date.now()).end!;
+  return columns.filter(col => col.isDate).flatMap(col => {
+    const unreadable: number[] = [];
+    const future: number[] = [];
+    rows.forEach((row, index) => {
+      if (isBlank(cellText(row[col.key]).trim())) return;
+      const timestamp = getRowTimestamp(row, col.key);
+      if (isNaN(timestamp)) unreadable.push(index);
+      else if (timestamp > endOfToday) future.push(index);
+    });
+    const examples = (indexes: number[]) => quote(indexes.map(i => cellText(rows[i][col.key]).trim()));
+    const issues: QualityIssue[] = [];
+    if (unreadable.length > 0) {
+      issues.push({ check: 'badDate', column: col.label, detail: 'quality.badDateDetail', values: { count: unreadable.length, examples: examples(unreadable) }, rows: unreadable });
+    }
+    if (future.length > 0) {
+      issues.push({ check: 'futureDate', column: col.label, detail: 'quality.futureDateDetail', values: { count: future.length, examples: examples(future) }, rows: future });
+    }
+    return issues;
+  });
+};
+
+const findNonNumeric = (rows: LogEntry[], columns: ColumnDefinition[]): QualityIssue[] =>
+  columns.filter(col => col.isNumeric).flatMap(col => {
+    const bad = rows.flatMap((row, index) => {
+      const text = cellText(row[col.key]).trim();
+      return !isBlank(text) && isNaN(parseAmount(row[col.key])) ? [index] : [];
+    });
+    if (bad.length === 0) return [];
+    const examples = Array.from(new Set(bad.map(i => cellText(rows[i][col.key]).trim())));
+    return [{ check: 'notNumeric' as const, column: col.label, detail: 'quality.notNumericDetail', values: { count: bad.length, examples: quote(examples) }, rows: bad }];
+  });
+
+const findOutlierValues = (rows: LogEntry[], columns: ColumnDefinition[], locale?: LocaleConfig): QualityIssue[] =>
+  columns.filter(col => col.isNumeric).flatMap(col => {
+    const found = findColumnOutliers(rows, col);
+    if (!found || found.items.length === 0) return [];
+    const largest = Math.max(...found.items.map(item => item.value));
+    return [{
+      check: 'outlier' as const,
+      column: col.label,
+      detail: 'quality.outlierDetail',
+      values: { count: found.items.length, median: formatNumber(found.median, locale), largest: formatNumber(largest, locale) },
+      rows: found.items.map(item => item.index)
+    }];
+  });
+
+// Values of a category column that are probably typos of a more common value
+const findSpellingVariants = (rows: LogEntry[], columns: ColumnDefinition[]): QualityIssue[] =>
+  columns
+    .filter(col => !col.isDate && !col.isNumeric && !SUBMITTED_AT_PATTERN.test(col.key) && !/e-?mail/i.test(col.key))
+    .flatMap(col => {
+      const counts = new Map<string, number>();
+      rows.forEach(row => {
+        const value = cellText(row[col.key]).trim();
+        if (!isBlank(value) && !isWebLink(value)) counts.set(value, (counts.get(value) || 0) + 1);
+      });
+      const tallies = Array.from(counts, ([value, count]) => ({ value, count }));
+      if (tallies.length < 2 || tallies.length > MAX_CATEGORY_VALUES) return [];
+      if (tallies.some(item => item.value.length > MAX_CATEGORY_LENGTH)) return [];
+
+      // Most common first, so each group is led by the spelling most people used
+      const sorted = [...tallies].sort((a, b) => b.count - a.count);
+      const normalized = sorted.map(item => normalize(item.value));
+      const grouped = new Set<number>();
+      const issues: QualityIssue[] = [];
+      sorted.forEach((leader, i) => {
+        if (grouped.has(i)) return;
+        const variants = sorted.filter((_, j) => j > i && !grouped.has(j) && isSpellingVariant(normalized[i], normalized[j]));
+        if (variants.length === 0) return;
+        variants.forEach(variant => grouped.add(sorted.indexOf(variant)));
+        const spellings = new Set(variants.map(variant => variant.value));
+        issues.push({
+          check: 'spelling',
+          column: col.label,
+          detail: 'quality.spellingDetail',
+          values: {
+            variants: variants.map(variant => `"${variant.value}" (${variant.count})`).join(', '),
+            leader: `"${leader.value}" (${leader.count})`
+          },
+          rows: rows.flatMap((row, index) => spellings.has(cellText(row[col.key]).trim()) ? [index] : [])
+        });
+      });
+      return issues;
+    });
+
+// Everything in the loaded rows worth fixing in the sheet, grouped by check and largest first
+export const auditData = (
+  rows: LogEntry[],
+  columns: ColumnDefinition[],
+  schema?: ReportSchema,
+  locale?: LocaleConfig
+): QualityIssue[] => {
+  if (rows.length === 0) return [];
+  const issues = [
+    ...findDuplicates(rows, columns),
+    ...findEmptyCells(rows, columns, schema),
+    ...findDateProblems(rows, columns),
+    ...findNonNumeric(rows, columns),
+    ...findOutlierValues(rows, columns, locale),
+    ...findSpellingVariants(rows, columns)
+  ];
+  return issues.sort((a, b) => (CHECK_ORDER.indexOf(a.check) - CHECK_ORDER.indexOf(b.check)) || (b.rows.length - a.rows.length));
+};
+
+// What an issue found, in the UI language unless one is given
+export const describeIssue = (issue: QualityIssue, lang?: Language) => t(issue.detail as MessageKey, issue.values, lang);
+
+// Sheet row numbers of an issue's rows, as the parser counted them, so blank lines and skipped rows don't shift them
+export const toSheetRows = (issue: QualityIssue, rows: LogEntry[]) =>
+  issue.rows.map(index => getSourceRow(rows[index]) ?? index + FIRST_SHEET_ROW);
+
+// One line per issue with the sheet rows to look at, for whoever keeps the sheet. In English, like the other exports
+export const exportQualityIssues = (title: string, issues: QualityIssue[], rows: LogEntry[]) => {
+  const columns: ColumnDefinition[] = [
+    { key: 'check', label: 'Check' },
+    { key: 'column', label: 'Column' },
+    { key: 'detail', label: 'Detail' },
+    { key: 'count', label: 'Rows affected' },
+    { key: 'rows', label: 'Sheet rows' }
+  ];
+  const lines = issues.map(issue => ({
+    check: t(QUALITY_CHECKS[issue.check], {}, 'en'),
+    column: issue.column || '',
+    detail: describeIssue(issue, 'en'),
+    count: issue.rows.length,
+    rows: toSheetRows(issue, rows).join(' ')
+  }));
+  downloadBlob(new Blob(['\uFEFF' + serializeCSV(columns, lines)], { type: 'text/csv;charset=utf-8' }), `${toFileName(title)}_Data_Quality.csv`);
+};
@@ -0,0 +1,133 @@
+import { CSVParseResult, CSVRowIssue, DataSourceConfig, LogEntry, ReportConfig } from '../types';
+import { parseCSVBuffer } from './dataWorkerClient';
+import { getSnapshot, saveSnapshot } from './snapshotCache';
+
+const EMPTY_RESULT: CSVParseResult = { headers: [], rows: [], issues: [] };
+
+// Raised when a source can't be read, so callers can tell a failure apart from an empty sheet
+export class DataSourceError extends Error {
+  offline: boolean;
+
+  constructor(message: string, offline = false) {
+    super(message);
+    this.name = 'DataSourceError';
+    this.offline = offline;
+  }
+}
+
+const fetchSource = async (url: string): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+    throw new DataSourceError(
+      offline ? 'You are offline. Connect to the internet to load this report.' : 'Could not reach the spreadsheet. Check your connection and try again.',
+      offline
+    );
+  }
+  if (!response.ok) {
+    throw new DataSourceError(`The data source responded with an error (HTTP ${response.status}).`);
+  }
+  return response;
+};
+
+// Accepts either a plain array of row objects or { rows: [...] }
+export const parseJSONText = (text: string): CSVParseResult => {
+  const parsed = JSON.parse(text);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.rows) ? parsed.rows : [];
+
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const rows: LogEntry[] = [];
+  const issues: CSVRowIssue[] = [];
+
+  items.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      issues.push({ line: index + 1, action: 'skipped', reason: `Item ${index + 1} is not an object`, raw: JSON.stringify(item) });
+      return;
+    }
+    const entry: LogEntry = {};
+    Object.entries(item).forEach(([key, value]) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+      entry[key] = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+    rows.push(entry);
+  });
+
+  // Give every row the full set of keys so columns line up like a sheet
+  rows.forEach(row => headers.forEach(key => {
+    if (!(key in row)) row[key] = '';
+  }));
+
+  return { headers, rows, issues };
+};
+
+const isJSONPath = (name: string) => /\.json$/i.test(name.split('?')[0]);
+
+// Reads a user-picked file, using the configured format or the file extension
+const loadFile = async (file: File, format?: 'csv' | 'json'): Promise<CSVParseResult> => {
+  if ((format || (isJSONPath(file.name) ? 'json' : 'csv')) === 'json') {
+    return parseJSONText(await file.text());
+  }
+  return parseCSVBuffer(await file.arrayBuffer());
+};
+
+const loadFixture = async (path: string): Promise<CSVParseResult> => {
+  const response = await fetchSource(path);
+  return isJSONPath(path) ? parseJSONText(await response.text()) : parseCSVBuffer(await response.arrayBuffer());
+};
+
+// Stable identity of a source, used to key cached snapshots
+export const getSourceKey = (source: DataSourceConfig): string => {
+  switch (source.kind) {
+    case 'sheet':
+      return `sheet:${source.url}`;
+    case 'fixture':
+      return `fixture:${source.path}`;
+    case 'file':
+      return 'file';
+  }
+};
+
+// Single entry point used by the app; each source kind is handled by its own adapter.
+// Throws DataSourceError when the source can't be read or parsed.
+export const loadReportData = async (source: DataSourceConfig, file?: File | null): Promise<CSVParseResult> => {
+  try {
+    switch (source.kind) {
+      case 'sheet': {
+        const response = await fetchSource(source.url);
+        return await parseCSVBuffer(await response.arrayBuffer());
+      }
+      case 'fixture':
+        return await loadFixture(source.path);
+      case 'file':
+        return file ? await loadFile(file, source.format) : EMPTY_RESULT;
+    }
+  } catch (error) {
+    if (error instanceof DataSourceError) throw error;
+    console.error("Error loading report data", error);
+    throw new DataSourceError(`The data could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Fresh data when the source is reachable, otherwise the last cached snapshot.
+// Used where several reports are loaded together and one offline sheet shouldn't sink the rest.
+export const loadLatestReportData = async (
+  report: ReportConfig
+): Promise<{ result: CSVParseResult, fetchedAt: number, fromCache: boolean }> => {
+  const sourceKey = getSourceKey(report.source);
+  try {
+    const result = await loadReportData(report.source);
+    const fetchedAt = Date.now();
+    saveSnapshot({ reportId: report.id, sourceKey, fetchedAt, result });
+    return { result, fetchedAt, fromCache: false };
+  } catch (error) {
+    const cached = await getSnapshot(report.id, sourceKey);
+    if (!cached) throw error;
+    return { result: cached.result, fetchedAt: cached.fetchedAt, fromCache: true };
+  }
+};
@@ -0,0 +1,21 @@
+import { DataWorkerRequest, DataWorkerResponse } from '../types';
+import { parseCSVText } from './csvParser';
+import { prepareData } from './dataPipeline';
+
+// Entry point of the background worker started by dataWorkerClient.ts.
+// The project compiles against the DOM lib, so the worker scope is described by hand.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DataWorkerRequest>) => void) | null;
+  postMessage: (message: DataWorkerResponse) => void;
+};
+
+scope.onmessage = async ({ data: request }) => {
+  try {
+    const result = request.task === 'parseCSV'
+      ? await parseCSVText(new TextDecoder('utf-8').decode(request.buffer))
+      : prepareData(request.rows, request.schema, request.locale);
+    scope.postMessage({ id: request.id, result });
+  } catch (error) {
+    scope.postMessage({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,72 @@
+import { CSVParseResult, DataWorkerResponse, DataWorkerTask, LocaleConfig, LogEntry, PreparedData, ReportSchema } from '../types';
+import { parseCSVText } from './csvParser';
+import { prepareData } from './dataPipeline';
+import { indexTimestamps } from './rowIndex';
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  fallback: () => Promise<unknown>;
+}
+
+// One shared worker, started on first use. Where workers aren't available (or the worker dies)
+// the same work runs on the main thread instead.
+let worker: Worker | null = null;
+let unavailable = typeof Worker === 'undefined';
+let nextId = 1;
+const pending = new Map<number, PendingTask>();
+
+const failOver = (reason: unknown) => {
+  console.warn('Background parsing failed, continuing on the main thread', reason);
+  worker?.terminate();
+  worker = null;
+  unavailable = true;
+  const waiting = Array.from(pending.values());
+  pending.clear();
+  waiting.forEach(task => task.fallback().then(task.resolve, task.reject));
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || unavailable) return worker;
+  try {
+    worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    failOver(error);
+    return null;
+  }
+
+  worker.onmessage = ({ data }: MessageEvent<DataWorkerResponse>) => {
+    const task = pending.get(data.id);
+    if (!task) return;
+    pending.delete(data.id);
+    if (data.error !== undefined) task.reject(new Error(data.error));
+    else task.resolve(data.result);
+  };
+  worker.onerror = (event) => failOver(event.message);
+  return worker;
+};
+
+const runTask = <T>(task: DataWorkerTask, fallback: () => Promise<T>): Promise<T> => {
+  const target = getWorker();
+  if (!target) return fallback();
+
+  return new Promise<T>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject, fallback });
+    // The buffer is copied rather than transferred so the fallback can still read it
+    target.postMessage({ ...task, id });
+  });
+};
+
+const decode = (buffer: ArrayBuffer) => new TextDecoder('utf-8').decode(buffer);
+
+// Decodes and parses CSV bytes off the UI thread
+export const parseCSVBuffer = (buffer: ArrayBuffer): Promise<CSVParseResult> =>
+  runTask({ task: 'parseCSV', buffer }, () => parseCSVText(decode(buffer)));
+
+// Applies the schema, types the columns and parses every date cell off the UI thread
+export const prepareReportData = async (rows: LogEntry[], schema?: ReportSchema, locale?: LocaleConfig): Promise<PreparedData> => {
+  const prepared = await runTask({ task: 'prepare', rows, schema, locale }, async () => prepareData(rows, schema, locale));
+  indexTimestamps(prepared.rows, prepared.timestamps, locale?.dateFormat);
+  return prepared;
+};
@@ -0,0 +1,193 @@
+import { LogEntry, ColumnDefinition, ConversionRow, LocaleConfig, PipelineCard, PipelineConfig, PipelineEntryState, ReportConfig, ValueTally } from '../types';
+import { cellText, fromInputValue, getMainDateColumn, parseDate } from '../utils';
+import { identifyRows } from './autoRefresh';
+import { getRowTimestamp } from './rowIndex';
+import { readJSON, writeJSON } from './storage';
+import { getIntlLocale, t } from './i18n';
+
+export const DEFAULT_STAGES = ['New', 'Contacted', 'Site visit', 'Quoted', 'Won', 'Lost'];
+
+const NAME_PATTERN = /name|customer|client/i;
+// The form's own submission time, set once when the enquiry comes in
+const SUBMITTED_AT_PATTERN = /time\s*stamp/i;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const findColumn = (columns: ColumnDefinition[], configured: string | undefined, pattern: RegExp) =>
+  configured
+    ? columns.find(col => normalize(col.key) === normalize(configured))
+    : columns.find(col => pattern.test(col.key));
+
+export const getPipelineColumns = (columns: ColumnDefinition[], config: PipelineConfig) => ({
+  status: findColumn(columns, config.status, /status|stage/i),
+  followUp: findColumn(columns, config.followUp, /follow/i),
+  source: findColumn(columns, config.source, /source|channel|lead/i),
+  name: columns.find(col => NAME_PATTERN.test(col.key)) || columns.find(col => !col.isDate),
+  received: getMainDateColumn(columns)
+});
+
+export const getPipelineStages = (config: PipelineConfig) => {
+  const stages = config.stages || DEFAULT_STAGES;
+  const lost = (config.lost || ['Lost']).map(normalize);
+  const won = normalize(config.won || 'Won');
+  return {
+    stages,
+    isLost: (stage: string) => lost.includes(normalize(stage)),
+    isWon: (stage: string) => normalize(stage) === won
+  };
+};
+
+const storageKey = (reportId: string) => `pipeline:${reportId}`;
+
+// Stages, follow-up dates and notes set on this device, by row identity
+export const loadPipelineState = (report: ReportConfig): Record<string, PipelineEntryState> =>
+  readJSON<Record<string, PipelineEntryState>>(storageKey(report.id), {});
+
+// Merges the change into the enquiry's stored state; entries left with nothing in them are dropped
+export const updatePipelineEntry = (report: ReportConfig, id: string, patch: PipelineEntryState) => {
+  const saved = loadPipelineState(report);
+  const entry: PipelineEntryState = { ...saved[id], ...patch };
+  (Object.keys(entry) as (keyof PipelineEntryState)[]).forEach(key => {
+    const value = entry[key];
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) delete entry[key];
+  });
+
+  const { [id]: _previous, ...rest } = saved;
+  writeJSON(storageKey(report.id), Object.keys(entry).length > 0 ? { ...rest, [id]: entry } : rest);
+};
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Submission time and customer name, which editing the status or any other cell leaves alone
+const defaultIdentity = (rows: LogEntry[]): string[] => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return [headers.find(header => SUBMITTED_AT_PATTERN.test(header)), headers.find(header => NAME_PATTERN.test(header))]
+    .filter((header): header is string => !!header);
+};
+
+// Enquiry ids by row, worked out over every loaded row as the sheet gave it (see identifyRows), so
+// filtering or typing the rows can't renumber duplicates and move stored stages and notes between enquiries
+export const identifyEnquiries = (rawRows: LogEntry[], rows: LogEntry[], report: ReportConfig): Map<LogEntry, string> => {
+  const ids = identifyRows(rawRows, report.pipeline?.identity || report.refresh?.identity || defaultIdentity(rawRows));
+  return new Map(rows.map((row, index) => [row, ids[index]]));
+};
+
+// One card per enquiry. Sheet statuses that aren't among the configured stages get a column of
+// their own, placed before the closing stages.
+export const buildPipeline = (
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  config: PipelineConfig,
+  state: Record<string, PipelineEntryState>,
+  ids: Map<LogEntry, string>,
+  locale?: LocaleConfig
+) => {
+  const cols = getPipelineColumns(columns, config);
+  const { stages: configured, isLost, isWon } = getPipelineStages(config);
+  const stageByName = new Map(configured.map(stage => [normalize(stage), stage]));
+  const extra: string[] = [];
+  const skipped = new Set([cols.status?.key, cols.followUp?.key, cols.source?.key, cols.name?.key]);
+
+  const cards: PipelineCard[] = data.map((row, index) => {
+    // Rows without a loaded id (there shouldn't be any) still get a distinct one
+    const id = ids.get(row) ?? `row:${index}`;
+    const local = state[id] || {};
+
+    const sheetStatus = cols.status ? cellText(row[cols.status.key]).trim() : '';
+    let stage = local.stage && stageByName.get(normalize(local.stage));
+    if (!stage && sheetStatus) {
+      stage = stageByName.get(normalize(sheetStatus));
+      if (!stage) {
+        stage = sheetStatus;
+        stageByName.set(normalize(sheetStatus), sheetStatus);
+        extra.push(sheetStatus);
+      }
+    }
+
+    const sheetFollowUp = cols.followUp
+      ? (cols.followUp.isDate ? getRowTimestamp(row, cols.followUp.key) : parseDate(row[cols.followUp.key], locale?.dateFormat))
+      : NaN;
+    const localFollowUp = local.followUp ? fromInputValue(local.followUp, false) : null;
+    const followUp = localFollowUp ?? (isNaN(sheetFollowUp) ? NaN : startOfDay(sheetFollowUp));
+
+    return {
+      id,
+      row,
+      title: cols.name ? cellText(row[cols.name.key]).trim() || 'Unnamed enquiry' : 'Enquiry',
+      details: columns
+        .filter(col => !col.isDate && !skipped.has(col.key))
+        .map(col => cellText(row[col.key]).trim())
+        .filter(Boolean)
+        .slice(0, 3),
+      stage: stage || configured[0],
+      stageIsLocal: !!local.stage && normalize(local.stage) !== normalize(sheetStatus),
+      followUp,
+      notes: local.notes || [],
+      received: cols.received ? getRowTimestamp(row, cols.received.key) : NaN,
+      source: cols.source ? cellText(row[cols.source.key]).trim() : ''
+    };
+  });
+
+  const closing = configured.filter(stage => isWon(stage) || isLost(stage));
+  const stages = [...configured.filter(stage => !closing.includes(stage)), ...extra, ...closing];
+  return { cards, stages, isWon, isLost };
+};
+
+// Open enquiries whose follow-up date has passed or is today, earliest first
+export const getFollowUps = (cards: PipelineCard[], isClosed: (stage: string) => boolean, now: number = Date.now()) => {
+  const today = startOfDay(now);
+  const open = cards
+    .filter(card => !isNaN(card.followUp) && !isClosed(card.stage))
+    .sort((a, b) => a.followUp - b.followUp);
+  return {
+    overdue: open.filter(card => card.followUp < today),
+    dueToday: open.filter(card => card.followUp === today)
+  };
+};
+
+// How many enquiries got at least as far as each stage. Won counts as passing every stage before it;
+// lost enquiries only count as received, since the sheet doesn't say where they dropped out.
+export const getFunnel = (cards: PipelineCard[], stages: string[], isLost: (stage: string) => boolean): ValueTally[] => {
+  const open = stages.filter(stage => !isLost(stage));
+  const reached = open.map(() => 0);
+  cards.forEach(card => {
+    const index = isLost(card.stage) ? 0 : open.indexOf(card.stage);
+    for (let i = 0; i <= index; i++) reached[i] += 1;
+  });
+  return open.map((stage, i) => ({ value: stage, count: reached[i], amount: reached[i] }));
+};
+
+export type ConversionGrouping = 'source' | 'month';
+
+const monthLabel = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(getIntlLocale(), { month: 'short', year: 'numeric' });
+
+// Won and lost enquiries per source or per month received; months run oldest first
+export const getConversion = (
+  cards: PipelineCard[],
+  grouping: ConversionGrouping,
+  isWon: (stage: string) => boolean,
+  isLost: (stage: string) => boolean
+): ConversionRow[] => {
+  const groups = new Map<string, ConversionRow & { sortKey: number }>();
+  cards.forEach(card => {
+    const undated = isNaN(card.received);
+    const group = grouping === 'source' ? card.source || t('pipeline.noSource') : undated ? t('pipeline.noDate') : monthLabel(card.received);
+    let row = groups.get(group);
+    if (!row) {
+      const sortKey = grouping === 'month' && !undated ? new Date(card.received).getFullYear() * 12 + new Date(card.received).getMonth() : Infinity;
+      row = { group, total: 0, won: 0, lost: 0, rate: 0, sortKey };
+      groups.set(group, row);
+    }
+    row.total += 1;
+    if (isWon(card.stage)) row.won += 1;
+    if (isLost(card.stage)) row.lost += 1;
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => grouping === 'month' ? a.sortKey - b.sortKey : b.total - a.total || a.group.localeCompare(b.group))
+    .map(({ sortKey: _sortKey, ...row }) => ({ ...row, rate: row.total > 0 ? row.won / row.total : 0 }));
+};
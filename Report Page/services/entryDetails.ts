@@ -0,0 +1,98 @@
+import { LogEntry, ColumnDefinition, EntryField, LocaleConfig, ReportConfig, SameDayRecords } from '../types';
+import { cellText, formatCurrency, getDayRange, getMainDateColumn, isCurrencyColumn, isWithinDateRange, parseAmount } from '../utils';
+import { loadLatestReportData } from './dataSources';
+import { prepareReportData } from './dataWorkerClient';
+import { getReportColumns } from './columnLayout';
+import { getRowTimestamp } from './rowIndex';
+import { isWebLink } from './schema';
+
+// Google Forms file uploads put several links in one cell, separated by commas
+const splitLinks = (text: string) => {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  return parts.length > 0 && parts.every(isWebLink) ? parts : [];
+};
+
+// The entry's filled-in fields in column order, under the user's labels
+export const getEntryFields = (entry: LogEntry, columns: ColumnDefinition[], locale?: LocaleConfig): EntryField[] => {
+  const known = new Set(columns.map(col => col.key));
+  const extra: ColumnDefinition[] = Object.keys(entry)
+    .filter(key => !known.has(key))
+    .map(key => ({ key, label: key.replace(/_/g, ' ') }));
+
+  return [...columns, ...extra]
+    .map(col => {
+      const raw = entry[col.key];
+      const text = cellText(raw, locale).trim();
+      const value = isCurrencyColumn(col) && text ? formatCurrency(parseAmount(raw) || 0, locale) : text;
+      return { key: col.key, label: col.label, value, links: splitLinks(text) };
+    })
+    .filter(field => field.value !== '' && field.value !== '-');
+};
+
+// Plain "Label: value" lines, for pasting into a chat or a note
+export const entryToText = (title: string, fields: EntryField[]) =>
+  [`*${title}*`, ...fields.map(field => `${field.label}: ${field.value}`)].join('\n');
+
+const DRIVE_ID = /drive\.google\.com\/(?:file\/d\/([\w-]+)|(?:open|uc)\?(?:.*&)?id=([\w-]+))/;
+const IMAGE_FILE = /\.(jpe?g|png|gif|webp|bmp|svg)(?:[?#]|$)/i;
+
+// A small preview for image links; Drive links get Drive's thumbnail, which also covers PDFs
+export const getThumbnailUrl = (url: string): string | null => {
+  const drive = url.match(DRIVE_ID);
+  if (drive) return `https://drive.google.com/thumbnail?id=${drive[1] || drive[2]}&sz=w480`;
+  return IMAGE_FILE.test(url) ? url : null;
+};
+
+// Host and file name, instead of a long address
+export const shortenLink = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const name = pathname.split('/').filter(Boolean).pop();
+    return name ? `${hostname} › ${decodeURIComponent(name)}` : hostname;
+  } catch {
+    return url;
+  }
+};
+
+// Other reports are loaded at most every few minutes, not again for each entry stepped through
+const CACHE_MS = 5 * 60 * 1000;
+const datasets = new Map<string, { loadedAt: number, promise: Promise<{ data: LogEntry[], columns: ColumnDefinition[], dateColumn?: ColumnDefinition }> }>();
+
+const loadDataset = (report: ReportConfig) => {
+  const cached = datasets.get(report.id);
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) return cached.promise;
+
+  const promise = loadLatestReportData(report).then(async ({ result }) => {
+    const prepared = await prepareReportData(result.rows, report.schema, report.locale);
+    // Dated by the detected columns, in case the user has hidden the date
+    return { data: prepared.rows, columns: getReportColumns(report, prepared.columns), dateColumn: getMainDateColumn(prepared.columns) };
+  });
+  datasets.set(report.id, { loadedAt: Date.now(), promise });
+  promise.catch(() => datasets.delete(report.id));
+  return promise;
+};
+
+// Entries from every other report dated the same day. Uploaded-file reports have nothing to load.
+export const findSameDayRecords = async (reports: ReportConfig[], current: ReportConfig, timestamp: number): Promise<SameDayRecords[]> => {
+  const day = getDayRange(timestamp);
+  const others = reports.filter(report => report.id !== current.id && report.source.kind !== 'file');
+
+  return Promise.all(others.map(async (report): Promise<SameDayRecords> => {
+    try {
+      const { data, columns, dateColumn } = await loadDataset(report);
+      const rows = dateColumn ? data.filter(row => isWithinDateRange(getRowTimestamp(row, dateColumn.key), day)) : [];
+      return { report, columns, rows };
+    } catch (error) {
+      return { report, columns: [], rows: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+};
+
+// A one-line description of a linked entry: its first few filled-in, non-date values
+export const summarizeRow = (row: LogEntry, columns: ColumnDefinition[], locale?: LocaleConfig) =>
+  columns
+    .filter(col => !col.isDate)
+    .map(col => isCurrencyColumn(col) ? formatCurrency(parseAmount(row[col.key]) || 0, locale) : cellText(row[col.key], locale).trim())
+    .filter(text => text && text !== '-')
+    .slice(0, 4)
+    .join(' · ');
@@ -0,0 +1,79 @@
+import { LogEntry, CellValue, ColumnDefinition, ExportDetails, LocaleConfig } from '../types';
+import { parseAmount, describeExport, cellText, formatDisplayDateTime } from '../utils';
+
+export const toFileName = (title: string) => title.trim().replace(/\s+/g, '_');
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Hand-typed cells starting like a formula would run as one in Excel; plain numbers such as -500 are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?[\d.,]+$/;
+
+const escapeCSV = (value: CellValue, locale?: LocaleConfig) => {
+  let text = cellText(value, locale);
+  if (typeof value === 'string' && FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 output, readable by the dashboard's own parser
+export const serializeCSV = (columns: ColumnDefinition[], rows: LogEntry[], locale?: LocaleConfig): string => {
+  const lines = [columns.map(col => escapeCSV(col.label)).join(',')];
+  rows.forEach(row => lines.push(columns.map(col => escapeCSV(row[col.key], locale)).join(',')));
+  return lines.join('\r\n');
+};
+
+export const exportCSV = (title: string, columns: ColumnDefinition[], rows: LogEntry[], locale?: LocaleConfig) => {
+  // The BOM makes Excel open the file as UTF-8 (Tamil text, ₹)
+  downloadBlob(new Blob(['\uFEFF' + serializeCSV(columns, rows, locale)], { type: 'text/csv;charset=utf-8' }), `${toFileName(title)}.csv`);
+};
+
+// Rows keyed by column label, with the export context alongside; typed dates come out as ISO strings
+export const exportJSON = (title: string, columns: ColumnDefinition[], rows: LogEntry[], details: ExportDetails) => {
+  const { locale, ...context } = details;
+  const payload = {
+    title,
+    exportedAt: new Date().toISOString(),
+    ...context,
+    rowCount: rows.length,
+    rows: rows.map(row => Object.fromEntries(columns.map(col => [col.label, row[col.key]])))
+  };
+  downloadBlob(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }), `${toFileName(title)}.json`);
+};
+
+export const exportXLSX = (title: string, columns: ColumnDefinition[], rows: LogEntry[], details: ExportDetails) => {
+  // @ts-ignore
+  const XLSX = window.XLSX;
+  if (!XLSX) throw new Error('The Excel library has not loaded yet');
+
+  // Numeric columns go in as numbers so sums work in Excel; typed dates become Excel dates
+  const sheetRows = rows.map(row => columns.map(col => {
+    const value = row[col.key];
+    if (col.isNumeric) {
+      const num = parseAmount(value);
+      if (!isNaN(num)) return num;
+    }
+    return value;
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  const dataSheet = XLSX.utils.aoa_to_sheet([columns.map(col => col.label), ...sheetRows]);
+  XLSX.utils.book_append_sheet(workbook, dataSheet, 'Data');
+
+  const infoSheet = XLSX.utils.aoa_to_sheet([
+    [title],
+    [`Generated on ${formatDisplayDateTime(Date.now(), details.locale)}`],
+    ...describeExport(details, rows.length).map(line => [line])
+  ]);
+  XLSX.utils.book_append_sheet(workbook, infoSheet, 'Export info');
+
+  XLSX.writeFile(workbook, `${toFileName(title)}.xlsx`);
+};
@@ -0,0 +1,175 @@
+import { LogEntry, ColumnDefinition, FilterCondition, FilterOperator, FilterState, LocaleConfig } from '../types';
+import { cellText, parseAmount, fromInputValue, formatDisplayDate } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+import { Language, MessageKey, t } from './i18n';
+
+export type FilterKind = 'text' | 'number' | 'date';
+
+export const getFilterKind = (col?: ColumnDefinition): FilterKind =>
+  col?.isDate ? 'date' : col?.isNumeric ? 'number' : 'text';
+
+// Operators offered for each kind of column, most useful first
+export const OPERATORS_BY_KIND: Record<FilterKind, FilterOperator[]> = {
+  text: ['in', 'notIn', 'contains', 'equals', 'isEmpty', 'isNotEmpty'],
+  number: ['between', 'gt', 'lt', 'equals', 'in', 'notIn', 'isEmpty', 'isNotEmpty'],
+  date: ['between', 'equals', 'gt', 'lt', 'isEmpty', 'isNotEmpty']
+};
+
+export const ALL_OPERATORS: FilterOperator[] = ['in', 'notIn', 'contains', 'equals', 'gt', 'lt', 'between', 'isEmpty', 'isNotEmpty'];
+
+const OPERATOR_LABELS: Record<FilterOperator, MessageKey> = {
+  in: 'filters.op.in',
+  notIn: 'filters.op.notIn',
+  contains: 'filters.op.contains',
+  equals: 'filters.op.equals',
+  gt: 'filters.op.gt',
+  lt: 'filters.op.lt',
+  between: 'filters.op.between',
+  isEmpty: 'filters.op.isEmpty',
+  isNotEmpty: 'filters.op.isNotEmpty'
+};
+
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, MessageKey>> = {
+  equals: 'filters.op.on',
+  gt: 'filters.op.after',
+  lt: 'filters.op.before'
+};
+
+// In the UI language unless one is given
+export const getOperatorLabel = (operator: FilterOperator, kind: FilterKind, lang?: Language) =>
+  t((kind === 'date' && DATE_OPERATOR_LABELS[operator]) || OPERATOR_LABELS[operator], {}, lang);
+
+// How many values an operator takes
+export const getOperatorArity = (operator: FilterOperator): 'none' | 'one' | 'two' | 'many' => {
+  switch (operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return 'none';
+    case 'in':
+    case 'notIn':
+      return 'many';
+    case 'between':
+      return 'two';
+    default:
+      return 'one';
+  }
+};
+
+// Half-built conditions (no value yet) are kept in the builder but don't filter anything
+export const isConditionComplete = (condition: FilterCondition): boolean => {
+  const filled = condition.values.filter(v => v.trim() !== '');
+  switch (getOperatorArity(condition.operator)) {
+    case 'none': return true;
+    case 'one': return filled.length >= 1;
+    case 'two': return filled.length >= 1; // Either bound may be left open
+    case 'many': return condition.values.length > 0;
+  }
+};
+
+const dayStart = (value: string) => fromInputValue(value, false);
+const dayEnd = (value: string) => fromInputValue(value, true);
+const toNumber = (value: string | undefined) => value === undefined || value.trim() === '' ? NaN : parseAmount(value);
+
+const createMatcher = (condition: FilterCondition, kind: FilterKind): ((row: LogEntry) => boolean) => {
+  const { column, operator, values } = condition;
+
+  switch (operator) {
+    case 'isEmpty':
+      return row => cellText(row[column]).trim() === '';
+    case 'isNotEmpty':
+      return row => cellText(row[column]).trim() !== '';
+    case 'in': {
+      const set = new Set(values);
+      return row => set.has(cellText(row[column]));
+    }
+    case 'notIn': {
+      const set = new Set(values);
+      return row => !set.has(cellText(row[column]));
+    }
+    case 'contains': {
+      const needle = values[0].trim().toLowerCase();
+      return row => cellText(row[column]).toLowerCase().includes(needle);
+    }
+  }
+
+  if (kind === 'date') {
+    // Bounds are whole days: "after 05/06" starts on the 6th, "between" includes both ends
+    const [from, to] = values;
+    const bounds = {
+      equals: [dayStart(from), dayEnd(from)],
+      gt: [from ? dayEnd(from)! + 1 : null, null],
+      lt: [null, from ? dayStart(from)! - 1 : null],
+      between: [from ? dayStart(from) : null, to ? dayEnd(to) : null]
+    }[operator];
+    const [start, end] = bounds;
+    return row => {
+      const timestamp = getRowTimestamp(row, column);
+      if (isNaN(timestamp)) return false;
+      return (start === null || timestamp >= start) && (end === null || timestamp <= end);
+    };
+  }
+
+  if (kind === 'number') {
+    const [a, b] = values.map(toNumber);
+    return row => {
+      const value = parseAmount(row[column]);
+      if (isNaN(value)) return false;
+      switch (operator) {
+        case 'equals': return value === a;
+        case 'gt': return value > a;
+        case 'lt': return value < a;
+        default: return (isNaN(a) || value >= a) && (isNaN(b) || value <= b);
+      }
+    };
+  }
+
+  // Text columns only offer equals among the remaining operators; compare loosely
+  const target = values[0].trim().toLowerCase();
+  return row => cellText(row[column]).trim().toLowerCase() === target;
+};
+
+export const applyFilters = (data: LogEntry[], filters: FilterState, columns: ColumnDefinition[]): LogEntry[] => {
+  const matchers = filters
+    .filter(isConditionComplete)
+    .map(condition => createMatcher(condition, getFilterKind(columns.find(col => col.key === condition.column))));
+  if (matchers.length === 0) return data;
+  return data.filter(row => matchers.every(matches => matches(row)));
+};
+
+// e.g. "Material is Cement or Steel", "Amount between 100 and 500", "Date after 05/06/2024".
+// In the UI language for the filter chips; exports ask for English.
+export const describeCondition = (condition: FilterCondition, columns: ColumnDefinition[], locale?: LocaleConfig, lang?: Language): string => {
+  const col = columns.find(c => c.key === condition.column);
+  const kind = getFilterKind(col);
+  const column = col?.label || condition.column;
+  const show = (value: string) => kind === 'date' && dayStart(value) !== null ? formatDisplayDate(dayStart(value)!, locale) : value;
+  const operator = getOperatorLabel(condition.operator, kind, lang);
+
+  switch (getOperatorArity(condition.operator)) {
+    case 'none':
+      return t('filters.describeNone', { column, operator }, lang);
+    case 'many': {
+      const value = condition.values.map(v => v || t('filters.blank', {}, lang)).join(` ${t('filters.or', {}, lang)} `);
+      return t('filters.describe', { column, operator, value }, lang);
+    }
+    case 'two': {
+      const [from, to] = condition.values;
+      if (from && to) return t('filters.describeBetween', { column, from: show(from), to: show(to) }, lang);
+      if (from) return t(kind === 'date' ? 'filters.describeFrom' : 'filters.describeAtLeast', { column, value: show(from) }, lang);
+      return t(kind === 'date' ? 'filters.describeUntil' : 'filters.describeAtMost', { column, value: show(to) }, lang);
+    }
+    default:
+      return t('filters.describe', { column, operator, value: show(condition.values[0]) }, lang);
+  }
+};
+
+// Quick pickers (the dropdowns and chart bars) drive a single-value "is" condition per column
+export const getSingleValue = (filters: FilterState, column: string): string => {
+  const condition = filters.find(c => c.column === column && c.operator === 'in' && c.values.length === 1);
+  return condition ? condition.values[0] : '';
+};
+
+export const setSingleValue = (filters: FilterState, column: string, value: string): FilterState => {
+  const rest = filters.filter(c => !(c.column === column && c.operator === 'in'));
+  return value ? [...rest, { column, operator: 'in', values: [value] }] : rest;
+};
@@ -0,0 +1,860 @@
+import { createContext, useContext } from 'react';
+import { LocaleConfig } from '../types';
+import { readJSON, writeJSON } from './storage';
+
+export type Language = 'en' | 'ta';
+
+export const LANGUAGES: { code: Language, label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'ta', label: 'தமிழ்' }
+];
+
+// UI text only. Exported files stay in English: the PDF fonts have no Tamil glyphs,
+// and sheets and CSVs are passed on to the office as they are.
+const EN = {
+  'app.title': 'Firm Reports',
+  'app.configInvalid': 'Report configuration is invalid',
+  'language.label': 'Language',
+
+  'common.all': 'All',
+  'common.close': 'Close',
+  'common.copied': 'Copied',
+  'common.entries': '{count} entries',
+  'common.entry': '{count} entry',
+  'common.cancel': 'Cancel',
+
+  'tab.dailySummary': 'Daily Summary',
+  'tab.newSince': '{count} new since you last looked',
+
+  'sync.lastSynced': 'last synced {time}',
+  'sync.never': 'not synced yet',
+  'sync.offline': '{synced} / offline',
+  'sync.refreshing': '{synced}, refreshing',
+  'sync.syncing': 'syncing',
+  'sync.failed': '{synced} / sync failed',
+  'sync.justNow': 'just now',
+
+  'report.subtitle': 'Real-time tracking and analysis of site operations',
+  'report.loadFailed': "Couldn't load {title}",
+  'report.retry': 'Try again',
+  'summary.subtitle': 'Work, materials, tea and enquiries for one day across all reports',
+  'summary.allSites': 'All sites',
+  'summary.date': 'Date',
+  'summary.site': 'Site',
+  'summary.refresh': 'Refresh',
+  'summary.downloadPdf': 'Download PDF',
+  'summary.loadFailed': '{title} could not be loaded: {error}',
+  'summary.fromCache': '{title} is from the offline copy synced {time}.',
+  'summary.fromCacheUndated': '{title} is from an earlier offline copy.',
+  'summary.loading': 'Loading all reports...',
+  'summary.noSiteColumn': '(all sites, no site column)',
+  'summary.noEntries': 'No entries for this day.',
+  'summary.entries': 'Entries',
+  'summary.people': 'People',
+  'summary.sources': 'Sources',
+  'summary.parties': 'Parties',
+  'summary.amount': 'Amount',
+  'summary.unspecified': 'Unspecified',
+
+  'view.table': 'Table',
+  'view.pivot': 'Pivot',
+  'view.stock': 'Stock',
+  'view.muster': 'Muster Roll',
+  'view.pipeline': 'Pipeline',
+  'view.payments': 'Payments',
+
+  'filters.title': 'Filters',
+  'filters.add': 'Add filter',
+  'filters.analyze': 'Analyze',
+  'filters.audit': 'Check data',
+  'filters.none': 'No categorical data available for filtering.',
+  'filters.column': 'Column',
+  'filters.condition': 'Condition',
+  'filters.anyOf': 'is any of',
+  'filters.noneOf': 'is none of',
+  'filters.value': 'Value',
+  'filters.from': 'From',
+  'filters.to': 'To',
+  'filters.searchValues': 'Search {count} values',
+  'filters.selected': '{count} selected',
+  'filters.blank': '(blank)',
+  'filters.noValues': 'No matching values',
+  'filters.update': 'Update filter',
+  'filters.op.in': 'is',
+  'filters.op.notIn': 'is not',
+  'filters.op.contains': 'contains',
+  'filters.op.equals': 'equals',
+  'filters.op.gt': 'greater than',
+  'filters.op.lt': 'less than',
+  'filters.op.between': 'between',
+  'filters.op.isEmpty': 'is empty',
+  'filters.op.isNotEmpty': 'is not empty',
+  'filters.op.on': 'on',
+  'filters.op.after': 'after',
+  'filters.op.before': 'before',
+  'filters.describe': '{column} {operator} {value}',
+  'filters.describeNone': '{column} {operator}',
+  'filters.describeBetween': '{column} between {from} and {to}',
+  'filters.describeFrom': '{column} from {value}',
+  'filters.describeAtLeast': '{column} at least {value}',
+  'filters.describeUntil': '{column} until {value}',
+  'filters.describeAtMost': '{column} at most {value}',
+  'filters.or': 'or',
+
+  'date.all': 'All dates',
+  'date.today': 'Today',
+  'date.yesterday': 'Yesterday',
+  'date.thisWeek': 'This week',
+  'date.thisMonth': 'This month',
+  'date.lastMonth': 'Last month',
+  'date.custom': 'Custom',
+  'date.to': 'to',
+
+  'table.title': 'Full Data Set',
+  'table.columns': 'Columns',
+  'table.show': 'Show',
+  'table.entries': 'entries',
+  'table.loading': 'Loading data...',
+  'table.noData': 'No data found. Please check the source spreadsheet.',
+  'table.noMatch': 'No records match your search.',
+  'table.showing': 'Showing {from} to {to} of {total} entries',
+  'table.previous': 'Previous',
+  'table.next': 'Next',
+  'table.exportFailed': 'Export failed. Please try again in a moment.',
+  'search.placeholder': 'Search, e.g. site:anna qty>10',
+  'search.help': 'Search text, or narrow by column: material:cement  qty>50  date:2024-05  -status:closed  "exact phrase"',
+
+  'export.button': 'Export',
+  'export.pdf': 'PDF document',
+  'export.xlsx': 'Excel workbook',
+  'export.csv': 'CSV file',
+  'export.json': 'JSON data',
+
+  'share.button': 'Share',
+  'share.hint': 'Share a summary of these entries',
+  'share.shared': 'Shared',
+  'share.whatsapp': 'Opened WhatsApp',
+
+  'copyLink.button': 'Copy link',
+  'copyLink.prompt': 'Copy this link',
+
+  'views.button': 'Views',
+  'views.empty': 'No saved views yet.',
+  'views.isDefault': 'Default for this tab (click to clear)',
+  'views.makeDefault': 'Open this view with the tab',
+  'views.delete': 'Delete view',
+  'views.namePlaceholder': 'Save current view as…',
+  'views.save': 'Save view',
+  'views.replace': 'Replace the view with this name',
+  'views.replaceNote': 'Replaces the saved view with this name.',
+  'views.saved': 'Saved "{name}"',
+  'views.import': 'Import',
+  'views.imported': 'Imported {views} view(s) for {reports} report(s)',
+  'views.skipped': 'skipped unknown reports: {ids}',
+  'views.importFailed': 'Import failed: {error}',
+
+  'entry.title': 'Entry Details',
+  'entry.position': '{index} of {total} · use ← → to step through',
+  'entry.previous': 'Previous entry',
+  'entry.next': 'Next entry',
+  'entry.copy': 'Copy as text',
+  'entry.copyPrompt': 'Copy this entry',
+  'entry.empty': 'No details available.',
+  'entry.sameDay': 'Same day in other reports · {day}',
+  'entry.searching': 'Looking through the other reports…',
+  'entry.nothingElse': 'Nothing else was recorded that day.',
+  'entry.more': '…and {count} more',
+  'entry.loadFailed': 'Could not load: {reports}',
+
+  'refresh.hint': 'Check the source for new entries in the background',
+  'refresh.off': 'Auto-refresh off',
+  'refresh.every': 'Every {minutes} min',
+  'refresh.blocked': 'Notifications blocked',
+  'refresh.blockedHint': 'Allow notifications for this site in your browser settings',
+  'refresh.notify': 'Notify me',
+
+  'changes.since': 'Since you last looked:',
+  'changes.added': '{count} new',
+  'changes.modified': '{count} updated',
+  'changes.removed': '{count} removed',
+  'changes.dismiss': 'Mark as seen',
+
+  'parseIssues.skipped': '{count} rows skipped',
+  'parseIssues.skippedOne': '1 row skipped',
+  'parseIssues.repaired': '{count} rows repaired',
+  'parseIssues.repairedOne': '1 row repaired',
+  'parseIssues.show': 'view details',
+  'parseIssues.hide': 'hide details',
+  'parseIssues.line': 'Line',
+  'parseIssues.status': 'Status',
+  'parseIssues.reason': 'Reason',
+  'parseIssues.actionSkipped': 'skipped',
+  'parseIssues.actionRepaired': 'repaired',
+
+  'insights.title': 'Insights',
+  'insights.noMatch': 'No entries match the current filters.',
+  'insights.entries': 'Entries',
+  'insights.total': 'Total {column}',
+  'insights.totalAmount': 'Total amount',
+  'insights.summary': 'Summary · {provider}',
+  'insights.summarize': 'Summarise in plain words',
+  'insights.summarizing': 'Summarising...',
+  'insights.summaryFailed': 'Could not generate a summary right now. Please try again.',
+  'insights.trend': 'Daily trend · {column}',
+  'insights.versus': '{change}% vs {date}',
+  'insights.top': 'Top {column}',
+  'insights.by': 'By {column}',
+  'insights.outliers': 'Outliers',
+  'insights.noOutliers': 'Nothing unusual in the numeric columns.',
+  'insights.outlierValue': 'of {value}',
+  'insights.typical': '(typical {median})',
+
+  'payments.none': "No payments found. Check the party and amount columns in the report's payment settings.",
+  'payments.billed': 'Billed',
+  'payments.paid': 'Paid',
+  'payments.outstanding': 'Outstanding',
+  'payments.ageing': 'Ageing of unpaid bills',
+  'payments.asOf': 'As of',
+  'payments.asOfDate': 'As of {date}',
+  'payments.settled': 'Every bill is settled.',
+  'payments.age30': '0–30 days',
+  'payments.age60': '31–60 days',
+  'payments.ageOver60': '60+ days',
+  'payments.skipped': '{count} entries skipped (no party or amount, or not recognised as a bill or payment).',
+  'payments.skippedOne': '1 entry skipped (no party or amount, or not recognised as a bill or payment).',
+  'payments.byParty': 'Party-wise Outstanding',
+  'payments.parties': '{count} parties · click a party for its statement',
+  'payments.partiesOne': '1 party · click it for its statement',
+  'payments.party': 'Party',
+  'payments.lastPaid': 'Last paid',
+  'payments.advance': '{amount} advance',
+  'payments.statement': 'Statement · {party}',
+  'payments.statementPdf': 'Statement PDF',
+  'payments.date': 'Date',
+  'payments.particulars': 'Particulars',
+  'payments.balance': 'Balance',
+
+  'quality.title': 'Data quality',
+  'quality.clean': 'No problems found in {rows} rows.',
+  'quality.found': '{issues} issues in {rows} rows. Row numbers are sheet rows, counting the header as row 1.',
+  'quality.foundOne': '1 issue in {rows} rows. Row numbers are sheet rows, counting the header as row 1.',
+  'quality.row': 'Row {row}',
+  'quality.more': '+{count} more',
+  'quality.duplicate': 'Duplicate rows',
+  'quality.nearDuplicate': 'Near-duplicate rows',
+  'quality.empty': 'Empty cells',
+  'quality.badDate': 'Unreadable dates',
+  'quality.futureDate': 'Future dates',
+  'quality.notNumeric': 'Not a number',
+  'quality.outlier': 'Unusual values',
+  'quality.spelling': 'Spelling variants',
+  'quality.duplicateDetail': '{count} identical rows',
+  'quality.nearDuplicateDetail': '{count} rows that differ only in case, spacing or submission time',
+  'quality.emptyDetail': '{count} blank',
+  'quality.emptyRequiredDetail': '{count} blank, but the column is required',
+  'quality.badDateDetail': "{count} can't be read as dates, e.g. {examples}",
+  'quality.futureDateDetail': '{count} after today, e.g. {examples}',
+  'quality.notNumericDetail': '{count} not a number, e.g. {examples}',
+  'quality.outlierDetail': '{count} far above the usual {median}, up to {largest}',
+  'quality.spellingDetail': '{variants} probably meant {leader}',
+
+  'muster.period': '{start} to {end}',
+  'muster.title': 'Muster Roll',
+  'muster.workers': '{count} workers',
+  'muster.workersOne': '1 worker',
+  'muster.manDays': '{count} man-days',
+  'muster.unpriced': '{count} without a daily rate',
+  'muster.skipped': '{count} entries skipped (no name)',
+  'muster.skippedOne': '1 entry skipped (no name)',
+  'muster.week': 'Week',
+  'muster.month': 'Month',
+  'muster.previous': 'Previous',
+  'muster.next': 'Next',
+  'muster.empty': 'No attendance for {period}.',
+  'muster.name': 'Name',
+  'muster.trade': 'Trade',
+  'muster.days': 'Days',
+  'muster.rate': 'Daily rate',
+  'muster.amount': 'Amount',
+  'muster.headcount': 'Headcount',
+  'muster.headcountNote': 'Person-days from {columns}; P = one full day, H = one half day.',
+  'muster.marksNote': 'P = full day, H = half day.',
+  'muster.filtersNote': 'Uses the filters above; the date range is replaced by the period chosen here.',
+
+  'pipeline.noSource': 'No source',
+  'pipeline.noDate': 'No date',
+  'pipeline.nothing': 'Nothing here.',
+  'pipeline.followUps': 'Follow-ups',
+  'pipeline.enquiries': '{count} enquiries',
+  'pipeline.enquiriesOne': '1 enquiry',
+  'pipeline.wonSummary': '{count} won · {rate} conversion',
+  'pipeline.localOnly': 'Stages, follow-up dates and notes set here are saved on this device only.',
+  'pipeline.overdue': 'Overdue',
+  'pipeline.dueToday': 'Due today',
+  'pipeline.dateUnknown': 'Date unknown',
+  'pipeline.received': 'Received {date}',
+  'pipeline.sheetSays': 'sheet says "{status}"',
+  'pipeline.noStatus': 'no status',
+  'pipeline.showEntry': 'Show the full entry',
+  'pipeline.stage': 'Stage',
+  'pipeline.followUpOn': 'Follow up on',
+  'pipeline.notes': 'Notes',
+  'pipeline.deleteNote': 'Delete note',
+  'pipeline.notePlaceholder': 'Called back, wants a quote by Friday…',
+  'pipeline.addNote': 'Add note',
+  'pipeline.funnel': 'Funnel',
+  'pipeline.conversion': 'Conversion',
+  'pipeline.bySource': 'By source',
+  'pipeline.byMonth': 'By month',
+  'pipeline.source': 'Source',
+  'pipeline.month': 'Month',
+  'pipeline.enquiriesColumn': 'Enquiries',
+  'pipeline.won': 'Won',
+  'pipeline.lost': 'Lost',
+  'pipeline.noMatches': 'No enquiries match the filters.',
+
+  'schema.invalidCells': "{cells} cells in {rows} rows don't match the report schema",
+  'schema.invalidCellsOneRow': "{cells} cells in 1 row don't match the report schema",
+  'schema.invalidCellOne': "1 cell doesn't match the report schema",
+  'schema.missingColumns': 'missing columns: {columns}',
+  'schema.missingColumnOne': 'missing column: {columns}',
+  'schema.column': 'Column',
+  'schema.problem': 'Problem',
+  'schema.cells': 'Cells',
+  'schema.example': 'e.g. {example}',
+  'schema.required': 'Required value is missing',
+  'schema.notDateIn': 'Not a date in {format} format',
+  'schema.notDate': 'Not a recognisable date',
+  'schema.notNumber': 'Not a number',
+  'schema.notLink': 'Not a web link',
+  'schema.notAllowed': 'Not one of the allowed values',
+
+  'file.title': 'Local File',
+  'file.showing': 'Showing',
+  'file.prompt': 'Choose a CSV or JSON export to view it here.',
+  'file.chooseAnother': 'Choose another file',
+  'file.choose': 'Choose file',
+
+  'stock.none': "No stock movements found. Check the material, quantity and direction columns in the report's stock settings.",
+  'stock.current': 'Current Stock',
+  'stock.materials': '{count} materials',
+  'stock.materialsOne': '1 material',
+  'stock.low': '{count} below reorder level',
+  'stock.skipped': '{count} entries skipped (no material, quantity or direction)',
+  'stock.skippedOne': '1 entry skipped (no material, quantity or direction)',
+  'stock.allEntries': 'Balances count every entry in the report, whatever the filters above.',
+  'stock.ledgerPdf': 'Ledger PDF',
+  'stock.material': 'Material',
+  'stock.site': 'Site',
+  'stock.inward': 'Inward',
+  'stock.outward': 'Outward',
+  'stock.balance': 'Balance',
+  'stock.reorderLevel': 'Reorder level',
+  'stock.lastMovement': 'Last movement',
+  'stock.levelEverySite': 'Applies to this material at every site',
+  'stock.history': 'Movement History',
+  'stock.allSites': '{material} · all sites',
+  'stock.noSite': 'no site',
+  'stock.date': 'Date',
+  'stock.latest': 'Showing the latest {count} of {total} movements; the ledger PDF lists them all.',
+
+  'pivot.title': 'Pivot',
+  'pivot.groups': '{groups} groups from {entries} entries',
+  'pivot.rows': 'Rows',
+  'pivot.columns': 'Columns',
+  'pivot.none': 'None',
+  'pivot.values': 'Values',
+  'pivot.addValue': 'Add value',
+  'pivot.removeValue': 'Remove value',
+  'pivot.noRecords': 'No records to group.',
+  'pivot.day': 'Day',
+  'pivot.week': 'Week',
+  'pivot.month': 'Month',
+  'pivot.weekOf': 'Week of {date}',
+  'pivot.bucketed': '{column} ({bucket})',
+  'pivot.sum': 'Sum',
+  'pivot.count': 'Count',
+  'pivot.avg': 'Average',
+  'pivot.min': 'Min',
+  'pivot.max': 'Max',
+  'pivot.entries': 'Entries',
+  'pivot.measure': '{aggregation} of {column}',
+  'pivot.total': 'Total · {measure}',
+
+  'columns.title': 'Columns',
+  'columns.shown': '{visible} of {total} shown · saved on this device',
+  'columns.moveUp': 'Move up',
+  'columns.moveDown': 'Move down',
+  'columns.sheetColumn': 'Sheet column: {key}',
+  'columns.unpin': 'Unpin',
+  'columns.pin': 'Pin to the left',
+  'columns.show': 'Show',
+  'columns.hide': 'Hide',
+  'columns.defaults': 'Defaults',
+  'columns.save': 'Save',
+
+  'dashboard.entries': 'Entries',
+  'dashboard.totalAmount': 'Total amount',
+  'dashboard.activeDays': 'Active days',
+  'dashboard.averagePerDay': 'Average per day',
+  'dashboard.entriesPerDay': 'Entries per day',
+  'dashboard.amountPerDay': 'Amount per day',
+  'dashboard.trendHint': 'By {column} · click a point to see that day',
+  'dashboard.topCategories': 'Top categories',
+  'dashboard.categoryHint': 'Click a bar to filter the table',
+
+  'charts.noDates': 'No dated entries to chart.',
+  'charts.noValues': 'No values to chart.',
+  'charts.clearFilter': 'Clear this filter',
+  'charts.filterTo': 'Filter to {value}'
+};
+
+export type MessageKey = keyof typeof EN;
+
+const TA: Record<MessageKey, string> = {
+  'app.title': 'நிறுவன அறிக்கைகள்',
+  'app.configInvalid': 'அறிக்கை அமைப்பு தவறானது',
+  'language.label': 'மொழி',
+
+  'common.all': 'அனைத்தும்',
+  'common.close': 'மூடு',
+  'common.copied': 'நகலெடுக்கப்பட்டது',
+  'common.entries': '{count} பதிவுகள்',
+  'common.entry': '{count} பதிவு',
+  'common.cancel': 'ரத்து செய்',
+
+  'tab.dailySummary': 'தினசரி சுருக்கம்',
+  'tab.newSince': 'நீங்கள் கடைசியாகப் பார்த்த பிறகு {count} புதியவை',
+
+  'sync.lastSynced': 'கடைசி ஒத்திசைவு {time}',
+  'sync.never': 'இன்னும் ஒத்திசைக்கவில்லை',
+  'sync.offline': '{synced} / இணைப்பு இல்லை',
+  'sync.refreshing': '{synced}, புதுப்பிக்கிறது',
+  'sync.syncing': 'ஒத்திசைக்கிறது',
+  'sync.failed': '{synced} / ஒத்திசைவு தோல்வி',
+  'sync.justNow': 'இப்போதுதான்',
+
+  'report.subtitle': 'தளச் செயல்பாடுகளின் நிகழ்நேரக் கண்காணிப்பும் பகுப்பாய்வும்',
+  'report.loadFailed': '{title} ஏற்ற முடியவில்லை',
+  'report.retry': 'மீண்டும் முயற்சி',
+  'summary.subtitle': 'எல்லா அறிக்கைகளிலிருந்தும் ஒரு நாளின் வேலை, பொருட்கள், தேநீர், விசாரணைகள்',
+  'summary.allSites': 'எல்லா இடங்களும்',
+  'summary.date': 'தேதி',
+  'summary.site': 'இடம்',
+  'summary.refresh': 'புதுப்பி',
+  'summary.downloadPdf': 'PDF பதிவிறக்கு',
+  'summary.loadFailed': '{title} ஏற்ற முடியவில்லை: {error}',
+  'summary.fromCache': '{title} {time} ஒத்திசைத்த ஆஃப்லைன் நகலிலிருந்து.',
+  'summary.fromCacheUndated': '{title} முன்பு சேமித்த ஆஃப்லைன் நகலிலிருந்து.',
+  'summary.loading': 'எல்லா அறிக்கைகளும் ஏற்றப்படுகின்றன...',
+  'summary.noSiteColumn': '(எல்லா இடங்களும், இட நெடுவரிசை இல்லை)',
+  'summary.noEntries': 'இந்த நாளுக்குப் பதிவுகள் இல்லை.',
+  'summary.entries': 'பதிவுகள்',
+  'summary.people': 'நபர்கள்',
+  'summary.sources': 'மூலங்கள்',
+  'summary.parties': 'தரப்புகள்',
+  'summary.amount': 'தொகை',
+  'summary.unspecified': 'குறிப்பிடப்படவில்லை',
+
+  'view.table': 'அட்டவணை',
+  'view.pivot': 'சுருக்க அட்டவணை',
+  'view.stock': 'இருப்பு',
+  'view.muster': 'வருகைப் பதிவேடு',
+  'view.pipeline': 'விசாரணை நிலைகள்',
+  'view.payments': 'பணப் பரிவர்த்தனைகள்',
+
+  'filters.title': 'வடிகட்டிகள்',
+  'filters.add': 'வடிகட்டி சேர்',
+  'filters.analyze': 'பகுப்பாய்வு',
+  'filters.audit': 'தரவைச் சரிபார்',
+  'filters.none': 'வடிகட்டுவதற்கு ஏற்ற வகைத் தரவு இல்லை.',
+  'filters.column': 'நெடுவரிசை',
+  'filters.condition': 'நிபந்தனை',
+  'filters.anyOf': 'இவற்றில் ஏதேனும் ஒன்று',
+  'filters.noneOf': 'இவற்றில் எதுவும் இல்லை',
+  'filters.value': 'மதிப்பு',
+  'filters.from': 'முதல்',
+  'filters.to': 'வரை',
+  'filters.searchValues': '{count} மதிப்புகளில் தேடு',
+  'filters.selected': '{count} தேர்ந்தெடுக்கப்பட்டன',
+  'filters.blank': '(வெற்று)',
+  'filters.noValues': 'பொருந்தும் மதிப்புகள் இல்லை',
+  'filters.update': 'வடிகட்டியைப் புதுப்பி',
+  'filters.op.in': 'இது',
+  'filters.op.notIn': 'இது அல்ல',
+  'filters.op.contains': 'கொண்டுள்ளது',
+  'filters.op.equals': 'சமம்',
+  'filters.op.gt': 'இதைவிட அதிகம்',
+  'filters.op.lt': 'இதைவிடக் குறைவு',
+  'filters.op.between': 'இடையில்',
+  'filters.op.isEmpty': 'வெற்று',
+  'filters.op.isNotEmpty': 'வெற்று அல்ல',
+  'filters.op.on': 'அன்று',
+  'filters.op.after': 'பிறகு',
+  'filters.op.before': 'முன்',
+  'filters.describe': '{column}: {operator} {value}',
+  'filters.describeNone': '{column}: {operator}',
+  'filters.describeBetween': '{column}: {from} முதல் {to} வரை',
+  'filters.describeFrom': '{column}: {value} முதல்',
+  'filters.describeAtLeast': '{column}: குறைந்தது {value}',
+  'filters.describeUntil': '{column}: {value} வரை',
+  'filters.describeAtMost': '{column}: அதிகபட்சம் {value}',
+  'filters.or': 'அல்லது',
+
+  'date.all': 'எல்லா தேதிகளும்',
+  'date.today': 'இன்று',
+  'date.yesterday': 'நேற்று',
+  'date.thisWeek': 'இந்த வாரம்',
+  'date.thisMonth': 'இந்த மாதம்',
+  'date.lastMonth': 'கடந்த மாதம்',
+  'date.custom': 'தனிப்பயன்',
+  'date.to': 'வரை',
+
+  'table.title': 'முழுத் தரவுத் தொகுப்பு',
+  'table.columns': 'நெடுவரிசைகள்',
+  'table.show': 'காட்டு',
+  'table.entries': 'பதிவுகள்',
+  'table.loading': 'தரவு ஏற்றப்படுகிறது...',
+  'table.noData': 'தரவு எதுவும் இல்லை. மூல விரிதாளைச் சரிபார்க்கவும்.',
+  'table.noMatch': 'உங்கள் தேடலுக்குப் பொருந்தும் பதிவுகள் இல்லை.',
+  'table.showing': '{total} பதிவுகளில் {from} முதல் {to} வரை',
+  'table.previous': 'முந்தைய',
+  'table.next': 'அடுத்த',
+  'table.exportFailed': 'ஏற்றுமதி தோல்வியடைந்தது. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+  'search.placeholder': 'தேடு, எ.கா. site:anna qty>10',
+  'search.help': 'உரையைத் தேடவும், அல்லது நெடுவரிசை வாரியாகக் குறைக்கவும்: material:cement  qty>50  date:2024-05  -status:closed  "சரியான சொற்றொடர்"',
+
+  'export.button': 'ஏற்றுமதி',
+  'export.pdf': 'PDF ஆவணம்',
+  'export.xlsx': 'Excel பணிப்புத்தகம்',
+  'export.csv': 'CSV கோப்பு',
+  'export.json': 'JSON தரவு',
+
+  'share.button': 'பகிர்',
+  'share.hint': 'இந்தப் பதிவுகளின் சுருக்கத்தைப் பகிர்',
+  'share.shared': 'பகிரப்பட்டது',
+  'share.whatsapp': 'WhatsApp திறக்கப்பட்டது',
+
+  'copyLink.button': 'இணைப்பை நகலெடு',
+  'copyLink.prompt': 'இந்த இணைப்பை நகலெடுக்கவும்',
+
+  'views.button': 'காட்சிகள்',
+  'views.empty': 'சேமித்த காட்சிகள் இன்னும் இல்லை.',
+  'views.isDefault': 'இந்தத் தாவலின் இயல்புக் காட்சி (நீக்க அழுத்தவும்)',
+  'views.makeDefault': 'தாவலைத் திறக்கும்போது இந்தக் காட்சியைக் காட்டு',
+  'views.delete': 'காட்சியை நீக்கு',
+  'views.namePlaceholder': 'தற்போதைய காட்சியைச் சேமிக்கும் பெயர்…',
+  'views.save': 'காட்சியைச் சேமி',
+  'views.replace': 'இந்தப் பெயருள்ள காட்சியை மாற்று',
+  'views.replaceNote': 'இந்தப் பெயரில் சேமித்த காட்சி மாற்றப்படும்.',
+  'views.saved': '"{name}" சேமிக்கப்பட்டது',
+  'views.import': 'இறக்குமதி',
+  'views.imported': '{reports} அறிக்கைகளுக்கு {views} காட்சிகள் இறக்குமதி செய்யப்பட்டன',
+  'views.skipped': 'தெரியாத அறிக்கைகள் தவிர்க்கப்பட்டன: {ids}',
+  'views.importFailed': 'இறக்குமதி தோல்வி: {error}',
+
+  'entry.title': 'பதிவு விவரங்கள்',
+  'entry.position': '{total} இல் {index} · ← → விசைகளால் நகரலாம்',
+  'entry.previous': 'முந்தைய பதிவு',
+  'entry.next': 'அடுத்த பதிவு',
+  'entry.copy': 'உரையாக நகலெடு',
+  'entry.copyPrompt': 'இந்தப் பதிவை நகலெடுக்கவும்',
+  'entry.empty': 'விவரங்கள் இல்லை.',
+  'entry.sameDay': 'அதே நாளில் மற்ற அறிக்கைகளில் · {day}',
+  'entry.searching': 'மற்ற அறிக்கைகளில் தேடுகிறது…',
+  'entry.nothingElse': 'அன்று வேறு எதுவும் பதிவாகவில்லை.',
+  'entry.more': '…மேலும் {count}',
+  'entry.loadFailed': 'ஏற்ற முடியவில்லை: {reports}',
+
+  'refresh.hint': 'புதிய பதிவுகளுக்காக மூலத்தைப் பின்னணியில் சரிபார்',
+  'refresh.off': 'தானியங்கு புதுப்பிப்பு நிறுத்தம்',
+  'refresh.every': 'ஒவ்வொரு {minutes} நிமிடமும்',
+  'refresh.blocked': 'அறிவிப்புகள் தடுக்கப்பட்டுள்ளன',
+  'refresh.blockedHint': 'உலாவி அமைப்புகளில் இந்தத் தளத்துக்கு அறிவிப்புகளை அனுமதிக்கவும்',
+  'refresh.notify': 'எனக்கு அறிவி',
+
+  'changes.since': 'நீங்கள் கடைசியாகப் பார்த்த பிறகு:',
+  'changes.added': '{count} புதியவை',
+  'changes.modified': '{count} மாற்றப்பட்டவை',
+  'changes.removed': '{count} நீக்கப்பட்டவை',
+  'changes.dismiss': 'பார்த்ததாகக் குறி',
+
+  'parseIssues.skipped': '{count} வரிசைகள் தவிர்க்கப்பட்டன',
+  'parseIssues.skippedOne': '1 வரிசை தவிர்க்கப்பட்டது',
+  'parseIssues.repaired': '{count} வரிசைகள் சரிசெய்யப்பட்டன',
+  'parseIssues.repairedOne': '1 வரிசை சரிசெய்யப்பட்டது',
+  'parseIssues.show': 'விவரங்களைக் காட்டு',
+  'parseIssues.hide': 'விவரங்களை மறை',
+  'parseIssues.line': 'வரி',
+  'parseIssues.status': 'நிலை',
+  'parseIssues.reason': 'காரணம்',
+  'parseIssues.actionSkipped': 'தவிர்க்கப்பட்டது',
+  'parseIssues.actionRepaired': 'சரிசெய்யப்பட்டது',
+
+  'insights.title': 'நுண்ணறிவுகள்',
+  'insights.noMatch': 'தற்போதைய வடிகட்டிகளுக்குப் பொருந்தும் பதிவுகள் இல்லை.',
+  'insights.entries': 'பதிவுகள்',
+  'insights.total': 'மொத்த {column}',
+  'insights.totalAmount': 'மொத்தத் தொகை',
+  'insights.summary': 'சுருக்கம் · {provider}',
+  'insights.summarize': 'எளிய சொற்களில் சுருக்கு',
+  'insights.summarizing': 'சுருக்குகிறது...',
+  'insights.summaryFailed': 'இப்போது சுருக்கத்தை உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'insights.trend': 'தினசரிப் போக்கு · {column}',
+  'insights.versus': '{date} உடன் ஒப்பிட {change}%',
+  'insights.top': 'முன்னணி {column}',
+  'insights.by': '{column} வாரியாக',
+  'insights.outliers': 'வழக்கத்துக்கு மாறானவை',
+  'insights.noOutliers': 'எண் நெடுவரிசைகளில் வழக்கத்துக்கு மாறானது எதுவும் இல்லை.',
+  'insights.outlierValue': '{value}',
+  'insights.typical': '(வழக்கமாக {median})',
+
+  'payments.none': 'பணப் பதிவுகள் இல்லை. அறிக்கையின் பண அமைப்புகளில் தரப்பு, தொகை நெடுவரிசைகளைச் சரிபார்க்கவும்.',
+  'payments.billed': 'பில் தொகை',
+  'payments.paid': 'செலுத்தியது',
+  'payments.outstanding': 'நிலுவை',
+  'payments.ageing': 'செலுத்தப்படாத பில்களின் காலம்',
+  'payments.asOf': 'தேதி',
+  'payments.asOfDate': '{date} நிலவரப்படி',
+  'payments.settled': 'எல்லா பில்களும் செலுத்தப்பட்டுவிட்டன.',
+  'payments.age30': '0–30 நாட்கள்',
+  'payments.age60': '31–60 நாட்கள்',
+  'payments.ageOver60': '60+ நாட்கள்',
+  'payments.skipped': '{count} பதிவுகள் தவிர்க்கப்பட்டன (தரப்பு அல்லது தொகை இல்லை, அல்லது பில்லாகவோ செலுத்தலாகவோ அடையாளம் காணப்படவில்லை).',
+  'payments.skippedOne': '1 பதிவு தவிர்க்கப்பட்டது (தரப்பு அல்லது தொகை இல்லை, அல்லது பில்லாகவோ செலுத்தலாகவோ அடையாளம் காணப்படவில்லை).',
+  'payments.byParty': 'தரப்பு வாரியான நிலுவை',
+  'payments.parties': '{count} தரப்புகள் · கணக்கு அறிக்கைக்குத் தரப்பை அழுத்தவும்',
+  'payments.partiesOne': '1 தரப்பு · கணக்கு அறிக்கைக்கு அதை அழுத்தவும்',
+  'payments.party': 'தரப்பு',
+  'payments.lastPaid': 'கடைசிச் செலுத்தல்',
+  'payments.advance': '{amount} முன்பணம்',
+  'payments.statement': 'கணக்கு அறிக்கை · {party}',
+  'payments.statementPdf': 'கணக்கு அறிக்கை PDF',
+  'payments.date': 'தேதி',
+  'payments.particulars': 'விவரங்கள்',
+  'payments.balance': 'இருப்பு',
+
+  'quality.title': 'தரவுத் தரம்',
+  'quality.clean': '{rows} வரிசைகளில் சிக்கல் எதுவும் இல்லை.',
+  'quality.found': '{rows} வரிசைகளில் {issues} சிக்கல்கள். வரிசை எண்கள் விரிதாளின் வரிசைகள்; தலைப்பு வரிசை 1.',
+  'quality.foundOne': '{rows} வரிசைகளில் 1 சிக்கல். வரிசை எண்கள் விரிதாளின் வரிசைகள்; தலைப்பு வரிசை 1.',
+  'quality.row': 'வரிசை {row}',
+  'quality.more': '+மேலும் {count}',
+  'quality.duplicate': 'நகல் வரிசைகள்',
+  'quality.nearDuplicate': 'கிட்டத்தட்ட நகலான வரிசைகள்',
+  'quality.empty': 'வெற்றுக் கலங்கள்',
+  'quality.badDate': 'படிக்க முடியாத தேதிகள்',
+  'quality.futureDate': 'எதிர்காலத் தேதிகள்',
+  'quality.notNumeric': 'எண் அல்லாதவை',
+  'quality.outlier': 'வழக்கத்துக்கு மாறான மதிப்புகள்',
+  'quality.spelling': 'எழுத்து வேறுபாடுகள்',
+  'quality.duplicateDetail': '{count} ஒரே மாதிரியான வரிசைகள்',
+  'quality.nearDuplicateDetail': 'எழுத்தளவு, இடைவெளி அல்லது சமர்ப்பித்த நேரத்தில் மட்டும் வேறுபடும் {count} வரிசைகள்',
+  'quality.emptyDetail': '{count} வெற்று',
+  'quality.emptyRequiredDetail': '{count} வெற்று, ஆனால் இந்த நெடுவரிசை கட்டாயம்',
+  'quality.badDateDetail': '{count} தேதியாகப் படிக்க முடியவில்லை, எ.கா. {examples}',
+  'quality.futureDateDetail': '{count} இன்றைக்குப் பிறகு, எ.கா. {examples}',
+  'quality.notNumericDetail': '{count} எண் அல்ல, எ.கா. {examples}',
+  'quality.outlierDetail': '{count} வழக்கமான {median} ஐ விட மிக அதிகம், அதிகபட்சம் {largest}',
+  'quality.spellingDetail': '{variants} என்பது {leader} ஆக இருக்கலாம்',
+
+  'muster.period': '{start} முதல் {end} வரை',
+  'muster.title': 'வருகைப் பதிவேடு',
+  'muster.workers': '{count} தொழிலாளர்கள்',
+  'muster.workersOne': '1 தொழிலாளர்',
+  'muster.manDays': '{count} ஆள்-நாட்கள்',
+  'muster.unpriced': '{count} பேருக்கு தினக்கூலி இல்லை',
+  'muster.skipped': '{count} பதிவுகள் தவிர்க்கப்பட்டன (பெயர் இல்லை)',
+  'muster.skippedOne': '1 பதிவு தவிர்க்கப்பட்டது (பெயர் இல்லை)',
+  'muster.week': 'வாரம்',
+  'muster.month': 'மாதம்',
+  'muster.previous': 'முந்தையது',
+  'muster.next': 'அடுத்தது',
+  'muster.empty': '{period} காலத்தில் வருகை இல்லை.',
+  'muster.name': 'பெயர்',
+  'muster.trade': 'தொழில்',
+  'muster.days': 'நாட்கள்',
+  'muster.rate': 'தினக்கூலி',
+  'muster.amount': 'தொகை',
+  'muster.headcount': 'ஆள் எண்ணிக்கை',
+  'muster.headcountNote': '{columns} இலிருந்து ஆள்-நாட்கள்; P = ஒரு முழு நாள், H = அரை நாள்.',
+  'muster.marksNote': 'P = முழு நாள், H = அரை நாள்.',
+  'muster.filtersNote': 'மேலே உள்ள வடிகட்டிகள் பயன்படுத்தப்படுகின்றன; தேதி வரம்புக்குப் பதிலாக இங்கே தேர்ந்தெடுத்த காலம் எடுக்கப்படுகிறது.',
+
+  'pipeline.noSource': 'மூலம் இல்லை',
+  'pipeline.noDate': 'தேதி இல்லை',
+  'pipeline.nothing': 'இங்கே எதுவும் இல்லை.',
+  'pipeline.followUps': 'பின்தொடர்வுகள்',
+  'pipeline.enquiries': '{count} விசாரணைகள்',
+  'pipeline.enquiriesOne': '1 விசாரணை',
+  'pipeline.wonSummary': '{count} வெற்றி · {rate} மாற்றம்',
+  'pipeline.localOnly': 'இங்கே அமைக்கும் நிலைகள், பின்தொடர்வுத் தேதிகள், குறிப்புகள் இந்தச் சாதனத்தில் மட்டுமே சேமிக்கப்படும்.',
+  'pipeline.overdue': 'காலம் கடந்தவை',
+  'pipeline.dueToday': 'இன்று செய்ய வேண்டியவை',
+  'pipeline.dateUnknown': 'தேதி தெரியவில்லை',
+  'pipeline.received': 'பெறப்பட்டது {date}',
+  'pipeline.sheetSays': 'தாளில் "{status}"',
+  'pipeline.noStatus': 'நிலை இல்லை',
+  'pipeline.showEntry': 'முழுப் பதிவைக் காட்டு',
+  'pipeline.stage': 'நிலை',
+  'pipeline.followUpOn': 'பின்தொடர வேண்டிய தேதி',
+  'pipeline.notes': 'குறிப்புகள்',
+  'pipeline.deleteNote': 'குறிப்பை நீக்கு',
+  'pipeline.notePlaceholder': 'திரும்ப அழைத்தார், வெள்ளிக்குள் விலைப்பட்டியல் வேண்டும்…',
+  'pipeline.addNote': 'குறிப்பைச் சேர்',
+  'pipeline.funnel': 'புனல்',
+  'pipeline.conversion': 'மாற்றம்',
+  'pipeline.bySource': 'மூலம் வாரியாக',
+  'pipeline.byMonth': 'மாதம் வாரியாக',
+  'pipeline.source': 'மூலம்',
+  'pipeline.month': 'மாதம்',
+  'pipeline.enquiriesColumn': 'விசாரணைகள்',
+  'pipeline.won': 'வெற்றி',
+  'pipeline.lost': 'தோல்வி',
+  'pipeline.noMatches': 'வடிகட்டிகளுக்குப் பொருந்தும் விசாரணைகள் இல்லை.',
+
+  'schema.invalidCells': '{rows} வரிசைகளில் {cells} கலங்கள் அறிக்கை அமைப்புடன் பொருந்தவில்லை',
+  'schema.invalidCellsOneRow': '1 வரிசையில் {cells} கலங்கள் அறிக்கை அமைப்புடன் பொருந்தவில்லை',
+  'schema.invalidCellOne': '1 கலம் அறிக்கை அமைப்புடன் பொருந்தவில்லை',
+  'schema.missingColumns': 'இல்லாத நெடுவரிசைகள்: {columns}',
+  'schema.missingColumnOne': 'இல்லாத நெடுவரிசை: {columns}',
+  'schema.column': 'நெடுவரிசை',
+  'schema.problem': 'பிரச்சனை',
+  'schema.cells': 'கலங்கள்',
+  'schema.example': 'எ.கா. {example}',
+  'schema.required': 'தேவையான மதிப்பு இல்லை',
+  'schema.notDateIn': '{format} வடிவத்தில் தேதி இல்லை',
+  'schema.notDate': 'அடையாளம் காணக்கூடிய தேதி இல்லை',
+  'schema.notNumber': 'எண் இல்லை',
+  'schema.notLink': 'இணைய இணைப்பு இல்லை',
+  'schema.notAllowed': 'அனுமதிக்கப்பட்ட மதிப்புகளில் ஒன்று இல்லை',
+
+  'file.title': 'உள்ளூர் கோப்பு',
+  'file.showing': 'காட்டப்படுவது',
+  'file.prompt': 'இங்கே பார்க்க ஒரு CSV அல்லது JSON ஏற்றுமதியைத் தேர்ந்தெடுக்கவும்.',
+  'file.chooseAnother': 'வேறு கோப்பைத் தேர்ந்தெடு',
+  'file.choose': 'கோப்பைத் தேர்ந்தெடு',
+
+  'stock.none': 'இருப்பு நகர்வுகள் இல்லை. அறிக்கையின் இருப்பு அமைப்புகளில் பொருள், அளவு, திசை நெடுவரிசைகளைச் சரிபார்க்கவும்.',
+  'stock.current': 'தற்போதைய இருப்பு',
+  'stock.materials': '{count} பொருட்கள்',
+  'stock.materialsOne': '1 பொருள்',
+  'stock.low': '{count} மறு ஆர்டர் அளவுக்குக் கீழே',
+  'stock.skipped': '{count} பதிவுகள் தவிர்க்கப்பட்டன (பொருள், அளவு அல்லது திசை இல்லை)',
+  'stock.skippedOne': '1 பதிவு தவிர்க்கப்பட்டது (பொருள், அளவு அல்லது திசை இல்லை)',
+  'stock.allEntries': 'மேலே உள்ள வடிகட்டிகளைப் பொருட்படுத்தாமல், இருப்புகள் அறிக்கையின் எல்லா பதிவுகளையும் கணக்கிடுகின்றன.',
+  'stock.ledgerPdf': 'பேரேடு PDF',
+  'stock.material': 'பொருள்',
+  'stock.site': 'இடம்',
+  'stock.inward': 'வரவு',
+  'stock.outward': 'செலவு',
+  'stock.balance': 'இருப்பு',
+  'stock.reorderLevel': 'மறு ஆர்டர் அளவு',
+  'stock.lastMovement': 'கடைசி நகர்வு',
+  'stock.levelEverySite': 'எல்லா இடங்களிலும் இந்தப் பொருளுக்குப் பொருந்தும்',
+  'stock.history': 'நகர்வு வரலாறு',
+  'stock.allSites': '{material} · எல்லா இடங்களும்',
+  'stock.noSite': 'இடம் இல்லை',
+  'stock.date': 'தேதி',
+  'stock.latest': '{total} நகர்வுகளில் சமீபத்திய {count} காட்டப்படுகின்றன; பேரேடு PDF எல்லாவற்றையும் பட்டியலிடுகிறது.',
+
+  'pivot.title': 'பிவட்',
+  'pivot.groups': '{entries} பதிவுகளிலிருந்து {groups} குழுக்கள்',
+  'pivot.rows': 'வரிசைகள்',
+  'pivot.columns': 'நெடுவரிசைகள்',
+  'pivot.none': 'எதுவும் இல்லை',
+  'pivot.values': 'மதிப்புகள்',
+  'pivot.addValue': 'மதிப்பைச் சேர்',
+  'pivot.removeValue': 'மதிப்பை நீக்கு',
+  'pivot.noRecords': 'குழுவாக்கப் பதிவுகள் இல்லை.',
+  'pivot.day': 'நாள்',
+  'pivot.week': 'வாரம்',
+  'pivot.month': 'மாதம்',
+  'pivot.weekOf': '{date} வாரம்',
+  'pivot.bucketed': '{column} ({bucket})',
+  'pivot.sum': 'கூட்டுத்தொகை',
+  'pivot.count': 'எண்ணிக்கை',
+  'pivot.avg': 'சராசரி',
+  'pivot.min': 'குறைந்தபட்சம்',
+  'pivot.max': 'அதிகபட்சம்',
+  'pivot.entries': 'பதிவுகள்',
+  'pivot.measure': '{column} - {aggregation}',
+  'pivot.total': 'மொத்தம் · {measure}',
+
+  'columns.title': 'நெடுவரிசைகள்',
+  'columns.shown': '{total} இல் {visible} காட்டப்படுகின்றன · இந்தச் சாதனத்தில் சேமிக்கப்படும்',
+  'columns.moveUp': 'மேலே நகர்த்து',
+  'columns.moveDown': 'கீழே நகர்த்து',
+  'columns.sheetColumn': 'தாள் நெடுவரிசை: {key}',
+  'columns.unpin': 'பொருத்தத்தை நீக்கு',
+  'columns.pin': 'இடப்பக்கம் பொருத்து',
+  'columns.show': 'காட்டு',
+  'columns.hide': 'மறை',
+  'columns.defaults': 'இயல்புநிலைகள்',
+  'columns.save': 'சேமி',
+
+  'dashboard.entries': 'பதிவுகள்',
+  'dashboard.totalAmount': 'மொத்தத் தொகை',
+  'dashboard.activeDays': 'செயல்பட்ட நாட்கள்',
+  'dashboard.averagePerDay': 'நாள் சராசரி',
+  'dashboard.entriesPerDay': 'நாளுக்கான பதிவுகள்',
+  'dashboard.amountPerDay': 'நாளுக்கான தொகை',
+  'dashboard.trendHint': '{column} வாரியாக · அந்த நாளைப் பார்க்க ஒரு புள்ளியை அழுத்தவும்',
+  'dashboard.topCategories': 'முதன்மை வகைகள்',
+  'dashboard.categoryHint': 'அட்டவணையை வடிகட்ட ஒரு பட்டையை அழுத்தவும்',
+
+  'charts.noDates': 'வரைபடத்துக்குத் தேதியிட்ட பதிவுகள் இல்லை.',
+  'charts.noValues': 'வரைபடத்துக்கு மதிப்புகள் இல்லை.',
+  'charts.clearFilter': 'இந்த வடிகட்டியை நீக்கு',
+  'charts.filterTo': '{value} மட்டும் காட்டு'
+};
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en: EN, ta: TA };
+
+const STORAGE_KEY = 'language';
+
+// The saved choice, otherwise Tamil for phones set to Tamil
+const initialLanguage = (): Language => {
+  const saved = readJSON<Language | null>(STORAGE_KEY, null);
+  if (saved && saved in CATALOGUES) return saved;
+  return typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('ta') ? 'ta' : 'en';
+};
+
+let language: Language = initialLanguage();
+if (typeof document !== 'undefined') document.documentElement.lang = language;
+
+export const getLanguage = () => language;
+
+// The caller re-renders the page; components read the text through t() as they render
+export const setLanguage = (next: Language) => {
+  language = next;
+  writeJSON(STORAGE_KEY, next);
+  if (typeof document !== 'undefined') document.documentElement.lang = next;
+};
+
+// Month and weekday names follow the UI language
+const INTL_LOCALES: Record<Language, string> = { en: 'en-IN', ta: 'ta-IN' };
+
+export const getIntlLocale = (lang: Language = language) => INTL_LOCALES[lang];
+
+// Pass a language to get text for a file rather than the screen
+export const t = (key: MessageKey, values: Record<string, string | number> = {}, lang: Language = language): string =>
+  CATALOGUES[lang][key].replace(/\{(\w+)\}/g, (match, name) => name in values ? String(values[name]) : match);
+
+// Short "5 min ago" style label for sync timestamps
+export const formatRelativeTime = (timestamp: number, now: number = Date.now()): string => {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return t('sync.justNow');
+  const format = new Intl.RelativeTimeFormat(getIntlLocale(), { style: 'short' });
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return format.format(-minutes, 'minute');
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return format.format(-hours, 'hour');
+  return format.format(-Math.floor(hours / 24), 'day');
+};
+
+// The locale of the report on screen. Components read it to format that report's dates and amounts;
+// the Daily Summary, which shows several reports, passes each report's own locale instead.
+export const LocaleContext = createContext<LocaleConfig | undefined>(undefined);
+
+export const useLocale = (): LocaleConfig | undefined => useContext(LocaleContext);
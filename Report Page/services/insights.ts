@@ -0,0 +1,127 @@
+import { LogEntry, ColumnDefinition, InsightReport, CategoryBreakdown, TrendPoint, Outlier, ValueTally } from '../types';
+import { calculateTotalAmount, findAmountKey, parseAmount, getMainDateColumn, cellText } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+
+// Columns that name a person or party; used for "top contributors"
+const CONTRIBUTOR_PATTERN = /\b(name|worker|labou?r|supplier|vendor|party|contractor|staff|person|by)\b/i;
+
+const MAX_BREAKDOWNS = 3;
+const MAX_CATEGORY_VALUES = 20;
+const TOP_ITEMS = 5;
+const MAX_OUTLIERS = 10;
+// How far above the upper quartile (in interquartile ranges) a value must sit to be flagged
+const OUTLIER_IQR_FACTOR = 3;
+
+// Count (and sum the amount column) per distinct value, largest first
+export const tallyColumn = (data: LogEntry[], key: string, amountKey?: string): ValueTally[] => {
+  const map = new Map<string, ValueTally>();
+  data.forEach(row => {
+    const value = cellText(row[key]);
+    if (!value.trim()) return;
+    const item = map.get(value) || { value, count: 0, amount: 0 };
+    item.count += 1;
+    if (amountKey) item.amount += parseAmount(row[amountKey]) || 0;
+    map.set(value, item);
+  });
+  return Array.from(map.values()).sort((a, b) => (b.amount - a.amount) || (b.count - a.count));
+};
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+// Values sitting far above the column's upper quartile, with the column's median for comparison
+export const findColumnOutliers = (data: LogEntry[], col: ColumnDefinition) => {
+  const values = data
+    .map((row, index) => ({ row, index, value: parseAmount(row[col.key]) }))
+    .filter(item => !isNaN(item.value));
+  if (values.length < 5) return null;
+
+  const sorted = values.map(v => v.value).sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  if (iqr <= 0) return null;
+
+  const limit = q3 + OUTLIER_IQR_FACTOR * iqr;
+  return { median: quantile(sorted, 0.5), items: values.filter(item => item.value > limit) };
+};
+
+const findOutliers = (data: LogEntry[], columns: ColumnDefinition[]): Outlier[] => {
+  const outliers: Outlier[] = [];
+
+  columns.filter(col => col.isNumeric).forEach(col => {
+    const found = findColumnOutliers(data, col);
+    found?.items.forEach(item => outliers.push({ column: col.label, value: item.value, median: found.median, entry: item.row }));
+  });
+
+  // Most extreme relative to their column first
+  return outliers
+    .sort((a, b) => (b.value / (b.median || 1)) - (a.value / (a.median || 1)))
+    .slice(0, MAX_OUTLIERS);
+};
+
+// Entries and amount per calendar day, oldest first
+export const buildDailyTrend = (data: LogEntry[], dateKey: string, amountKey?: string): TrendPoint[] => {
+  const days = new Map<number, TrendPoint>();
+  data.forEach(row => {
+    const timestamp = getRowTimestamp(row, dateKey);
+    if (isNaN(timestamp)) return;
+    const d = new Date(timestamp);
+    const day = new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+    const point = days.get(day) || { date: day, count: 0, amount: 0 };
+    point.count += 1;
+    if (amountKey) point.amount += parseAmount(row[amountKey]) || 0;
+    days.set(day, point);
+  });
+  return Array.from(days.values()).sort((a, b) => a.date - b.date);
+};
+
+// Rule-based summary of the rows currently on screen
+export const buildInsights = (data: LogEntry[], columns: ColumnDefinition[]): InsightReport => {
+  const amountKey = data.length > 0 ? findAmountKey(Object.keys(data[0])) : undefined;
+  const dateColumn = getMainDateColumn(columns);
+
+  const textColumns = columns.filter(col => !col.isDate && !col.isNumeric && !/e-?mail/i.test(col.key));
+  const contributorColumn = textColumns.find(col => CONTRIBUTOR_PATTERN.test(col.key));
+
+  const breakdowns: CategoryBreakdown[] = [];
+  for (const col of textColumns) {
+    if (breakdowns.length >= MAX_BREAKDOWNS) break;
+    if (col === contributorColumn) continue;
+    const items = tallyColumn(data, col.key, amountKey);
+    if (items.length < 2 || items.length > MAX_CATEGORY_VALUES) continue;
+    breakdowns.push({ column: col.label, items: items.slice(0, TOP_ITEMS) });
+  }
+
+  return {
+    entryCount: data.length,
+    totalAmount: calculateTotalAmount(data),
+    amountColumn: amountKey,
+    breakdowns,
+    topContributors: contributorColumn
+      ? { column: contributorColumn.label, items: tallyColumn(data, contributorColumn.key, amountKey).slice(0, TOP_ITEMS) }
+      : null,
+    trend: dateColumn ? { column: dateColumn.label, points: buildDailyTrend(data, dateColumn.key, amountKey) } : null,
+    outliers: findOutliers(data, columns)
+  };
+};
+
+// Latest day compared with the day before it, by amount when the report has one
+export const getDayOverDayChange = (report: InsightReport) => {
+  const points = report.trend?.points || [];
+  if (points.length < 2) return null;
+  const latest = points[points.length - 1];
+  const previous = points[points.length - 2];
+  const metric = report.amountColumn ? 'amount' : 'count';
+  const base = previous[metric];
+  return {
+    latest,
+    previous,
+    metric,
+    change: base === 0 ? null : ((latest[metric] - base) / base) * 100
+  } as const;
+};
@@ -0,0 +1,226 @@
+import { LogEntry, ColumnDefinition, LocaleConfig, MusterConfig, MusterPeriod, MusterRoll, MusterWorker, ReportConfig } from '../types';
+import { cellText, formatDisplayDate, getMainDateColumn, parseAmount } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+import { readJSON, writeJSON } from './storage';
+import { Language, getIntlLocale, t } from './i18n';
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const findColumn = (columns: ColumnDefinition[], configured: string | undefined, pattern: RegExp) =>
+  configured
+    ? columns.find(col => normalize(col.key) === normalize(configured))
+    : columns.find(col => pattern.test(col.key));
+
+export const getMusterColumns = (columns: ColumnDefinition[], config: MusterConfig) => ({
+  worker: findColumn(columns, config.worker, /name|worker|labour|employee/i),
+  trade: findColumn(columns, config.trade, /trade|role|designation|skill/i),
+  day: config.day ? columns.find(col => normalize(col.key) === normalize(config.day!.column)) : undefined,
+  headcount: (config.headcount || [])
+    .map(name => columns.find(col => normalize(col.key) === normalize(name)))
+    .filter((col): col is ColumnDefinition => !!col),
+  date: getMainDateColumn(columns)
+});
+
+// First and last day of the week (Monday to Sunday) or calendar month containing `anchor`
+export const getPeriodRange = (anchor: number, period: MusterPeriod) => {
+  const d = new Date(anchor);
+  if (period === 'month') {
+    return { start: new Date(d.getFullYear(), d.getMonth(), 1).getTime(), end: new Date(d.getFullYear(), d.getMonth() + 1, 0).getTime() };
+  }
+  const monday = d.getDate() - (d.getDay() + 6) % 7;
+  return { start: new Date(d.getFullYear(), d.getMonth(), monday).getTime(), end: new Date(d.getFullYear(), d.getMonth(), monday + 6).getTime() };
+};
+
+export const shiftPeriod = (anchor: number, period: MusterPeriod, step: number): number => {
+  const d = new Date(anchor);
+  return period === 'month'
+    ? new Date(d.getFullYear(), d.getMonth() + step, 1).getTime()
+    : new Date(d.getFullYear(), d.getMonth(), d.getDate() + step * 7).getTime();
+};
+
+// Short day name such as "Mon", in the UI language unless one is given
+export const formatWeekday = (day: number, lang?: Language) =>
+  new Date(day).toLocaleDateString(getIntlLocale(lang), { weekday: 'short' });
+
+// "March 2024", or the week's first and last dates in the report's format; exports ask for English
+export const formatPeriod = (anchor: number, period: MusterPeriod, locale?: LocaleConfig, lang?: Language) => {
+  if (period === 'month') return new Date(anchor).toLocaleDateString(getIntlLocale(lang), { month: 'long', year: 'numeric' });
+  const { start, end } = getPeriodRange(anchor, period);
+  return t('muster.period', { start: formatDisplayDate(start, locale), end: formatDisplayDate(end, locale) }, lang);
+};
+
+// How much of a day one entry counts for: hours against the full/half thresholds when configured,
+// otherwise a half day when the day column mentions one of the half-day values
+const createDayRule = (config: MusterConfig, dayKey?: string) => {
+  const rule = config.day;
+  if (!rule || !dayKey) return () => 1;
+
+  if (rule.fullHours !== undefined) {
+    return (row: LogEntry) => {
+      const hours = parseAmount(row[dayKey]);
+      if (isNaN(hours) || hours >= rule.fullHours!) return 1;
+      return hours >= (rule.halfHours ?? 0) && hours > 0 ? 0.5 : 0;
+    };
+  }
+
+  const half = (rule.half || []).map(normalize);
+  return (row: LogEntry) => {
+    const value = normalize(cellText(row[dayKey]));
+    return half.some(item => value.includes(item)) ? 0.5 : 1;
+  };
+};
+
+const wagesKey = (reportId: string) => `wages:${reportId}`;
+
+// Daily rates set in the Muster Roll view, by worker name (or trade, see MusterWorker.rateKey)
+export const loadWageRates = (report: ReportConfig): Record<string, number> =>
+  readJSON<Record<string, number>>(wagesKey(report.id), {});
+
+export const saveWageRate = (report: ReportConfig, rateKey: string, rate: number | null) => {
+  const saved = loadWageRates(report);
+  const next = Object.fromEntries(Object.entries(saved).filter(([key]) => normalize(key) !== normalize(rateKey)));
+  if (rate !== null) next[rateKey] = rate;
+  writeJSON(wagesKey(report.id), next);
+};
+
+const lookup = (rates: Record<string, number> | undefined, name: string) => {
+  if (!rates || !name) return undefined;
+  const match = Object.keys(rates).find(key => normalize(key) === normalize(name));
+  return match === undefined ? undefined : rates[match];
+};
+
+// A rate set in the view wins, then the configured worker rate, the trade rate and the default
+const resolveRate = (config: MusterConfig, saved: Record<string, number>, worker: string, trade: string) =>
+  lookup(saved, worker) ?? lookup(config.wages?.workers, worker) ?? lookup(config.wages?.trades, trade) ?? config.wages?.default;
+
+// A headcount column's labourers are paid that trade's rate, whoever's entry counted them
+const resolveTradeRate = (config: MusterConfig, saved: Record<string, number>, col: ColumnDefinition) =>
+  lookup(saved, col.label) ?? lookup(config.wages?.trades, col.key) ?? lookup(config.wages?.trades, col.label) ?? config.wages?.default;
+
+// Labourers of one trade an entry covers; blanks count as none
+const countHeads = (row: LogEntry, col: ColumnDefinition) => Math.max(0, Math.floor(parseAmount(row[col.key] ?? null) || 0));
+
+// Worker × day grid for the period. Without headcount columns, several entries by one worker on one day
+// add up to at most a full day; with them, each worker has a line per trade and each entry adds that
+// trade's person-days.
+export const buildMusterRoll = (
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  config: MusterConfig,
+  anchor: number,
+  period: MusterPeriod,
+  savedRates: Record<string, number> = {}
+): MusterRoll => {
+  const cols = getMusterColumns(columns, config);
+  const { start, end } = getPeriodRange(anchor, period);
+  const days: number[] = [];
+  for (let d = new Date(start); d.getTime() <= end; d.setDate(d.getDate() + 1)) days.push(d.getTime());
+
+  const roll: MusterRoll = { days, workers: [], headcount: days.map(() => 0), totalDays: 0, totalPayable: 0, unpriced: 0, skipped: 0 };
+  if (!cols.worker || !cols.date) return roll;
+
+  const dayRule = createDayRule(config, cols.day?.key);
+  const workers = new Map<string, MusterWorker>();
+  const tradeRates = new Map<string, number | undefined>();
+  const getLine = (name: string, trade: string, rateKey: string) => {
+    const key = `${normalize(name)}\u0000${trade}`;
+    let worker = workers.get(key);
+    if (!worker) {
+      worker = { name, trade, rateKey, attendance: days.map(() => 0), daysWorked: 0 };
+      workers.set(key, worker);
+    }
+    return worker;
+  };
+
+  data.forEach(row => {
+    const timestamp = getRowTimestamp(row, cols.date!.key);
+    if (isNaN(timestamp)) return;
+    const day = new Date(timestamp);
+    const index = days.indexOf(new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime());
+    if (index === -1) return;
+
+    const name = cellText(row[cols.worker!.key]).trim();
+    if (!name) {
+      roll.skipped += 1;
+      return;
+    }
+
+    if (cols.headcount.length > 0) {
+      cols.headcount.forEach(col => {
+        const heads = countHeads(row, col);
+        if (heads === 0) return;
+        const worker = getLine(name, col.label, col.label);
+        tradeRates.set(col.label, resolveTradeRate(config, savedRates, col));
+        worker.attendance[index] += heads * dayRule(row);
+      });
+      return;
+    }
+
+    const worker = getLine(name, '', name);
+    if (!worker.trade && cols.trade) worker.trade = cellText(row[cols.trade.key]).trim();
+    worker.attendance[index] = Math.min(1, worker.attendance[index] + dayRule(row));
+  });
+
+  roll.workers = Array.from(workers.values())
+    .map(worker => {
+      const daysWorked = worker.attendance.reduce((sum, value) => sum + value, 0);
+      const rate = cols.headcount.length > 0 ? tradeRates.get(worker.trade) : resolveRate(config, savedRates, worker.name, worker.trade);
+      return { ...worker, daysWorked, rate, payable: rate === undefined ? undefined : daysWorked * rate };
+    })
+    .filter(worker => worker.daysWorked > 0)
+    .sort((a, b) => a.trade.localeCompare(b.trade) || a.name.localeCompare(b.name));
+
+  roll.workers.forEach(worker => {
+    worker.attendance.forEach((value, index) => {
+      if (value > 0) roll.headcount[index] += value;
+    });
+    roll.totalDays += worker.daysWorked;
+    if (worker.payable === undefined) roll.unpriced += 1;
+    else roll.totalPayable += worker.payable;
+  });
+  return roll;
+};
+
+const formatDays = (value: number) => String(Math.round(value * 100) / 100);
+
+// P and H for one person's full and half day; a count of person-days otherwise
+export const formatAttendance = (value: number) => value === 1 ? 'P' : value === 0.5 ? 'H' : value > 0 ? formatDays(value) : '';
+
+// The grid as plain columns and rows, with a totals row at the end, for the CSV and PDF exports.
+// Amounts are left unformatted so the accountant's spreadsheet can add them up.
+export const getMusterTable = (roll: MusterRoll) => {
+  const hasTrade = roll.workers.some(worker => worker.trade);
+  const dayColumns: ColumnDefinition[] = roll.days.map(day => {
+    const d = new Date(day);
+    return { key: `day:${day}`, label: `${String(d.getDate()).padStart(2, '0')} ${formatWeekday(day, 'en')}` };
+  });
+  const columns: ColumnDefinition[] = [
+    { key: 'sno', label: 'S.No' },
+    { key: 'name', label: 'Name' },
+    ...(hasTrade ? [{ key: 'trade', label: 'Trade' }] : []),
+    ...dayColumns,
+    { key: 'days', label: 'Days', isNumeric: true },
+    { key: 'rate', label: 'Daily rate', isNumeric: true, type: 'currency' },
+    { key: 'payable', label: 'Amount', isNumeric: true, type: 'currency' }
+  ];
+
+  const rows: LogEntry[] = roll.workers.map((worker, index) => ({
+    sno: index + 1,
+    name: worker.name,
+    trade: worker.trade,
+    ...Object.fromEntries(dayColumns.map((col, day) => [col.key, formatAttendance(worker.attendance[day])])),
+    days: formatDays(worker.daysWorked),
+    rate: worker.rate ?? '',
+    payable: worker.payable ?? ''
+  }));
+  rows.push({
+    sno: '',
+    name: 'Total',
+    trade: '',
+    ...Object.fromEntries(dayColumns.map((col, day) => [col.key, roll.headcount[day] > 0 ? formatDays(roll.headcount[day]) : ''])),
+    days: formatDays(roll.totalDays),
+    rate: '',
+    payable: roll.totalPayable
+  });
+  return { columns, rows };
+};
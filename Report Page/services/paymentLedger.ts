@@ -0,0 +1,135 @@
+import { LogEntry, ColumnDefinition, PartyBalance, PaymentConfig, PaymentEntry, PaymentKind, PaymentLedger } from '../types';
+import { cellText, findAmountKey, getMainDateColumn, isCurrencyColumn, parseAmount } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+
+// Ages of unpaid bills, in days since the bill date
+export const AGEING_BUCKETS = [
+  { label: '0–30 days', maxDays: 30 },
+  { label: '31–60 days', maxDays: 60 },
+  { label: '60+ days', maxDays: Infinity }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const findColumn = (columns: ColumnDefinition[], configured: string | undefined, pattern: RegExp) =>
+  configured
+    ? columns.find(col => normalize(col.key) === normalize(configured))
+    : columns.find(col => pattern.test(col.key));
+
+export const getPaymentColumns = (columns: ColumnDefinition[], config: PaymentConfig = {}) => {
+  const amountKey = config.amount || columns.find(isCurrencyColumn)?.key || findAmountKey(columns.map(col => col.key));
+  return {
+    party: findColumn(columns, config.party, /payee|party|vendor|supplier|contractor/i),
+    amount: amountKey ? columns.find(col => normalize(col.key) === normalize(amountKey)) : undefined,
+    kind: config.kind ? columns.find(col => normalize(col.key) === normalize(config.kind!.column)) : undefined,
+    date: getMainDateColumn(columns)
+  };
+};
+
+// Without a kind rule every entry is a payment released, as in the old payment pages
+const createClassifier = (config: PaymentConfig, kindKey?: string) => {
+  const rule = config.kind;
+  if (!rule) return (): PaymentKind | null => 'paid';
+
+  const due = (rule.due || []).map(normalize);
+  const paid = (rule.paid || []).map(normalize);
+  const matches = (value: string, list: string[]) =>
+    rule.match === 'contains' ? list.some(item => value.includes(item)) : list.includes(value);
+
+  return (row: LogEntry): PaymentKind | null => {
+    const value = kindKey ? normalize(cellText(row[kindKey])) : '';
+    if (matches(value, due)) return 'due';
+    if (matches(value, paid)) return 'paid';
+    return rule.default || null;
+  };
+};
+
+const bucketIndex = (days: number) => AGEING_BUCKETS.findIndex(bucket => days <= bucket.maxDays);
+
+// Balances per party as of the end of `asOf`; later entries are left out. Payments settle the oldest
+// bills first, and whatever is still unpaid is aged from its bill date. Undated bills count as the oldest.
+export const buildPaymentLedger = (
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  config: PaymentConfig = {},
+  asOf: number = Date.now()
+): PaymentLedger => {
+  const cols = getPaymentColumns(columns, config);
+  const cutoff = new Date(asOf);
+  const asOfDay = new Date(cutoff.getFullYear(), cutoff.getMonth(), cutoff.getDate()).getTime();
+  const ledger: PaymentLedger = {
+    entries: [], parties: [], billed: 0, paid: 0, outstanding: 0, ageing: AGEING_BUCKETS.map(() => 0), skipped: 0, asOf: asOfDay
+  };
+  if (!cols.party || !cols.amount) {
+    ledger.skipped = data.length;
+    return ledger;
+  }
+
+  const classify = createClassifier(config, cols.kind?.key);
+  const dated = data
+    .map((row, index) => ({ row, index, timestamp: cols.date ? getRowTimestamp(row, cols.date.key) : NaN }))
+    .filter(item => isNaN(item.timestamp) || item.timestamp < asOfDay + DAY_MS)
+    .sort((a, b) => {
+      const aDated = !isNaN(a.timestamp);
+      const bDated = !isNaN(b.timestamp);
+      if (aDated && bDated && a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+      if (aDated !== bDated) return aDated ? 1 : -1;
+      return a.index - b.index;
+    });
+
+  const parties = new Map<string, PartyBalance & { bills: { timestamp: number, amount: number }[] }>();
+  dated.forEach(({ row, timestamp }) => {
+    const party = cellText(row[cols.party!.key]).trim();
+    const amount = Math.abs(parseAmount(row[cols.amount!.key]));
+    const kind = party && !isNaN(amount) ? classify(row) : null;
+    if (!kind) {
+      ledger.skipped += 1;
+      return;
+    }
+
+    const key = normalize(party);
+    let balance = parties.get(key);
+    if (!balance) {
+      balance = { party, billed: 0, paid: 0, outstanding: 0, ageing: [], lastPayment: NaN, bills: [] };
+      parties.set(key, balance);
+    }
+    if (kind === 'due') {
+      balance.billed += amount;
+      balance.bills.push({ timestamp, amount });
+    } else {
+      balance.paid += amount;
+      if (!isNaN(timestamp)) balance.lastPayment = timestamp;
+    }
+    balance.outstanding = balance.billed - balance.paid;
+    ledger.entries.push({ row, timestamp, party, kind, amount, balance: balance.outstanding });
+  });
+
+  ledger.parties = Array.from(parties.values())
+    .map(({ bills, ...balance }) => {
+      const ageing = AGEING_BUCKETS.map(() => 0);
+      let credit = balance.paid;
+      bills.forEach(bill => {
+        const unpaid = Math.max(0, bill.amount - credit);
+        credit = Math.max(0, credit - bill.amount);
+        if (unpaid === 0) return;
+        const days = isNaN(bill.timestamp) ? Infinity : Math.floor((asOfDay - bill.timestamp) / DAY_MS);
+        ageing[bucketIndex(days)] += unpaid;
+      });
+      return { ...balance, ageing };
+    })
+    .sort((a, b) => b.outstanding - a.outstanding || a.party.localeCompare(b.party));
+
+  ledger.parties.forEach(party => {
+    ledger.billed += party.billed;
+    ledger.paid += party.paid;
+    ledger.outstanding += party.outstanding;
+    party.ageing.forEach((amount, index) => { ledger.ageing[index] += amount; });
+  });
+  return ledger;
+};
+
+// One party's bills and payments in date order, with the running outstanding
+export const getPartyStatement = (ledger: PaymentLedger, party: string): PaymentEntry[] =>
+  ledger.entries.filter(entry => normalize(entry.party) === normalize(party));
@@ -0,0 +1,180 @@
+import { LogEntry, ColumnDefinition, LocaleConfig, PivotConfig, PivotDimension, PivotMeasure, PivotAggregation, DateBucket } from '../types';
+import { parseAmount, formatDisplayDate, cellText } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+import { t, getIntlLocale, Language, MessageKey } from './i18n';
+
+export const AGGREGATION_LABELS: Record<PivotAggregation, MessageKey> = {
+  sum: 'pivot.sum',
+  count: 'pivot.count',
+  avg: 'pivot.avg',
+  min: 'pivot.min',
+  max: 'pivot.max'
+};
+
+export const BUCKET_LABELS: Record<DateBucket, MessageKey> = {
+  day: 'pivot.day',
+  week: 'pivot.week',
+  month: 'pivot.month'
+};
+
+interface Bucketed {
+  label: string;
+  order: number | string; // Dates sort chronologically, everything else alphabetically
+}
+
+// Start of the day/week/month containing the timestamp; weeks start on Monday
+const bucketStart = (timestamp: number, bucket: DateBucket): number => {
+  const d = new Date(timestamp);
+  if (bucket === 'month') return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+  if (bucket === 'week') return new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7)).getTime();
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+const bucketLabel = (start: number, bucket: DateBucket, locale?: LocaleConfig, lang?: Language): string => {
+  if (bucket === 'month') return new Date(start).toLocaleDateString(getIntlLocale(lang), { month: 'short', year: 'numeric' });
+  if (bucket === 'week') return t('pivot.weekOf', { date: formatDisplayDate(start, locale) }, lang);
+  return formatDisplayDate(start, locale);
+};
+
+const dimensionValue = (row: LogEntry, dimension: PivotDimension, isDate: boolean, locale?: LocaleConfig, lang?: Language): Bucketed => {
+  const raw = cellText(row[dimension.key], locale).trim();
+  const blank = t('filters.blank', {}, lang);
+  if (isDate && dimension.bucket) {
+    const timestamp = getRowTimestamp(row, dimension.key);
+    if (isNaN(timestamp)) return { label: raw || blank, order: Number.MAX_SAFE_INTEGER };
+    const start = bucketStart(timestamp, dimension.bucket);
+    return { label: bucketLabel(start, dimension.bucket, locale, lang), order: start };
+  }
+  return { label: raw || blank, order: raw.toLowerCase() };
+};
+
+export const getMeasureLabel = (measure: PivotMeasure, columns: ColumnDefinition[], lang?: Language): string => {
+  if (measure.aggregation === 'count' || !measure.column) return t('pivot.entries', {}, lang);
+  const label = columns.find(col => col.key === measure.column)?.label || measure.column;
+  return t('pivot.measure', { aggregation: t(AGGREGATION_LABELS[measure.aggregation], {}, lang), column: label }, lang);
+};
+
+// Only sums and counts add up down a column; a total of averages, minimums or maximums means nothing
+export const isAdditivePivotColumn = (col: ColumnDefinition, config: PivotConfig) => {
+  const match = col.key.match(/^(?:col:.*|total):(\d+)$/);
+  const measure = match ? config.measures[Number(match[1])] : undefined;
+  return !!measure && (measure.aggregation === 'sum' || measure.aggregation === 'count');
+};
+
+// Running aggregate for one cell
+const createAccumulator = () => ({ count: 0, sum: 0, min: Infinity, max: -Infinity, values: 0 });
+type Accumulator = ReturnType<typeof createAccumulator>;
+
+const accumulate = (acc: Accumulator, row: LogEntry, measure: PivotMeasure) => {
+  acc.count += 1;
+  if (!measure.column) return;
+  const value = parseAmount(row[measure.column]);
+  if (isNaN(value)) return;
+  acc.values += 1;
+  acc.sum += value;
+  acc.min = Math.min(acc.min, value);
+  acc.max = Math.max(acc.max, value);
+};
+
+const finalize = (acc: Accumulator | undefined, measure: PivotMeasure): number | string => {
+  if (!acc) return measure.aggregation === 'count' || measure.aggregation === 'sum' ? 0 : '';
+  const round = (n: number) => Math.round(n * 100) / 100;
+  switch (measure.aggregation) {
+    case 'count': return acc.count;
+    case 'sum': return round(acc.sum);
+    case 'avg': return acc.values ? round(acc.sum / acc.values) : '';
+    case 'min': return acc.values ? acc.min : '';
+    case 'max': return acc.values ? acc.max : '';
+  }
+};
+
+const compareOrder = (a: number | string, b: number | string) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+// Groups rows into a flat table: one row per combination of row dimensions,
+// one column per measure (per column-dimension value, plus totals when one is set).
+// The result is ordinary columns and entries, so it sorts and exports like the main table.
+// Headings and date groups are in the UI language; exports ask for English.
+export const buildPivot = (
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  config: PivotConfig,
+  locale?: LocaleConfig,
+  lang?: Language
+): { columns: ColumnDefinition[], rows: LogEntry[] } => {
+  const isDateKey = (key: string) => !!columns.find(col => col.key === key)?.isDate;
+  const labelOf = (key: string) => columns.find(col => col.key === key)?.label || key;
+  const measures = config.measures.length > 0 ? config.measures : [{ aggregation: 'count' as const }];
+
+  const groups = new Map<string, { dims: Bucketed[], cells: Map<string, Accumulator[]>, total: Accumulator[] }>();
+  const columnValues = new Map<string, Bucketed>();
+
+  data.forEach(row => {
+    const dims = config.rows.map(dim => dimensionValue(row, dim, isDateKey(dim.key), locale, lang));
+    const groupKey = dims.map(d => d.label).join('\u0000');
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { dims, cells: new Map(), total: measures.map(createAccumulator) };
+      groups.set(groupKey, group);
+    }
+
+    measures.forEach((measure, i) => accumulate(group!.total[i], row, measure));
+
+    if (config.column) {
+      const colValue = dimensionValue(row, config.column, isDateKey(config.column.key), locale, lang);
+      columnValues.set(colValue.label, colValue);
+      let cell = group.cells.get(colValue.label);
+      if (!cell) {
+        cell = measures.map(createAccumulator);
+        group.cells.set(colValue.label, cell);
+      }
+      measures.forEach((measure, i) => accumulate(cell![i], row, measure));
+    }
+  });
+
+  const sortedColumnValues = Array.from(columnValues.values()).sort((a, b) => compareOrder(a.order, b.order));
+  const measureLabels = measures.map(m => getMeasureLabel(m, columns, lang));
+  const multipleMeasures = measures.length > 1;
+
+  const outColumns: ColumnDefinition[] = config.rows.map(dim => ({
+    key: `row:${dim.key}`,
+    label: dim.bucket && isDateKey(dim.key)
+      ? t('pivot.bucketed', { column: labelOf(dim.key), bucket: t(BUCKET_LABELS[dim.bucket], {}, lang).toLowerCase() }, lang)
+      : labelOf(dim.key)
+  }));
+
+  if (config.column) {
+    sortedColumnValues.forEach(value => measureLabels.forEach((measureLabel, i) => outColumns.push({
+      key: `col:${value.label}:${i}`,
+      label: multipleMeasures ? `${value.label} · ${measureLabel}` : value.label,
+      isNumeric: true
+    })));
+  }
+  measureLabels.forEach((measureLabel, i) => outColumns.push({
+    key: `total:${i}`,
+    label: config.column ? t('pivot.total', { measure: measureLabel }, lang) : measureLabel,
+    isNumeric: true
+  }));
+
+  const sortedGroups = Array.from(groups.values()).sort((a, b) => {
+    for (let i = 0; i < a.dims.length; i++) {
+      const diff = compareOrder(a.dims[i].order, b.dims[i].order);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+
+  const rows = sortedGroups.map(group => {
+    const entry: LogEntry = {};
+    config.rows.forEach((dim, i) => { entry[`row:${dim.key}`] = group.dims[i].label; });
+    if (config.column) {
+      sortedColumnValues.forEach(value => measures.forEach((measure, i) => {
+        entry[`col:${value.label}:${i}`] = finalize(group.cells.get(value.label)?.[i], measure);
+      }));
+    }
+    measures.forEach((measure, i) => { entry[`total:${i}`] = finalize(group.total[i], measure); });
+    return entry;
+  });
+
+  return { columns: outColumns, rows };
+};
@@ -0,0 +1,526 @@
+import { ReportConfig, ReportType, DataSourceConfig, ColumnLayout, ColumnType, ReportSchema, RefreshConfig, StockConfig, StockDirection, MusterConfig, PipelineConfig, PaymentConfig, PaymentKind, ShareConfig, LocaleConfig, DateInputFormat, NumberGrouping } from '../types';
+import { REPORT_ICONS } from '../components/ReportIcon';
+import { DEFAULT_STAGES } from './enquiryPipeline';
+
+const DEFAULT_CONFIG_PATH = 'reports.json';
+
+const REPORT_TYPES: ReportType[] = ['work', 'tea', 'material', 'enquiry', 'payment', 'custom'];
+const PAYMENT_KINDS: PaymentKind[] = ['due', 'paid'];
+const COLUMN_TYPES: ColumnType[] = ['date', 'datetime', 'number', 'currency', 'text', 'enum', 'url'];
+const STOCK_DIRECTIONS: StockDirection[] = ['inward', 'outward'];
+const DATE_INPUT_FORMATS: DateInputFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+const NUMBER_GROUPINGS: NumberGrouping[] = ['indian', 'international'];
+
+export class ReportConfigError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid report configuration:\n${errors.join('\n')}`);
+    this.name = 'ReportConfigError';
+    this.errors = errors;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const validateSource = (raw: unknown, path: string, errors: string[]): DataSourceConfig | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  switch (raw.kind) {
+    case 'sheet':
+      if (!isNonEmptyString(raw.url)) {
+        errors.push(`${path}.url: a sheet source needs the published CSV link`);
+        return null;
+      }
+      return { kind: 'sheet', url: raw.url };
+    case 'fixture':
+      if (!isNonEmptyString(raw.path)) {
+        errors.push(`${path}.path: a fixture source needs the path of the bundled file`);
+        return null;
+      }
+      return { kind: 'fixture', path: raw.path };
+    case 'file':
+      if (raw.format !== undefined && raw.format !== 'csv' && raw.format !== 'json') {
+        errors.push(`${path}.format: must be "csv" or "json"`);
+        return null;
+      }
+      return { kind: 'file', format: raw.format as 'csv' | 'json' | undefined };
+    default:
+      errors.push(`${path}.kind: must be one of "sheet", "file" or "fixture"`);
+      return null;
+  }
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isNonEmptyString);
+
+// Column names are matched against the sheet headers when the data loads, so only the shape is checked here
+const validateColumns = (raw: unknown, path: string, errors: string[]): ColumnLayout | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const layout: ColumnLayout = {};
+  (['order', 'hidden', 'pinned'] as const).forEach(field => {
+    if (raw[field] === undefined) return;
+    if (isStringList(raw[field])) layout[field] = raw[field];
+    else errors.push(`${path}.${field}: must be a list of column names`);
+  });
+  if (raw.labels !== undefined) {
+    if (isObject(raw.labels) && Object.values(raw.labels).every(isNonEmptyString)) {
+      layout.labels = raw.labels as Record<string, string>;
+    } else {
+      errors.push(`${path}.labels: must map column names to display labels`);
+    }
+  }
+  return layout;
+};
+
+const validateSchema = (raw: unknown, path: string, errors: string[]): ReportSchema | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must map column names to column declarations`);
+    return undefined;
+  }
+
+  const schema: ReportSchema = {};
+  Object.entries(raw).forEach(([name, column]) => {
+    const columnPath = `${path}["${name}"]`;
+    if (!isObject(column)) {
+      errors.push(`${columnPath}: must be an object`);
+      return;
+    }
+    const startErrors = errors.length;
+    const type = column.type as ColumnType;
+
+    if (!COLUMN_TYPES.includes(type)) {
+      errors.push(`${columnPath}.type: must be one of ${COLUMN_TYPES.map(t => `"${t}"`).join(', ')}`);
+    }
+    if (column.format !== undefined && !(isNonEmptyString(column.format) && (type === 'date' || type === 'datetime'))) {
+      errors.push(`${columnPath}.format: only date and datetime columns take a format, e.g. "DD/MM/YYYY"`);
+    }
+    if (column.required !== undefined && typeof column.required !== 'boolean') {
+      errors.push(`${columnPath}.required: must be true or false`);
+    }
+    if (column.values !== undefined && !(isStringList(column.values) && column.values.length > 0)) {
+      errors.push(`${columnPath}.values: must be a non-empty list of allowed values`);
+    } else if (type === 'enum' && column.values === undefined) {
+      errors.push(`${columnPath}.values: an enum column needs its allowed values`);
+    }
+
+    if (errors.length > startErrors) return;
+    schema[name] = {
+      type,
+      format: column.format as string | undefined,
+      required: column.required as boolean | undefined,
+      values: column.values as string[] | undefined
+    };
+  });
+  return schema;
+};
+
+const validateRefresh = (raw: unknown, path: string, errors: string[]): RefreshConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const refresh: RefreshConfig = {};
+  if (raw.intervalMinutes !== undefined) {
+    if (typeof raw.intervalMinutes === 'number' && raw.intervalMinutes > 0) refresh.intervalMinutes = raw.intervalMinutes;
+    else errors.push(`${path}.intervalMinutes: must be a number of minutes above 0`);
+  }
+  if (raw.identity !== undefined) {
+    if (isStringList(raw.identity) && raw.identity.length > 0) refresh.identity = raw.identity;
+    else errors.push(`${path}.identity: must be a non-empty list of column names`);
+  }
+  if (raw.notify !== undefined) {
+    if (typeof raw.notify === 'boolean') refresh.notify = raw.notify;
+    else errors.push(`${path}.notify: must be true or false`);
+  }
+  return refresh;
+};
+
+const validateStock = (raw: unknown, path: string, errors: string[]): StockConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const stock: StockConfig = {};
+  (['material', 'quantity', 'site', 'unit'] as const).forEach(field => {
+    if (raw[field] === undefined) return;
+    if (isNonEmptyString(raw[field])) stock[field] = raw[field];
+    else errors.push(`${path}.${field}: must be a column name`);
+  });
+
+  const direction = raw.direction;
+  if (direction !== undefined) {
+    const directionPath = `${path}.direction`;
+    if (!isObject(direction) || !isNonEmptyString(direction.column)) {
+      errors.push(`${directionPath}.column: must name the column that says whether stock came in or went out`);
+    } else {
+      const startErrors = errors.length;
+      (['inward', 'outward'] as const).forEach(field => {
+        if (direction[field] !== undefined && !isStringList(direction[field])) {
+          errors.push(`${directionPath}.${field}: must be a list of values`);
+        }
+      });
+      if (direction.inward === undefined && direction.outward === undefined) {
+        errors.push(`${directionPath}: needs inward or outward values to match`);
+      }
+      if (direction.match !== undefined && direction.match !== 'exact' && direction.match !== 'contains') {
+        errors.push(`${directionPath}.match: must be "exact" or "contains"`);
+      }
+      if (direction.default !== undefined && !STOCK_DIRECTIONS.includes(direction.default as StockDirection)) {
+        errors.push(`${directionPath}.default: must be "inward" or "outward"`);
+      }
+      if (errors.length === startErrors) {
+        stock.direction = {
+          column: direction.column,
+          inward: direction.inward as string[] | undefined,
+          outward: direction.outward as string[] | undefined,
+          match: direction.match as 'exact' | 'contains' | undefined,
+          default: direction.default as StockDirection | undefined
+        };
+      }
+    }
+  }
+
+  if (raw.reorderLevels !== undefined) {
+    if (isObject(raw.reorderLevels) && Object.values(raw.reorderLevels).every(level => typeof level === 'number' && level >= 0)) {
+      stock.reorderLevels = raw.reorderLevels as Record<string, number>;
+    } else {
+      errors.push(`${path}.reorderLevels: must map material names to quantities`);
+    }
+  }
+  return stock;
+};
+
+const isRateMap = (value: unknown): value is Record<string, number> =>
+  isObject(value) && Object.values(value).every(rate => typeof rate === 'number' && rate >= 0);
+
+const validateMuster = (raw: unknown, path: string, errors: string[]): MusterConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const muster: MusterConfig = {};
+  (['worker', 'trade'] as const).forEach(field => {
+    if (raw[field] === undefined) return;
+    if (isNonEmptyString(raw[field])) muster[field] = raw[field];
+    else errors.push(`${path}.${field}: must be a column name`);
+  });
+
+  if (raw.headcount !== undefined) {
+    if (isStringList(raw.headcount) && raw.headcount.length > 0) muster.headcount = raw.headcount as string[];
+    else errors.push(`${path}.headcount: must be a list of column names`);
+  }
+
+  const day = raw.day;
+  if (day !== undefined) {
+    const dayPath = `${path}.day`;
+    if (!isObject(day) || !isNonEmptyString(day.column)) {
+      errors.push(`${dayPath}.column: must name the column that says how much of the day was worked`);
+    } else {
+      const startErrors = errors.length;
+      if (day.half !== undefined && !isStringList(day.half)) {
+        errors.push(`${dayPath}.half: must be a list of values`);
+      }
+      (['fullHours', 'halfHours'] as const).forEach(field => {
+        if (day[field] !== undefined && !(typeof day[field] === 'number' && day[field] > 0)) {
+          errors.push(`${dayPath}.${field}: must be a number of hours above 0`);
+        }
+      });
+      if (day.halfHours !== undefined && day.fullHours === undefined) {
+        errors.push(`${dayPath}.halfHours: needs fullHours as well`);
+      }
+      if (day.half === undefined && day.fullHours === undefined) {
+        errors.push(`${dayPath}: needs half-day values or fullHours`);
+      }
+      if (errors.length === startErrors) {
+        muster.day = {
+          column: day.column,
+          half: day.half as string[] | undefined,
+          fullHours: day.fullHours as number | undefined,
+          halfHours: day.halfHours as number | undefined
+        };
+      }
+    }
+  }
+
+  const wages = raw.wages;
+  if (wages !== undefined) {
+    const wagesPath = `${path}.wages`;
+    if (!isObject(wages)) {
+      errors.push(`${wagesPath}: must be an object`);
+    } else {
+      const startErrors = errors.length;
+      (['workers', 'trades'] as const).forEach(field => {
+        if (wages[field] !== undefined && !isRateMap(wages[field])) {
+          errors.push(`${wagesPath}.${field}: must map names to daily rates`);
+        }
+      });
+      if (wages.default !== undefined && !(typeof wages.default === 'number' && wages.default >= 0)) {
+        errors.push(`${wagesPath}.default: must be a daily rate`);
+      }
+      if (errors.length === startErrors) {
+        muster.wages = {
+          workers: wages.workers as Record<string, number> | undefined,
+          trades: wages.trades as Record<string, number> | undefined,
+          default: wages.default as number | undefined
+        };
+      }
+    }
+  }
+  return muster;
+};
+
+const validatePipeline = (raw: unknown, path: string, errors: string[]): PipelineConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const pipeline: PipelineConfig = {};
+  if (raw.stages !== undefined) {
+    if (isStringList(raw.stages) && raw.stages.length > 1) pipeline.stages = raw.stages;
+    else errors.push(`${path}.stages: must list at least two stages in order`);
+  }
+  const stages = (pipeline.stages || DEFAULT_STAGES).map(stage => stage.trim().toLowerCase());
+  if (raw.won !== undefined) {
+    if (isNonEmptyString(raw.won) && stages.includes(raw.won.trim().toLowerCase())) pipeline.won = raw.won;
+    else errors.push(`${path}.won: must be one of the stages`);
+  }
+  if (raw.lost !== undefined) {
+    if (isStringList(raw.lost) && raw.lost.every(stage => stages.includes(stage.trim().toLowerCase()))) pipeline.lost = raw.lost;
+    else errors.push(`${path}.lost: must be a list of the stages`);
+  }
+  (['status', 'followUp', 'source'] as const).forEach(field => {
+    if (raw[field] === undefined) return;
+    if (isNonEmptyString(raw[field])) pipeline[field] = raw[field];
+    else errors.push(`${path}.${field}: must be a column name`);
+  });
+  if (raw.identity !== undefined) {
+    if (isStringList(raw.identity) && raw.identity.length > 0) pipeline.identity = raw.identity;
+    else errors.push(`${path}.identity: must be a non-empty list of column names`);
+  }
+  return pipeline;
+};
+
+const validatePayment = (raw: unknown, path: string, errors: string[]): PaymentConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const payment: PaymentConfig = {};
+  (['party', 'amount'] as const).forEach(field => {
+    if (raw[field] === undefined) return;
+    if (isNonEmptyString(raw[field])) payment[field] = raw[field];
+    else errors.push(`${path}.${field}: must be a column name`);
+  });
+
+  const kind = raw.kind;
+  if (kind !== undefined) {
+    const kindPath = `${path}.kind`;
+    if (!isObject(kind) || !isNonEmptyString(kind.column)) {
+      errors.push(`${kindPath}.column: must name the column that says whether an entry is a bill or a payment`);
+    } else {
+      const startErrors = errors.length;
+      (['due', 'paid'] as const).forEach(field => {
+        if (kind[field] !== undefined && !isStringList(kind[field])) {
+          errors.push(`${kindPath}.${field}: must be a list of values`);
+        }
+      });
+      if (kind.due === undefined && kind.paid === undefined) {
+        errors.push(`${kindPath}: needs due or paid values to match`);
+      }
+      if (kind.match !== undefined && kind.match !== 'exact' && kind.match !== 'contains') {
+        errors.push(`${kindPath}.match: must be "exact" or "contains"`);
+      }
+      if (kind.default !== undefined && !PAYMENT_KINDS.includes(kind.default as PaymentKind)) {
+        errors.push(`${kindPath}.default: must be "due" or "paid"`);
+      }
+      if (errors.length === startErrors) {
+        payment.kind = {
+          column: kind.column,
+          due: kind.due as string[] | undefined,
+          paid: kind.paid as string[] | undefined,
+          match: kind.match as 'exact' | 'contains' | undefined,
+          default: kind.default as PaymentKind | undefined
+        };
+      }
+    }
+  }
+  return payment;
+};
+
+const validateShare = (raw: unknown, path: string, errors: string[]): ShareConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const share: ShareConfig = {};
+  if (raw.template !== undefined) {
+    if (isNonEmptyString(raw.template)) share.template = raw.template;
+    else errors.push(`${path}.template: must be a message template`);
+  }
+  if (raw.rows !== undefined) {
+    if (typeof raw.rows === 'number' && Number.isInteger(raw.rows) && raw.rows >= 0) share.rows = raw.rows;
+    else errors.push(`${path}.rows: must be a whole number of rows`);
+  }
+  if (raw.columns !== undefined) {
+    if (isStringList(raw.columns) && raw.columns.length > 0) share.columns = raw.columns;
+    else errors.push(`${path}.columns: must be a non-empty list of column names`);
+  }
+  return share;
+};
+
+// Intl throws on codes it doesn't know, which would break every amount on the page
+const isCurrencyCode = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^[A-Z]{3}$/.test(value)) return false;
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const validateLocale = (raw: unknown, path: string, errors: string[]): LocaleConfig | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const locale: LocaleConfig = {};
+  if (raw.dateFormat !== undefined) {
+    if (DATE_INPUT_FORMATS.includes(raw.dateFormat as DateInputFormat)) locale.dateFormat = raw.dateFormat as DateInputFormat;
+    else errors.push(`${path}.dateFormat: must be one of ${DATE_INPUT_FORMATS.join(', ')}`);
+  }
+  if (raw.grouping !== undefined) {
+    if (NUMBER_GROUPINGS.includes(raw.grouping as NumberGrouping)) locale.grouping = raw.grouping as NumberGrouping;
+    else errors.push(`${path}.grouping: must be one of ${NUMBER_GROUPINGS.join(', ')}`);
+  }
+  if (raw.currency !== undefined) {
+    if (isCurrencyCode(raw.currency)) locale.currency = raw.currency;
+    else errors.push(`${path}.currency: must be a currency code such as "INR"`);
+  }
+  return locale;
+};
+
+// Checks the raw JSON and returns the typed list, collecting every problem instead of stopping at the first
+export const validateReportConfig = (raw: unknown): ReportConfig[] => {
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.reports : raw;
+
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ReportConfigError(['reports: must be a non-empty list of reports']);
+  }
+
+  const seenIds = new Set<string>();
+  const reports: ReportConfig[] = [];
+
+  list.forEach((item, index) => {
+    const path = `reports[${index}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+
+    const startErrors = errors.length;
+
+    if (!isNonEmptyString(item.id)) {
+      errors.push(`${path}.id: must be a non-empty string`);
+    } else if (seenIds.has(item.id)) {
+      errors.push(`${path}.id: "${item.id}" is used by another report`);
+    }
+    if (!isNonEmptyString(item.title)) {
+      errors.push(`${path}.title: must be a non-empty string`);
+    }
+    if (!REPORT_TYPES.includes(item.type as ReportType)) {
+      errors.push(`${path}.type: must be one of ${REPORT_TYPES.map(t => `"${t}"`).join(', ')}`);
+    }
+    if (item.icon !== undefined && !(typeof item.icon === 'string' && item.icon in REPORT_ICONS)) {
+      errors.push(`${path}.icon: unknown icon, use one of ${Object.keys(REPORT_ICONS).join(', ')}`);
+    }
+    if (item.primaryColor !== undefined && typeof item.primaryColor !== 'string') {
+      errors.push(`${path}.primaryColor: must be a Tailwind text colour class`);
+    }
+    const source = validateSource(item.source, `${path}.source`, errors);
+    const columns = validateColumns(item.columns, `${path}.columns`, errors);
+    const schema = validateSchema(item.schema, `${path}.schema`, errors);
+    const refresh = validateRefresh(item.refresh, `${path}.refresh`, errors);
+    const stock = validateStock(item.stock, `${path}.stock`, errors);
+    const muster = validateMuster(item.muster, `${path}.muster`, errors);
+    const pipeline = validatePipeline(item.pipeline, `${path}.pipeline`, errors);
+    const payment = validatePayment(item.payment, `${path}.payment`, errors);
+    const share = validateShare(item.share, `${path}.share`, errors);
+    const locale = validateLocale(item.locale, `${path}.locale`, errors);
+    if (payment && item.type !== 'payment') {
+      errors.push(`${path}.payment: only applies to reports of type "payment"`);
+    }
+    if (refresh && source?.kind === 'file') {
+      errors.push(`${path}.refresh: uploaded files can't be refreshed automatically`);
+    }
+
+    if (errors.length > startErrors || !source) return;
+
+    seenIds.add(item.id as string);
+    reports.push({
+      id: item.id as string,
+      title: item.title as string,
+      type: item.type as ReportType,
+      icon: (item.icon as string) || 'FileText',
+      primaryColor: (item.primaryColor as string) || 'text-slate-800',
+      source,
+      columns,
+      schema,
+      refresh,
+      stock,
+      muster,
+      pipeline,
+      payment,
+      share,
+      locale
+    });
+  });
+
+  if (errors.length > 0) throw new ReportConfigError(errors);
+  return reports;
+};
+
+// Loads the report list at startup. `?config=<file>` switches to another config, e.g. the offline demo.
+export const loadReportRegistry = async (): Promise<ReportConfig[]> => {
+  const configPath = new URLSearchParams(window.location.search).get('config') || DEFAULT_CONFIG_PATH;
+
+  let raw: unknown;
+  try {
+    const response = await fetch(configPath, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    raw = await response.json();
+  } catch (error) {
+    throw new ReportConfigError([`${configPath}: could not be loaded (${error instanceof Error ? error.message : error})`]);
+  }
+
+  return validateReportConfig(raw);
+};
@@ -0,0 +1,70 @@
+import { DateInputFormat, LocaleConfig, LogEntry } from '../types';
+import { cellText, parseDate } from '../utils';
+
+// Caches keyed by row (or data set) identity. Loaded rows are never mutated, so entries stay valid
+// for as long as the rows are on screen and are dropped with them.
+const timestampCache = new WeakMap<LogEntry, Record<string, number>>();
+const rowTextCache = new WeakMap<LogEntry, string>();
+const uniqueValueCache = new WeakMap<LogEntry[], Map<string, string[]>>();
+const sourceRowCache = new WeakMap<LogEntry, number>();
+const dateFormatCache = new WeakMap<LogEntry, DateInputFormat>();
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// Seeds the cache with timestamps parsed ahead of time (see prepareData), and remembers the report's
+// date format for any other column read as a date later
+export const indexTimestamps = (rows: LogEntry[], timestamps: Record<string, number[]>, dateFormat?: DateInputFormat) => {
+  if (dateFormat) rows.forEach(row => dateFormatCache.set(row, dateFormat));
+  Object.entries(timestamps).forEach(([key, values]) => {
+    rows.forEach((row, index) => {
+      const cached = timestampCache.get(row);
+      if (cached) cached[key] = values[index];
+      else timestampCache.set(row, { [key]: values[index] });
+    });
+  });
+};
+
+// Remembers which sheet row each entry came from (see CSVParseResult.sourceRows)
+export const indexSourceRows = (rows: LogEntry[], sourceRows?: number[]) => {
+  if (!sourceRows) return;
+  rows.forEach((row, index) => sourceRowCache.set(row, sourceRows[index]));
+};
+
+export const getSourceRow = (row: LogEntry): number | undefined => sourceRowCache.get(row);
+
+// parseDate for a cell in its report's date format, parsed at most once per row and column
+export const getRowTimestamp = (row: LogEntry, key: string): number => {
+  let cached = timestampCache.get(row);
+  if (!cached) {
+    cached = {};
+    timestampCache.set(row, cached);
+  }
+  if (!(key in cached)) cached[key] = parseDate(row[key], dateFormatCache.get(row));
+  return cached[key];
+};
+
+// Every cell of a row as the table shows it, lower-cased for free-text search. Cells are kept apart so a
+// match can't span two. A row belongs to one report, so the first locale asked for is the one cached.
+export const getRowText = (row: LogEntry, locale?: LocaleConfig): string => {
+  let text = rowTextCache.get(row);
+  if (text === undefined) {
+    text = Object.values(row).map(value => cellText(value, locale).toLowerCase()).join('\u0000');
+    rowTextCache.set(row, text);
+  }
+  return text;
+};
+
+// Distinct display values of a column, sorted naturally ("2" before "10"), built once per data set
+export const getUniqueValues = (data: LogEntry[], key: string): string[] => {
+  let byColumn = uniqueValueCache.get(data);
+  if (!byColumn) {
+    byColumn = new Map();
+    uniqueValueCache.set(data, byColumn);
+  }
+  let values = byColumn.get(key);
+  if (!values) {
+    values = Array.from(new Set(data.map(row => cellText(row[key])))).sort(collator.compare);
+    byColumn.set(key, values);
+  }
+  return values;
+};
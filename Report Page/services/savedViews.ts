@@ -0,0 +1,197 @@
+import { ColumnLayout, DateRange, DateRangePreset, FilterOperator, FilterState, ReportConfig, SavedView, SavedViewSet, SortState, ViewState } from '../types';
+import { ALL_DATES, resolveDateRange } from '../utils';
+import { downloadBlob } from './exporters';
+import { ALL_OPERATORS } from './filters';
+import { readJSON, writeJSON } from './storage';
+
+const FILE_KIND = 'site-reports-views';
+const FILE_VERSION = 1;
+const RELATIVE_PRESETS: DateRangePreset[] = ['today', 'yesterday', 'thisWeek', 'thisMonth', 'lastMonth'];
+
+const storageKey = (reportId: string) => `views:${reportId}`;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+let lastId = 0;
+const newViewId = () => `view-${Date.now().toString(36)}-${(lastId++).toString(36)}`;
+
+export const loadSavedViews = (reportId: string): SavedViewSet =>
+  readJSON<SavedViewSet>(storageKey(reportId), { views: [] });
+
+export const saveSavedViews = (reportId: string, set: SavedViewSet) => writeJSON(storageKey(reportId), set);
+
+export const getDefaultView = (reportId: string): SavedView | undefined => {
+  const { views, defaultId } = loadSavedViews(reportId);
+  return defaultId ? views.find(view => view.id === defaultId) : undefined;
+};
+
+export const createSavedView = (name: string, state: Omit<SavedView, 'id' | 'name'>): SavedView => ({
+  id: newViewId(),
+  name: name.trim(),
+  ...state
+});
+
+// Saving under a name already in the set replaces that view, keeping its place and default status
+export const upsertView = (set: SavedViewSet, view: SavedView): SavedViewSet => {
+  const existing = set.views.find(v => normalize(v.name) === normalize(view.name));
+  if (!existing) return { ...set, views: [...set.views, view] };
+  return { ...set, views: set.views.map(v => v === existing ? { ...view, id: existing.id } : v) };
+};
+
+export const removeView = (set: SavedViewSet, id: string): SavedViewSet => ({
+  views: set.views.filter(view => view.id !== id),
+  defaultId: set.defaultId === id ? undefined : set.defaultId
+});
+
+// "This week" saved last month still means this week
+export const restoreDateRange = (range: DateRange): DateRange =>
+  RELATIVE_PRESETS.includes(range.preset) ? resolveDateRange(range.preset) : range;
+
+// The view state with the saved view's rows on it, from the first page; tab and view mode are kept
+export const withSavedView = (state: ViewState, view: SavedView): ViewState => ({
+  ...state,
+  filters: view.filters,
+  dateRange: restoreDateRange(view.dateRange),
+  search: view.search,
+  sort: view.sort,
+  page: 1
+});
+
+const viewSignature = (view: Omit<SavedView, 'id' | 'name'>) => JSON.stringify([
+  view.filters,
+  view.dateRange.preset,
+  RELATIVE_PRESETS.includes(view.dateRange.preset) ? null : [view.dateRange.start, view.dateRange.end],
+  view.search.trim(),
+  view.sort,
+  view.pageSize,
+  view.layout
+]);
+
+// The saved view the screen currently shows, if any
+export const findMatchingView = (set: SavedViewSet, current: Omit<SavedView, 'id' | 'name'>): SavedView | undefined => {
+  const signature = viewSignature(current);
+  return set.views.find(view => viewSignature(view) === signature);
+};
+
+// Every report's views in one file, so the office can hand the same set to each phone
+export const exportSavedViews = (reports: ReportConfig[]) => {
+  const payload = {
+    kind: FILE_KIND,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    reports: Object.fromEntries(reports
+      .map(report => [report.id, loadSavedViews(report.id)] as const)
+      .filter(([, set]) => set.views.length > 0))
+  };
+  downloadBlob(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }), 'Saved_Views.json');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const DATE_PRESETS: DateRangePreset[] = ['all', 'custom', ...RELATIVE_PRESETS];
+
+const readTime = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : null;
+
+// Conditions a hand-edited or older file got wrong are dropped rather than failing the whole import
+const readFilters = (raw: unknown[]): FilterState =>
+  raw.flatMap(condition => {
+    if (!isObject(condition) || typeof condition.column !== 'string') return [];
+    if (!ALL_OPERATORS.includes(condition.operator as FilterOperator) || !isStringList(condition.values)) return [];
+    return [{ column: condition.column, operator: condition.operator as FilterOperator, values: condition.values }];
+  });
+
+const readSort = (raw: unknown): SortState | null => {
+  if (!isObject(raw) || typeof raw.key !== 'string') return null;
+  if (raw.direction !== 'asc' && raw.direction !== 'desc') return null;
+  return { key: raw.key, direction: raw.direction };
+};
+
+const readLayout = (raw: unknown): ColumnLayout => {
+  if (!isObject(raw)) return {};
+  const layout: ColumnLayout = {};
+  (['order', 'hidden', 'pinned'] as const).forEach(field => {
+    const value = raw[field];
+    if (isStringList(value)) layout[field] = value;
+  });
+  if (isObject(raw.labels)) {
+    const labels = raw.labels;
+    layout.labels = Object.fromEntries(Object.keys(labels).flatMap(key => {
+      const label = labels[key];
+      return typeof label === 'string' ? [[key, label]] : [];
+    }));
+  }
+  return layout;
+};
+
+const readView = (raw: unknown, path: string): SavedView => {
+  if (!isObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+    throw new Error(`${path} needs a name`);
+  }
+  if (raw.filters !== undefined && !Array.isArray(raw.filters)) throw new Error(`${path}.filters must be a list`);
+  const range = isObject(raw.dateRange) ? raw.dateRange : {};
+  const preset = DATE_PRESETS.includes(range.preset as DateRangePreset) ? range.preset as DateRangePreset : ALL_DATES.preset;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : newViewId(),
+    name: raw.name.trim(),
+    filters: Array.isArray(raw.filters) ? readFilters(raw.filters) : [],
+    dateRange: { preset, start: readTime(range.start), end: readTime(range.end) },
+    search: typeof raw.search === 'string' ? raw.search : '',
+    sort: readSort(raw.sort),
+    pageSize: typeof raw.pageSize === 'number' && raw.pageSize >= 0 ? raw.pageSize : 10,
+    layout: readLayout(raw.layout)
+  };
+};
+
+export interface ViewImportResult {
+  views: number;
+  reports: number;
+  unknownReports: string[];
+}
+
+// Merges an exported file into this device's views; views with the same name are replaced.
+// A default in the file becomes the default here. Throws if the file isn't a views export.
+export const importSavedViews = (text: string, reports: ReportConfig[]): ViewImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isObject(parsed) || parsed.kind !== FILE_KIND || !isObject(parsed.reports)) {
+    throw new Error('The file is not a saved views export');
+  }
+  if (typeof parsed.version === 'number' && parsed.version > FILE_VERSION) {
+    throw new Error('The file was exported by a newer version of the dashboard');
+  }
+
+  const known = new Set(reports.map(report => report.id));
+  const incoming = Object.entries(parsed.reports).map(([reportId, raw]) => {
+    if (!isObject(raw) || !Array.isArray(raw.views)) throw new Error(`reports.${reportId}.views must be a list`);
+    const views = raw.views.map((view, index) => readView(view, `reports.${reportId}.views[${index}]`));
+    return { reportId, views, defaultId: typeof raw.defaultId === 'string' ? raw.defaultId : undefined };
+  });
+
+  // Checked in full before anything is written, so a bad file changes nothing
+  const result: ViewImportResult = { views: 0, reports: 0, unknownReports: [] };
+  incoming.forEach(({ reportId, views, defaultId }) => {
+    if (!known.has(reportId)) {
+      result.unknownReports.push(reportId);
+      return;
+    }
+    let set = loadSavedViews(reportId);
+    views.forEach(view => {
+      set = upsertView(set, view);
+      if (view.id === defaultId) {
+        set.defaultId = set.views.find(v => normalize(v.name) === normalize(view.name))!.id;
+      }
+    });
+    saveSavedViews(reportId, set);
+    result.views += views.length;
+    result.reports += 1;
+  });
+  return result;
+};
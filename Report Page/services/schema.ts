@@ -0,0 +1,206 @@
+import { LogEntry, CellValue, ColumnDefinition, ColumnSchema, DateInputFormat, ReportSchema, SchemaValidation, SchemaIssue, SchemaIssueTally } from '../types';
+import { identifyColumns, parseDate, cellText } from '../utils';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMM: '([A-Za-z]{3,9})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  hh: '(\\d{2})',
+  h: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  A: '(AM|PM|am|pm)'
+};
+const TOKEN_PATTERN = /YYYY|YY|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A/g;
+
+const compiledFormats = new Map<string, { regex: RegExp, tokens: string[] }>();
+
+const compileFormat = (format: string) => {
+  let compiled = compiledFormats.get(format);
+  if (!compiled) {
+    const tokens: string[] = [];
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    let pattern = '';
+    let last = 0;
+    for (const match of format.matchAll(TOKEN_PATTERN)) {
+      pattern += escape(format.slice(last, match.index)) + FORMAT_TOKENS[match[0]];
+      tokens.push(match[0]);
+      last = match.index! + match[0].length;
+    }
+    pattern += escape(format.slice(last));
+    compiled = { regex: new RegExp(`^${pattern}$`), tokens };
+    compiledFormats.set(format, compiled);
+  }
+  return compiled;
+};
+
+// Strict parse against a declared layout; NaN when the text doesn't fit or names an impossible date
+export const parseDateWithFormat = (text: string, format: string): number => {
+  const { regex, tokens } = compileFormat(format);
+  const match = text.trim().match(regex);
+  if (!match) return NaN;
+
+  let year = new Date().getFullYear(), month = 0, day = 1, hour = 0, minute = 0, second = 0;
+  let meridiem: string | null = null;
+  for (const [i, token] of tokens.entries()) {
+    const part = match[i + 1];
+    const num = parseInt(part, 10);
+    switch (token) {
+      case 'YYYY': year = num; break;
+      case 'YY': year = 2000 + num; break;
+      case 'MMM': month = MONTHS.indexOf(part.slice(0, 3).toLowerCase()); break;
+      case 'MM': case 'M': month = num - 1; break;
+      case 'DD': case 'D': day = num; break;
+      case 'HH': case 'H': case 'hh': case 'h': hour = num; break;
+      case 'mm': minute = num; break;
+      case 'ss': second = num; break;
+      case 'A': meridiem = part.toUpperCase(); break;
+    }
+  }
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return NaN;
+    hour = (hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+
+  const date = new Date(year, month, day, hour, minute, second);
+  // Date rolls 31/02 over into March; reject instead
+  if (month < 0 || date.getMonth() !== month || date.getDate() !== day || hour > 23 || minute > 59 || second > 59) return NaN;
+  return date.getTime();
+};
+
+export const isWebLink = (text: string) => {
+  try {
+    const url = new URL(text);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const convertCell = (raw: CellValue, schema: ColumnSchema, dateFormat?: DateInputFormat): { value: CellValue, issue?: SchemaIssue } => {
+  const text = cellText(raw).trim();
+  if (!text) {
+    const empty = ['date', 'datetime', 'number', 'currency'].includes(schema.type) ? null : '';
+    return { value: empty, issue: schema.required ? { reason: 'schema.required' } : undefined };
+  }
+
+  let value: CellValue = text;
+  switch (schema.type) {
+    case 'date':
+    case 'datetime': {
+      const timestamp = schema.format ? parseDateWithFormat(text, schema.format) : parseDate(text, dateFormat);
+      if (isNaN(timestamp)) {
+        return { value: text, issue: schema.format ? { reason: 'schema.notDateIn', values: { format: schema.format } } : { reason: 'schema.notDate' } };
+      }
+      const date = new Date(timestamp);
+      value = schema.type === 'date' ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : date;
+      break;
+    }
+    case 'number':
+    case 'currency': {
+      if (typeof raw === 'number') {
+        value = raw;
+        break;
+      }
+      const cleaned = text.replace(/₹|rs\.?|inr|,|\s/gi, '');
+      const num = Number(cleaned);
+      if (cleaned === '' || !isFinite(num)) return { value: text, issue: { reason: 'schema.notNumber' } };
+      value = num;
+      break;
+    }
+    case 'url':
+      if (!isWebLink(text)) return { value: text, issue: { reason: 'schema.notLink' } };
+      break;
+  }
+
+  if (schema.values) {
+    // Enum values take the declared spelling, so "site a" and "Site A" group together
+    const allowed = schema.values.find(v => v.toLowerCase() === cellText(value).toLowerCase());
+    if (allowed === undefined) return { value, issue: { reason: 'schema.notAllowed' } };
+    if (typeof value === 'string') value = allowed;
+  }
+  return { value };
+};
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Pairs each declared column with the data's actual header, ignoring case and surrounding spaces
+const matchColumns = (headers: string[], schema: ReportSchema) =>
+  Object.entries(schema).map(([name, column]) => ({
+    name,
+    key: headers.find(h => normalize(h) === normalize(name)),
+    column
+  }));
+
+export const createValidation = (): SchemaValidation => ({
+  cellIssues: new Map(),
+  tallies: [],
+  missingColumns: [],
+  invalidCells: 0
+});
+
+// Converts declared columns to typed values and records every cell that breaks the schema.
+// Offending cells keep their original text so they can still be shown and corrected.
+export const applySchema = (
+  rows: LogEntry[],
+  schema?: ReportSchema,
+  dateFormat?: DateInputFormat
+): { rows: LogEntry[], validation: SchemaValidation } => {
+  const validation = createValidation();
+  if (!schema || rows.length === 0) return { rows, validation };
+
+  const matched = matchColumns(Object.keys(rows[0]), schema);
+  validation.missingColumns = matched.filter(m => !m.key && m.column.required).map(m => m.name);
+  const declared = matched.filter((m): m is typeof m & { key: string } => !!m.key);
+
+  const tallies = new Map<string, SchemaIssueTally>();
+  const typedRows = rows.map(row => {
+    const entry: LogEntry = { ...row };
+    const issues: Record<string, SchemaIssue> = {};
+
+    declared.forEach(({ key, column }) => {
+      const { value, issue } = convertCell(row[key] ?? '', column, dateFormat);
+      entry[key] = value;
+      if (!issue) return;
+
+      issues[key] = issue;
+      validation.invalidCells += 1;
+      const tallyKey = `${key}\u0000${issue.reason}`;
+      const tally = tallies.get(tallyKey);
+      if (tally) tally.count += 1;
+      else tallies.set(tallyKey, { column: key, ...issue, count: 1, example: cellText(row[key]) });
+    });
+
+    if (Object.keys(issues).length > 0) validation.cellIssues.set(entry, issues);
+    return entry;
+  });
+
+  validation.tallies = Array.from(tallies.values()).sort((a, b) => b.count - a.count);
+  return { rows: typedRows, validation };
+};
+
+// Declared types win; undeclared columns fall back to the heuristic detection
+export const identifyTypedColumns = (rows: LogEntry[], schema?: ReportSchema, dateFormat?: DateInputFormat): ColumnDefinition[] => {
+  const detected = identifyColumns(rows, dateFormat);
+  if (!schema) return detected;
+
+  const declared = matchColumns(detected.map(col => col.key), schema);
+  return detected.map(col => {
+    const column = declared.find(m => m.key === col.key)?.column;
+    if (!column) return col;
+    return {
+      ...col,
+      type: column.type,
+      isDate: column.type === 'date' || column.type === 'datetime',
+      isNumeric: column.type === 'number' || column.type === 'currency'
+    };
+  });
+};
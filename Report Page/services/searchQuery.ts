@@ -0,0 +1,159 @@
+import { LogEntry, ColumnDefinition, DateInputFormat, LocaleConfig, QueryTerm, QueryOperator } from '../types';
+import { cellText, parseAmount, parseDate } from '../utils';
+import { getRowText, getRowTimestamp } from './rowIndex';
+
+// Optional "-", optional field with its operator, then a quoted phrase or a bare word
+const TOKEN_PATTERN = /^(-)?(?:([^\s:"=<>-][^\s:"=<>]*)(>=|<=|:|=|>|<))?(?:"([^"]*)"|([^\s"]+))/;
+
+// "Work Description" can be typed as work_description, workdescription or "Work Description"
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// The form offered by autocomplete
+export const getColumnToken = (col: ColumnDefinition) =>
+  col.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const findColumn = (field: string, columns: ColumnDefinition[]) => {
+  const slug = slugify(field);
+  return slug ? columns.find(col => slugify(col.label) === slug || slugify(col.key) === slug) : undefined;
+};
+
+// Start and end of the period a date value names: 2024, 2024-05, 2024-05-03 or 03/05/2024
+const parsePeriod = (value: string, dateFormat?: DateInputFormat): [number, number] | null => {
+  const iso = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (iso) {
+    const [, y, m, d] = iso.map(Number);
+    if (!m) return [new Date(y, 0, 1).getTime(), new Date(y + 1, 0, 1).getTime() - 1];
+    if (!d) return [new Date(y, m - 1, 1).getTime(), new Date(y, m, 1).getTime() - 1];
+    return [new Date(y, m - 1, d).getTime(), new Date(y, m - 1, d + 1).getTime() - 1];
+  }
+  const timestamp = parseDate(value, dateFormat);
+  if (isNaN(timestamp)) return null;
+  const day = new Date(timestamp);
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  return [start, new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime() - 1];
+};
+
+const isNumber = (value: string) => !isNaN(parseAmount(value)) && /\d/.test(value);
+
+// A field term only stands if its column exists and the value suits the column; anything else is searched as text
+const isValidFieldTerm = (col: ColumnDefinition, operator: QueryOperator, value: string, dateFormat?: DateInputFormat) => {
+  if (col.isDate) return parsePeriod(value, dateFormat) !== null;
+  if (col.isNumeric) return operator === ':' || isNumber(value);
+  return operator === ':' || operator === '=';
+};
+
+// Never throws: malformed pieces (unknown columns, unclosed quotes, "qty>abc") become plain text
+// Dates typed into the query are read in the report's own day/month order
+export const parseQuery = (input: string, columns: ColumnDefinition[], locale?: LocaleConfig): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  let rest = input.trim();
+
+  while (rest) {
+    const match = rest.match(TOKEN_PATTERN);
+    // A field still waiting for its value ("material:") is ignored rather than searched for
+    const pending = rest.match(/^-?[^\s:"=<>]+(?:>=|<=|:|=|>|<)(?=\s|$)/);
+    let length: number;
+
+    if (pending) {
+      length = pending[0].length;
+    } else if (match) {
+      const [whole, minus, field, operator, phrase, word] = match;
+      length = whole.length;
+      const value = phrase ?? word ?? '';
+      const negate = !!minus;
+      const col = field ? findColumn(field, columns) : undefined;
+
+      if (col && isValidFieldTerm(col, operator as QueryOperator, value, locale?.dateFormat)) {
+        terms.push({ column: col.key, operator: operator as QueryOperator, value, negate });
+      } else {
+        const text = field ? `${field}${operator}${value}` : value;
+        if (text) terms.push({ operator: ':', value: text, negate });
+      }
+    } else {
+      // Unclosed quote or a stray symbol: take the next word literally
+      const word = rest.match(/^\S+/)![0];
+      length = word.length;
+      const text = word.replace(/"/g, '');
+      if (text) terms.push({ operator: ':', value: text, negate: false });
+    }
+
+    rest = rest.slice(length).trimStart();
+  }
+  return terms;
+};
+
+const createTermMatcher = (term: QueryTerm, columns: ColumnDefinition[], locale?: LocaleConfig): ((row: LogEntry) => boolean) => {
+  const needle = term.value.toLowerCase();
+  const col = term.column ? columns.find(c => c.key === term.column) : undefined;
+
+  if (!col) {
+    return row => getRowText(row, locale).includes(needle);
+  }
+
+  const key = col.key;
+  if (col.isDate) {
+    const [start, end] = parsePeriod(term.value, locale?.dateFormat)!;
+    return row => {
+      const timestamp = getRowTimestamp(row, key);
+      if (isNaN(timestamp)) return false;
+      switch (term.operator) {
+        case '>': return timestamp > end;
+        case '>=': return timestamp >= start;
+        case '<': return timestamp < start;
+        case '<=': return timestamp <= end;
+        default: return timestamp >= start && timestamp <= end;
+      }
+    };
+  }
+
+  if (col.isNumeric && isNumber(term.value)) {
+    const target = parseAmount(term.value);
+    return row => {
+      const value = parseAmount(row[key]);
+      if (isNaN(value)) return false;
+      switch (term.operator) {
+        case '>': return value > target;
+        case '>=': return value >= target;
+        case '<': return value < target;
+        case '<=': return value <= target;
+        default: return value === target;
+      }
+    };
+  }
+
+  if (term.operator === '=') return row => cellText(row[key], locale).trim().toLowerCase() === needle;
+  return row => cellText(row[key], locale).toLowerCase().includes(needle);
+};
+
+// Every term must hold (or, when negated, must not)
+export const createQueryMatcher = (
+  terms: QueryTerm[],
+  columns: ColumnDefinition[],
+  locale?: LocaleConfig
+): ((row: LogEntry) => boolean) => {
+  const matchers = terms.map(term => ({ negate: term.negate, matches: createTermMatcher(term, columns, locale) }));
+  return row => matchers.every(({ negate, matches }) => matches(row) !== negate);
+};
+
+// Text to mark in the table: plain terms anywhere, text field terms in their own column
+export const getHighlightTerms = (terms: QueryTerm[], columns: ColumnDefinition[], columnKey: string): string[] =>
+  terms
+    .filter(term => !term.negate && term.value)
+    .filter(term => {
+      if (!term.column) return true;
+      const col = columns.find(c => c.key === term.column);
+      return term.column === columnKey && !!col && !col.isDate && !col.isNumeric;
+    })
+    .map(term => term.value);
+
+// Columns whose token starts with the word being typed, for autocomplete
+export const suggestColumns = (word: string, columns: ColumnDefinition[], limit = 6): ColumnDefinition[] => {
+  const prefix = word.replace(/^-/, '').toLowerCase();
+  if (!prefix || /[:"=<>]/.test(prefix)) return [];
+  return columns
+    .filter(col => {
+      const token = getColumnToken(col);
+      return token.startsWith(prefix) && token !== prefix;
+    })
+    .slice(0, limit);
+};
@@ -0,0 +1,110 @@
+import { LogEntry, ColumnDefinition, ExportDetails, LocaleConfig, ReportConfig, ReportType } from '../types';
+import { cellText, formatCurrency, formatDisplayDateTime, formatNumber, getColumnTotals, isCurrencyColumn, parseAmount } from '../utils';
+
+// Default messages per report type; WhatsApp shows *text* in bold
+export const SHARE_TEMPLATES: Record<ReportType, string> = {
+  work: '*{title}*\n{period}\n{filters}\n👷 {count}\n\n{rows}',
+  tea: '*{title}*\n{period}\n{filters}\n☕ {count}\n{totals}\n\n{rows}',
+  material: '*{title}*\n{period}\n{filters}\n📦 {count}\n{totals}\n\n{rows}',
+  enquiry: '*{title}*\n{period}\n{filters}\n📞 {count}\n\n{rows}',
+  payment: '*{title}*\n{period}\n{filters}\n💰 {count}\n{totals}\n\n{rows}',
+  custom: '*{title}*\n{period}\n{filters}\n{count}\n{totals}\n\n{rows}'
+};
+
+const DEFAULT_ROW_COUNT = 5;
+// Columns that only clutter a chat message when no columns are configured
+const NOISY_COLUMN = /timestamp|e-?mail/i;
+
+const formatValue = (row: LogEntry, col: ColumnDefinition, locale?: LocaleConfig) =>
+  isCurrencyColumn(col) ? formatCurrency(parseAmount(row[col.key]) || 0, locale) : cellText(row[col.key], locale).trim();
+
+const pickColumns = (columns: ColumnDefinition[], configured?: string[]) => {
+  if (configured && configured.length > 0) {
+    const wanted = configured.map(name => name.trim().toLowerCase());
+    return wanted
+      .map(name => columns.find(col => col.key.toLowerCase() === name || col.label.toLowerCase() === name))
+      .filter((col): col is ColumnDefinition => !!col);
+  }
+  return columns.filter(col => !NOISY_COLUMN.test(col.key)).slice(0, 4);
+};
+
+// A placeholder with the separators (" · ", " | ", " - ", ", ") on either side of it
+const PLACEHOLDER = /(\s*[·|,–-]\s*)?\{(\w+)\}(\s*[·|,–-]\s*)?/g;
+
+// A line of nothing but empty placeholders is dropped; elsewhere an empty placeholder goes with the
+// separator next to it, so "*Tea & snacks* · {period}" without a period is just the heading
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template
+    .split('\n')
+    .flatMap(line => {
+      const placeholders = line.match(/\{(\w+)\}/g) || [];
+      const onlyPlaceholders = !line.replace(/\{(\w+)\}/g, '').trim();
+      if (placeholders.length > 0 && onlyPlaceholders && placeholders.every(p => !values[p.slice(1, -1)])) return [];
+      return [line.replace(PLACEHOLDER, (match, before = '', name, after = '') => {
+        if (!(name in values)) return match;
+        if (values[name]) return `${before}${values[name]}${after}`;
+        return before && after ? before : '';
+      }).trimEnd()];
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// The message for the rows on screen: the report's own template, or its type's default
+export const buildShareText = (
+  report: ReportConfig,
+  columns: ColumnDefinition[],
+  rows: LogEntry[],
+  details: ExportDetails,
+  now: number = Date.now()
+): string => {
+  const share = report.share || {};
+  const { locale } = report;
+  const rowCount = share.rows ?? DEFAULT_ROW_COUNT;
+  const rowColumns = pickColumns(columns, share.columns);
+
+  const totals = getColumnTotals(columns, rows);
+  const totalLines = columns
+    .filter(col => col.key in totals)
+    .map(col => `${col.label}: ${isCurrencyColumn(col) ? formatCurrency(totals[col.key], locale) : formatNumber(totals[col.key], locale)}`);
+
+  const listed = rows.slice(0, rowCount).map(row =>
+    `• ${rowColumns.map(col => formatValue(row, col, locale)).filter(Boolean).join(' · ')}`);
+  if (rowCount > 0 && rows.length > rowCount) listed.push(`…and ${rows.length - rowCount} more`);
+
+  const conditions = [...(details.filters || []), ...(details.search ? [`search "${details.search}"`] : [])];
+
+  return fillTemplate(share.template || SHARE_TEMPLATES[report.type], {
+    title: report.title,
+    period: details.dateRange ? `📅 ${details.dateRange}` : '',
+    filters: conditions.length > 0 ? `🔎 ${conditions.join('; ')}` : '',
+    count: `${rows.length} ${rows.length === 1 ? 'entry' : 'entries'}`,
+    totals: totalLines.join('\n'),
+    rows: listed.join('\n'),
+    generated: formatDisplayDateTime(now, locale)
+  });
+};
+
+export const whatsAppLink = (text: string) => `https://wa.me/?text=${encodeURIComponent(text)}`;
+
+export type ShareOutcome = 'shared' | 'whatsapp' | 'cancelled';
+
+// The system share sheet when there is one, with the PDF attached where files can be shared;
+// otherwise WhatsApp in a new tab. Must be called from a click, like any share prompt.
+// The PDF is only generated when there is a share sheet to take it.
+export const shareSummary = async (title: string, text: string, createFile?: () => File): Promise<ShareOutcome> => {
+  if (typeof navigator.share === 'function') {
+    const file = createFile?.();
+    const withFile = file && navigator.canShare?.({ files: [file] }) ? { files: [file] } : {};
+    try {
+      await navigator.share({ title, text, ...withFile });
+      return 'shared';
+    } catch (error) {
+      // Dismissing the share sheet is not a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      console.warn('Web Share failed, falling back to WhatsApp', error);
+    }
+  }
+  window.open(whatsAppLink(text), '_blank', 'noopener');
+  return 'whatsapp';
+};
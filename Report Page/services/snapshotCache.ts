@@ -0,0 +1,63 @@
+import { CSVParseResult } from '../types';
+
+const DB_NAME = 'site-reports';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+export interface ReportSnapshot {
+  reportId: string;
+  sourceKey: string; // Identifies the source the data came from, so a config change invalidates it
+  fetchedAt: number;
+  result: CSVParseResult;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'reportId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+  openDB().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  }));
+
+// The cache is best-effort: failures are logged and treated as a miss
+export const getSnapshot = async (reportId: string, sourceKey: string): Promise<ReportSnapshot | null> => {
+  try {
+    const snapshot = await runRequest<ReportSnapshot | undefined>('readonly', store => store.get(reportId));
+    return snapshot && snapshot.sourceKey === sourceKey ? snapshot : null;
+  } catch (error) {
+    console.warn("Snapshot cache unavailable", error);
+    return null;
+  }
+};
+
+export const saveSnapshot = async (snapshot: ReportSnapshot): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(snapshot));
+  } catch (error) {
+    console.warn("Failed to save snapshot", error);
+  }
+};
@@ -0,0 +1,150 @@
+import { LogEntry, ColumnDefinition, ReportConfig, StockConfig, StockDirection, StockLedger, StockMovement, StockPosition, TrendPoint } from '../types';
+import { cellText, getMainDateColumn, parseAmount } from '../utils';
+import { getRowTimestamp } from './rowIndex';
+import { readJSON, writeJSON } from './storage';
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// A configured column name, or the first column whose name fits the pattern
+const findColumn = (columns: ColumnDefinition[], configured: string | undefined, pattern: RegExp) =>
+  configured
+    ? columns.find(col => normalize(col.key) === normalize(configured))
+    : columns.find(col => pattern.test(col.key));
+
+export const getStockColumns = (columns: ColumnDefinition[], config: StockConfig) => ({
+  material: findColumn(columns, config.material, /material|item/i),
+  quantity: findColumn(columns, config.quantity, /qty|quantity/i),
+  site: findColumn(columns, config.site, /site|location/i),
+  unit: findColumn(columns, config.unit, /unit/i),
+  direction: config.direction ? columns.find(col => normalize(col.key) === normalize(config.direction!.column)) : undefined,
+  date: getMainDateColumn(columns)
+});
+
+const createClassifier = (config: StockConfig, directionKey?: string) => {
+  const rule = config.direction;
+  if (!rule) {
+    return (_row: LogEntry, quantity: number): StockDirection | null => quantity < 0 ? 'outward' : 'inward';
+  }
+
+  const inward = (rule.inward || []).map(normalize);
+  const outward = (rule.outward || []).map(normalize);
+  const matches = (value: string, list: string[]) =>
+    rule.match === 'contains' ? list.some(item => value.includes(item)) : list.includes(value);
+
+  return (row: LogEntry): StockDirection | null => {
+    const value = directionKey ? normalize(cellText(row[directionKey])) : '';
+    if (matches(value, inward)) return 'inward';
+    if (matches(value, outward)) return 'outward';
+    return rule.default || null;
+  };
+};
+
+const positionKey = (material: string, site: string) => `${normalize(material)}\u0000${normalize(site)}`;
+
+// Running balances per material, and per site when the report has a site column.
+// Undated entries sort after dated ones; entries on the same day keep their sheet order.
+export const buildStockLedger = (
+  data: LogEntry[],
+  columns: ColumnDefinition[],
+  config: StockConfig,
+  reorderLevels: Record<string, number> = {}
+): StockLedger => {
+  const cols = getStockColumns(columns, config);
+  const ledger: StockLedger = { movements: [], positions: [], skipped: 0, bySite: !!cols.site };
+  if (!cols.material || !cols.quantity) {
+    ledger.skipped = data.length;
+    return ledger;
+  }
+
+  const classify = createClassifier(config, cols.direction?.key);
+  const dated = data
+    .map((row, index) => ({ row, index, timestamp: cols.date ? getRowTimestamp(row, cols.date.key) : NaN }))
+    .sort((a, b) => {
+      const aDated = !isNaN(a.timestamp);
+      const bDated = !isNaN(b.timestamp);
+      if (aDated && bDated && a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+      if (aDated !== bDated) return aDated ? -1 : 1;
+      return a.index - b.index;
+    });
+
+  const levels = new Map(Object.entries(reorderLevels).map(([material, level]) => [normalize(material), level]));
+  const positions = new Map<string, StockPosition>();
+
+  dated.forEach(({ row, timestamp }) => {
+    const material = cellText(row[cols.material!.key]).trim();
+    const quantity = parseAmount(row[cols.quantity!.key]);
+    const direction = material && !isNaN(quantity) ? classify(row, quantity) : null;
+    if (!direction) {
+      ledger.skipped += 1;
+      return;
+    }
+
+    const site = cols.site ? cellText(row[cols.site.key]).trim() : '';
+    const unit = cols.unit ? cellText(row[cols.unit.key]).trim() : '';
+    const key = positionKey(material, site);
+    let position = positions.get(key);
+    if (!position) {
+      position = { material, site, unit, inward: 0, outward: 0, balance: 0, lastMovement: NaN, low: false };
+      positions.set(key, position);
+    }
+
+    const amount = Math.abs(quantity);
+    if (direction === 'inward') position.inward += amount;
+    else position.outward += amount;
+    position.balance += direction === 'inward' ? amount : -amount;
+    if (!isNaN(timestamp)) position.lastMovement = timestamp;
+    if (!position.unit) position.unit = unit;
+
+    ledger.movements.push({ row, timestamp, material, site, unit: unit || position.unit, direction, quantity: amount, balance: position.balance });
+  });
+
+  ledger.positions = Array.from(positions.values())
+    .map(position => {
+      const reorderLevel = levels.get(normalize(position.material));
+      return { ...position, reorderLevel, low: reorderLevel !== undefined && position.balance < reorderLevel };
+    })
+    .sort((a, b) => Number(b.low) - Number(a.low) || a.material.localeCompare(b.material) || a.site.localeCompare(b.site));
+
+  return ledger;
+};
+
+// Movements of one material, at one site or (site omitted) across all of them
+export const getMovements = (ledger: StockLedger, material: string, site?: string): StockMovement[] =>
+  ledger.movements.filter(m =>
+    normalize(m.material) === normalize(material) && (site === undefined || normalize(m.site) === normalize(site)));
+
+// Closing balance per day, for the movement chart. Undated movements have no place on the time axis.
+export const getBalanceHistory = (movements: StockMovement[]): TrendPoint[] => {
+  const points: TrendPoint[] = [];
+  let balance = 0;
+  movements.forEach(movement => {
+    balance += movement.direction === 'inward' ? movement.quantity : -movement.quantity;
+    if (isNaN(movement.timestamp)) return;
+    const day = new Date(movement.timestamp);
+    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+    const last = points[points.length - 1];
+    if (last && last.date === date) {
+      last.amount = balance;
+      last.count += 1;
+    } else {
+      points.push({ date, amount: balance, count: 1 });
+    }
+  });
+  return points;
+};
+
+const reorderKey = (reportId: string) => `reorder:${reportId}`;
+
+// Configured reorder levels, overridden by the ones set in the Stock view
+export const loadReorderLevels = (report: ReportConfig): Record<string, number> => ({
+  ...(report.stock?.reorderLevels || {}),
+  ...readJSON<Record<string, number>>(reorderKey(report.id), {})
+});
+
+// Only the user's own levels are stored; configured ones come back from the report config
+export const saveReorderLevel = (report: ReportConfig, material: string, level: number | null) => {
+  const saved = readJSON<Record<string, number>>(reorderKey(report.id), {});
+  const next = Object.fromEntries(Object.entries(saved).filter(([key]) => normalize(key) !== normalize(material)));
+  if (level !== null) next[material] = level;
+  writeJSON(reorderKey(report.id), next);
+};
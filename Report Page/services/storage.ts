@@ -0,0 +1,28 @@
+// Namespaced localStorage helpers. Storage can be full or disabled (private mode), so failures are non-fatal.
+const PREFIX = 'site-reports:';
+
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Could not read ${key} from local storage`, error);
+    return fallback;
+  }
+};
+
+export const writeJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key} to local storage`, error);
+  }
+};
+
+export const removeKey = (key: string) => {
+  try {
+    localStorage.removeItem(PREFIX + key);
+  } catch (error) {
+    console.warn(`Could not remove ${key} from local storage`, error);
+  }
+};
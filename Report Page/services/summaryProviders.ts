@@ -0,0 +1,89 @@
+import { InsightReport, LocaleConfig } from '../types';
+import { formatCurrency, formatDisplayDate } from '../utils';
+import { getDayOverDayChange } from './insights';
+
+// Turns the rule-based insights into a short natural-language summary.
+// The panel works without one; a provider only adds the written summary.
+export interface SummaryProvider {
+  id: string;
+  label: string;
+  summarize: (report: InsightReport, context: { title: string, locale?: LocaleConfig }) => Promise<string>;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Compact, model-friendly description of the insights. Rows themselves are never sent.
+export const describeInsights = (report: InsightReport, title: string, locale?: LocaleConfig): string => {
+  const lines: string[] = [`Report: ${title}`, `Entries: ${report.entryCount}`];
+  if (report.amountColumn) lines.push(`Total ${report.amountColumn}: ${formatCurrency(report.totalAmount, locale)}`);
+
+  if (report.topContributors) {
+    lines.push(`Top ${report.topContributors.column}: ${report.topContributors.items.map(i => `${i.value} (${i.count})`).join(', ')}`);
+  }
+  report.breakdowns.forEach(b => {
+    lines.push(`By ${b.column}: ${b.items.map(i => `${i.value} (${i.count}${report.amountColumn ? `, ${formatCurrency(i.amount, locale)}` : ''})`).join(', ')}`);
+  });
+
+  const change = getDayOverDayChange(report);
+  if (change) {
+    lines.push(`Latest day ${formatDisplayDate(change.latest.date, locale)}: ${change.latest.count} entries` +
+      (change.change !== null ? `, ${change.change >= 0 ? '+' : ''}${change.change.toFixed(0)}% ${change.metric} vs previous day` : ''));
+  }
+  report.outliers.slice(0, 5).forEach(o => {
+    lines.push(`Outlier in ${o.column}: ${o.value} (typical ${o.median})`);
+  });
+  return lines.join('\n');
+};
+
+export const createGeminiProvider = (apiKey: string): SummaryProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  summarize: async (report, { title, locale }) => {
+    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
+    const prompt = `You are a concise construction site operations analyst. Currency is INR. ` +
+      `Summarise the following report statistics for a site supervisor in 3 to 5 short sentences, ` +
+      `pointing out anything unusual.\n\n${describeInsights(report, title, locale)}`;
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: prompt }] }] })
+    });
+    if (!response.ok) throw new Error(`API error! status: ${response.status}`);
+
+    const result = await response.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new Error('The model returned no summary');
+    return text.trim();
+  }
+});
+
+// Deterministic stand-in for tests and offline demos
+export const createMockProvider = (): SummaryProvider => ({
+  id: 'mock',
+  label: 'Local mock',
+  summarize: async (report, { title, locale }) => {
+    const parts = [`${title} has ${report.entryCount} entries in the current view.`];
+    if (report.amountColumn) parts.push(`They total ${formatCurrency(report.totalAmount, locale)}.`);
+    const top = report.topContributors?.items[0];
+    if (top) parts.push(`${top.value} leads ${report.topContributors!.column} with ${top.count} entries.`);
+    if (report.outliers.length > 0) parts.push(`${report.outliers.length} unusually large value(s) need a look.`);
+    return parts.join(' ');
+  }
+});
+
+// `?llm=mock` forces the mock; otherwise Gemini is used when GEMINI_API_KEY was set at build time
+export const getSummaryProvider = (): SummaryProvider | null => {
+  const requested = new URLSearchParams(window.location.search).get('llm');
+  if (requested === 'mock') return createMockProvider();
+  if (requested === 'off') return null;
+
+  // vite.config.ts substitutes the key at build time; without it `process` doesn't exist in the browser
+  let apiKey: string | undefined;
+  try {
+    apiKey = process.env.GEMINI_API_KEY;
+  } catch {
+    apiKey = undefined;
+  }
+  return apiKey ? createGeminiProvider(apiKey) : null;
+};
@@ -0,0 +1,112 @@
+import { ViewState, ViewMode, DateRange, DateRangePreset, FilterState, FilterOperator } from '../types';
+import { ALL_DATES, resolveDateRange, toInputValue, fromInputValue } from '../utils';
+import { ALL_OPERATORS, getOperatorArity } from './filters';
+
+// Other parameters (?config, ?llm) pass through untouched.
+// Each filter condition reads as f<n>.<column>=<value> for "is" (repeated for several values) and
+// f<n>.<column>.<operator>=<value> otherwise, numbered so two conditions on one column stay apart.
+// Links made before the numbering (f.<column>...) still open, one condition per parameter name.
+const FILTER_PARAM = /^f(\d*)\.(.+)$/;
+const VIEW_PARAMS = ['report', 'view', 'range', 'from', 'to', 'q', 'sort', 'dir', 'page'];
+
+const VIEW_MODES: ViewMode[] = ['table', 'pivot', 'stock', 'muster', 'pipeline', 'payments'];
+
+const RELATIVE_PRESETS: DateRangePreset[] = ['today', 'yesterday', 'thisWeek', 'thisMonth', 'lastMonth'];
+
+// Relative presets stay relative, so "this month" links keep meaning this month
+const readDateRange = (params: URLSearchParams): DateRange => {
+  const preset = params.get('range') as DateRangePreset | null;
+  if (preset && RELATIVE_PRESETS.includes(preset)) return resolveDateRange(preset);
+
+  const start = fromInputValue(params.get('from') || '', false);
+  const end = fromInputValue(params.get('to') || '', true);
+  return start === null && end === null ? ALL_DATES : { preset: 'custom', start, end };
+};
+
+// The column and operator from a parameter name without its f<n>. prefix
+const readFilterName = (name: string): { column: string, operator: FilterOperator } => {
+  const dot = name.lastIndexOf('.');
+  const suffix = dot === -1 ? '' : name.slice(dot + 1);
+  // Column names can contain dots ("Bill No."), so only a known operator counts as a suffix
+  const operator = ALL_OPERATORS.includes(suffix as FilterOperator) ? suffix as FilterOperator : 'in';
+  const column = operator === 'in' && suffix !== 'in' ? name : name.slice(0, dot);
+  return { column, operator };
+};
+
+const readFilters = (params: URLSearchParams): FilterState => {
+  const byCondition = new Map<string, { order: number, name: string, values: string[] }>();
+  params.forEach((value, key) => {
+    const match = key.match(FILTER_PARAM);
+    if (!match) return;
+    const [, index, name] = match;
+    // Numbered parameters group by number; old-style ones by their whole name
+    const id = index === '' ? key : index;
+    const condition = byCondition.get(id) || { order: index === '' ? Infinity : Number(index), name, values: [] };
+    condition.values.push(value);
+    byCondition.set(id, condition);
+  });
+
+  return Array.from(byCondition.values())
+    .sort((a, b) => a.order - b.order)
+    .flatMap(({ name, values }) => {
+      const { column, operator } = readFilterName(name);
+      const arity = getOperatorArity(operator);
+      const kept = arity === 'many' ? values : arity === 'none' ? [] : values.slice(0, 2);
+      return column ? [{ column, operator, values: kept }] : [];
+    });
+};
+
+const writeFilters = (params: URLSearchParams, filters: FilterState) => {
+  filters.forEach(({ column, operator, values }, index) => {
+    const key = `f${index}.${column}${operator === 'in' ? '' : `.${operator}`}`;
+    if (values.length === 0) params.append(key, '');
+    values.forEach(value => params.append(key, value));
+  });
+};
+
+export const readViewState = (search: string, tabs: string[]): ViewState => {
+  const params = new URLSearchParams(search);
+
+  const tab = params.get('report') || '';
+  const sortKey = params.get('sort');
+  const page = parseInt(params.get('page') || '', 10);
+
+  return {
+    tab: tabs.includes(tab) ? tab : tabs[0],
+    view: VIEW_MODES.includes(params.get('view') as ViewMode) ? params.get('view') as ViewMode : 'table',
+    filters: readFilters(params),
+    dateRange: readDateRange(params),
+    search: params.get('q') || '',
+    sort: sortKey ? { key: sortKey, direction: params.get('dir') === 'desc' ? 'desc' : 'asc' } : null,
+    page: page > 0 ? page : 1
+  };
+};
+
+// Query string for the view, keeping any unrelated parameters; defaults are left out to keep links short
+export const writeViewState = (state: ViewState, search: string): string => {
+  const params = new URLSearchParams(search);
+  VIEW_PARAMS.forEach(key => params.delete(key));
+  Array.from(params.keys()).filter(key => FILTER_PARAM.test(key)).forEach(key => params.delete(key));
+
+  params.set('report', state.tab);
+  if (state.view !== 'table') params.set('view', state.view);
+
+  const { preset, start, end } = state.dateRange;
+  if (RELATIVE_PRESETS.includes(preset)) {
+    params.set('range', preset);
+  } else {
+    if (start !== null) params.set('from', toInputValue(start));
+    if (end !== null) params.set('to', toInputValue(end));
+  }
+
+  writeFilters(params, state.filters);
+  if (state.search) params.set('q', state.search);
+  if (state.sort) {
+    params.set('sort', state.sort.key);
+    if (state.sort.direction === 'desc') params.set('dir', 'desc');
+  }
+  if (state.page > 1) params.set('page', String(state.page));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
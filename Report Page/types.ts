@@ -1,22 +1,509 @@
+// Raw sheet cells are strings; columns declared in a report schema hold typed values (null when empty)
+export type CellValue = string | number | Date | null;
+
 export interface LogEntry {
-  [key: string]: string | number;
+  [key: string]: CellValue;
+}
+
+// Built-in report kinds; 'custom' covers any other log added through the config
+export type ReportType = 'work' | 'tea' | 'material' | 'enquiry' | 'payment' | 'custom';
+
+export type DataSourceConfig =
+  | { kind: 'sheet'; url: string }                 // Published Google Sheet CSV link
+  | { kind: 'file'; format?: 'csv' | 'json' }      // CSV/JSON file picked by the user
+  | { kind: 'fixture'; path: string };             // Bundled sample data for offline demos
+
+// Column choices keyed by the sheet's header names, never by position
+export interface ColumnLayout {
+  order?: string[];
+  hidden?: string[];
+  labels?: Record<string, string>;
+  pinned?: string[];
+}
+
+export type ColumnType = 'date' | 'datetime' | 'number' | 'currency' | 'text' | 'enum' | 'url';
+
+export interface ColumnSchema {
+  type: ColumnType;
+  format?: string;    // Date layout such as "DD/MM/YYYY" or "YYYY-MM-DD HH:mm"; the flexible parser is used when omitted
+  required?: boolean;
+  values?: string[];  // Allowed values for enum columns
 }
 
+// Declared columns keyed by the sheet's header names; undeclared columns are detected heuristically
+export type ReportSchema = Record<string, ColumnSchema>;
+
 export interface ReportConfig {
   id: string;
   title: string;
-  url: string;
-  type: 'work' | 'tea' | 'material' | 'enquiry';
+  type: ReportType;
+  icon: string;
   primaryColor: string;
+  source: DataSourceConfig;
+  columns?: ColumnLayout; // Defaults until the user arranges the columns themselves
+  schema?: ReportSchema;
+  refresh?: RefreshConfig;
+  stock?: StockConfig; // Turns on the Stock view
+  muster?: MusterConfig; // Turns on the Muster Roll view
+  pipeline?: PipelineConfig; // Turns on the Pipeline view
+  payment?: PaymentConfig; // Column choices for the Payments view of a 'payment' report
+  share?: ShareConfig; // Overrides the report type's share message
+  locale?: LocaleConfig; // How the sheet's dates are read, and how dates and amounts are shown
+}
+
+export type DateInputFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+export type NumberGrouping = 'indian' | 'international';
+
+export interface LocaleConfig {
+  dateFormat?: DateInputFormat; // Order of day and month in undeclared date cells, and in displayed dates
+  grouping?: NumberGrouping;    // 12,34,567.00 (lakh/crore) or 1,234,567.00
+  currency?: string;            // ISO 4217 code, e.g. "INR"
+}
+
+// Text summary posted from the Share button. Templates use {title}, {period}, {filters}, {count},
+// {totals}, {rows} and {generated}. A line of only placeholders that all come out empty is dropped;
+// elsewhere an empty placeholder is left out along with the separator next to it.
+export interface ShareConfig {
+  template?: string;
+  rows?: number; // How many of the top rows to list, 5 by default; 0 leaves them out
+  columns?: string[]; // Columns shown for each listed row
+}
+
+export type PaymentKind = 'due' | 'paid';
+
+// Bills raised (due) and payments released (paid) to parties, in one sheet
+export interface PaymentConfig {
+  party?: string; // Column names; guessed from the headers when left out
+  amount?: string;
+  kind?: {
+    column: string; // e.g. "Type"
+    due?: string[]; // Values meaning a bill, such as "Bill" or "Invoice"
+    paid?: string[];
+    match?: 'exact' | 'contains';
+    default?: PaymentKind; // For values on neither list; such rows are skipped otherwise
+  };
+}
+
+export interface PaymentEntry {
+  row: LogEntry;
+  timestamp: number; // NaN when undated
+  party: string;
+  kind: PaymentKind;
+  amount: number;
+  balance: number; // The party's outstanding after this entry
+}
+
+export interface PartyBalance {
+  party: string;
+  billed: number;
+  paid: number;
+  outstanding: number; // Negative when paid in advance
+  ageing: number[]; // Unpaid bill amounts per AGEING_BUCKETS entry
+  lastPayment: number; // NaN when never paid
+}
+
+export interface PaymentLedger {
+  entries: PaymentEntry[];
+  parties: PartyBalance[];
+  billed: number;
+  paid: number;
+  outstanding: number;
+  ageing: number[];
+  skipped: number;
+  asOf: number;
+}
+
+// Enquiries as sales leads. Stages come from a status column when there is one; any
+// enquiry can also be moved locally, and that choice wins over the sheet.
+export interface PipelineConfig {
+  stages?: string[]; // In order; the default runs New → Contacted → Site visit → Quoted → Won, plus Lost
+  won?: string; // Stage that counts as converted, "Won" by default
+  lost?: string[]; // Stages that drop out of the funnel, ["Lost"] by default
+  status?: string; // Column names; guessed from the headers when left out
+  followUp?: string;
+  source?: string;
+  identity?: string[]; // Columns that identify an enquiry; falls back to refresh.identity, then the timestamp and name columns
+}
+
+// What's stored on this device for one enquiry
+export interface PipelineEntryState {
+  stage?: string;
+  followUp?: string; // yyyy-mm-dd
+  notes?: { at: number; text: string }[];
+}
+
+export interface PipelineCard {
+  id: string; // Stable row identity, the key for locally stored state
+  row: LogEntry;
+  title: string;
+  details: string[];
+  stage: string;
+  stageIsLocal: boolean;
+  followUp: number; // Start of day, NaN when none
+  notes: { at: number; text: string }[];
+  received: number; // When the enquiry came in, NaN when unknown
+  source: string;
+}
+
+export interface ConversionRow {
+  group: string;
+  total: number;
+  won: number;
+  lost: number;
+  rate: number; // won / total
 }
 
-export interface FilterState {
-  [key: string]: string;
+// Attendance and wages from a worklog: one entry per worker per day worked
+export interface MusterConfig {
+  worker?: string; // Column names; guessed from the headers when left out
+  trade?: string;
+  // Columns counting the labourers of each trade an entry covers (e.g. MA, MC, FC). Each column is then a
+  // trade with its own line per worker, adding that many person-days a day and priced by its trade rate.
+  // Without them each entry is one person, at most a day per day.
+  headcount?: string[];
+  day?: {
+    column: string;
+    half?: string[]; // Values (matched as case-insensitive substrings) that mean a half day
+    fullHours?: number; // When the column holds hours: this many or more is a full day...
+    halfHours?: number; // ...this many or more a half day, and fewer counts as absent
+  };
+  wages?: {
+    workers?: Record<string, number>; // Daily rate by worker name
+    trades?: Record<string, number>; // Daily rate by trade, or by headcount column when those are set
+    default?: number;
+  };
 }
 
+export type MusterPeriod = 'week' | 'month';
+
+export interface MusterWorker {
+  name: string;
+  trade: string; // The headcount column's label when those are set
+  rateKey: string; // What a rate typed in the view is saved under: the worker, or the trade for headcount columns
+  attendance: number[]; // Person-days for each day of the period: 0, 0.5 or 1 unless headcount columns are set
+  daysWorked: number;
+  rate?: number;
+  payable?: number;
+}
+
+export interface MusterRoll {
+  days: number[]; // Start of each day in the period
+  workers: MusterWorker[];
+  headcount: number[]; // Person-days each day, half days included
+  totalDays: number;
+  totalPayable: number;
+  unpriced: number; // Workers with no wage rate
+  skipped: number; // Entries in the period with no worker name
+}
+
+export type StockDirection = 'inward' | 'outward';
+
+// How entries become stock movements. With a direction column its values are matched against the
+// inward/outward lists; without one, negative quantities are outward and the rest inward.
+export interface StockConfig {
+  material?: string; // Column names; guessed from the headers when left out
+  quantity?: string;
+  site?: string;
+  unit?: string;
+  direction?: {
+    column: string;
+    inward?: string[];
+    outward?: string[];
+    match?: 'exact' | 'contains'; // Case-insensitive either way; exact by default
+    default?: StockDirection; // For values on neither list; such rows are skipped otherwise
+  };
+  reorderLevels?: Record<string, number>; // Material -> lowest acceptable balance
+}
+
+export interface StockMovement {
+  row: LogEntry;
+  timestamp: number; // NaN when the entry has no usable date
+  material: string;
+  site: string;
+  unit: string;
+  direction: StockDirection;
+  quantity: number; // Always positive; the direction gives the sign
+  balance: number; // Running balance of this material (at this site) after the movement
+}
+
+export interface StockPosition {
+  material: string;
+  site: string;
+  unit: string;
+  inward: number;
+  outward: number;
+  balance: number;
+  lastMovement: number;
+  reorderLevel?: number;
+  low: boolean;
+}
+
+export interface StockLedger {
+  movements: StockMovement[]; // Oldest first
+  positions: StockPosition[];
+  skipped: number; // Entries without a material, a quantity or a direction
+  bySite: boolean;
+}
+
+// Background polling. Rows are matched between fetches by their identity columns, e.g. Timestamp + Name.
+export interface RefreshConfig {
+  intervalMinutes?: number; // Default interval; each user can change it or turn polling off
+  identity?: string[]; // Whole rows are compared when left out
+  notify?: boolean; // Offer browser notifications for new rows
+}
+
+// What changed between two fetches, as row identities
+export interface RowDiff {
+  added: string[];
+  modified: string[];
+  removed: string[];
+  addedRows: LogEntry[];
+}
+
+// Changes the user hasn't looked at yet, gathered across refreshes
+export interface ReportChanges {
+  added: Set<string>;
+  modified: Set<string>;
+  removed: number;
+}
+
+export type RowChange = 'added' | 'modified';
+
+export type FilterOperator =
+  | 'in' | 'notIn'        // Any / none of the listed values
+  | 'contains' | 'equals'
+  | 'gt' | 'lt' | 'between'
+  | 'isEmpty' | 'isNotEmpty';
+
+export interface FilterCondition {
+  column: string;
+  operator: FilterOperator;
+  values: string[]; // As typed or picked: one for contains/equals/gt/lt, two for between, none for the empty checks
+}
+
+// Every condition must hold
+export type FilterState = FilterCondition[];
+
 export interface ColumnDefinition {
   key: string;
   label: string;
   isNumeric?: boolean;
   isDate?: boolean;
-}
\ No newline at end of file
+  pinned?: boolean;
+  type?: ColumnType; // Set only for columns declared in the report schema
+}
+
+export interface CSVRowIssue {
+  line: number;
+  action: 'skipped' | 'repaired';
+  reason: string;
+  raw?: string;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  rows: LogEntry[];
+  issues: CSVRowIssue[];
+  sourceRows?: number[]; // Sheet row each entry was read from, header being row 1; CSV sources only
+}
+
+// What's wrong with a cell, as a message key and the values to fill into it;
+// validation runs in the worker, which doesn't know the UI language
+export interface SchemaIssue {
+  reason: string;
+  values?: Record<string, string>;
+}
+
+export interface SchemaIssueTally extends SchemaIssue {
+  column: string;
+  count: number;
+  example: string; // First offending value, for the summary
+}
+
+export interface SchemaValidation {
+  cellIssues: Map<LogEntry, Record<string, SchemaIssue>>; // Row -> column -> issue
+  tallies: SchemaIssueTally[];
+  missingColumns: string[]; // Required columns the data doesn't have at all
+  invalidCells: number;
+}
+
+// Rows ready for display: schema applied, columns typed and date cells parsed once
+export interface PreparedData {
+  rows: LogEntry[];
+  validation: SchemaValidation;
+  columns: ColumnDefinition[];
+  timestamps: Record<string, number[]>; // Date column -> timestamp of each row, in row order
+}
+
+// Messages to and from the background parsing worker
+export type DataWorkerTask =
+  | { task: 'parseCSV', buffer: ArrayBuffer }
+  | { task: 'prepare', rows: LogEntry[], schema?: ReportSchema, locale?: LocaleConfig };
+
+export type DataWorkerRequest = DataWorkerTask & { id: number };
+
+export interface DataWorkerResponse {
+  id: number;
+  result?: CSVParseResult | PreparedData;
+  error?: string;
+}
+
+export interface SyncStatus {
+  state: 'syncing' | 'synced' | 'offline' | 'error';
+  fetchedAt: number | null; // When the data on screen was fetched from its source
+}
+
+export type DateRangePreset = 'all' | 'today' | 'yesterday' | 'thisWeek' | 'thisMonth' | 'lastMonth' | 'custom';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  start: number | null; // Inclusive, ms since epoch
+  end: number | null;   // Inclusive, ms since epoch
+}
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+// One piece of a table search such as `qty>50`, `-status:closed` or `"exact phrase"`
+export interface QueryTerm {
+  column?: string; // Column key; plain terms search every value
+  operator: QueryOperator;
+  value: string;
+  negate: boolean;
+}
+
+export interface SortState {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+export type ViewMode = 'table' | 'pivot' | 'stock' | 'muster' | 'pipeline' | 'payments';
+
+// Everything a shared link restores
+export interface ViewState {
+  tab: string;
+  view: ViewMode;
+  filters: FilterState;
+  dateRange: DateRange;
+  search: string;
+  sort: SortState | null;
+  page: number;
+}
+
+// A named filter, search, sort, page size and column arrangement the user can return to
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: FilterState;
+  dateRange: DateRange; // Relative presets are re-resolved when the view is applied
+  search: string;
+  sort: SortState | null;
+  pageSize: number; // 0 shows every row
+  layout: ColumnLayout;
+}
+
+export interface SavedViewSet {
+  views: SavedView[];
+  defaultId?: string; // Applied when the report's tab is opened
+}
+
+// One filled-in field of an entry as the details modal shows it; links are set when the value is only web links
+export interface EntryField {
+  key: string;
+  label: string;
+  value: string;
+  links: string[];
+}
+
+// Another report's entries for the day an entry was made
+export interface SameDayRecords {
+  report: ReportConfig;
+  columns: ColumnDefinition[];
+  rows: LogEntry[];
+  error?: string;
+}
+
+export interface ValueTally {
+  value: string;
+  count: number;
+  amount: number;
+}
+
+export interface CategoryBreakdown {
+  column: string;
+  items: ValueTally[];
+}
+
+export interface TrendPoint {
+  date: number; // Start of day, ms since epoch
+  count: number;
+  amount: number;
+}
+
+export interface Outlier {
+  column: string;
+  value: number;
+  median: number;
+  entry: LogEntry;
+}
+
+export type QualityCheck = 'duplicate' | 'nearDuplicate' | 'empty' | 'badDate' | 'futureDate' | 'notNumeric' | 'outlier' | 'spelling';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  column?: string;   // Label of the column concerned; unset for whole-row checks
+  detail: string;    // Message key of what was found, filled in with values (see describeIssue)
+  values: Record<string, string | number>;
+  rows: number[];    // Indexes into the audited rows, in sheet order
+}
+
+export interface InsightReport {
+  entryCount: number;
+  totalAmount: number;
+  amountColumn?: string;
+  breakdowns: CategoryBreakdown[];
+  topContributors: CategoryBreakdown | null;
+  trend: { column: string; points: TrendPoint[] } | null;
+  outliers: Outlier[];
+}
+
+export interface SummaryHighlight {
+  label: string;
+  value: string;
+}
+
+// One report's entries for the day shown on the Daily Summary
+export interface DailySummarySection {
+  report: ReportConfig;
+  columns: ColumnDefinition[];
+  rows: LogEntry[];
+  highlights: SummaryHighlight[];
+  siteSpecific: boolean; // False when the report has no site column, so the site filter doesn't apply
+}
+
+// How an exported view was produced, printed on PDFs and stored with other formats
+export interface ExportDetails {
+  dateRange?: string;
+  filters?: string[]; // Readable conditions, e.g. "Material is Cement, Steel"
+  search?: string;
+  locale?: LocaleConfig; // How dates and amounts in the file are written
+}
+
+export type PivotAggregation = 'sum' | 'count' | 'avg' | 'min' | 'max';
+
+export type DateBucket = 'day' | 'week' | 'month';
+
+export interface PivotDimension {
+  key: string;
+  bucket?: DateBucket; // Only used for date columns
+}
+
+export interface PivotMeasure {
+  aggregation: PivotAggregation;
+  column?: string; // Numeric column to aggregate; not needed for count
+}
+
+export interface PivotConfig {
+  rows: PivotDimension[];
+  column: PivotDimension | null;
+  measures: PivotMeasure[];
+}
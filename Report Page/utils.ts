@@ -1,104 +1,75 @@
-import { LogEntry, ColumnDefinition } from './types';
+import { LogEntry, CellValue, ColumnDefinition, DateInputFormat, DateRange, DateRangePreset, LocaleConfig, DailySummarySection, ExportDetails, StockLedger, PartyBalance, PaymentEntry, EntryField } from './types';
 
-// Robust CSV Line Splitter handling quotes
-const splitCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+// Formatters take the locale of the report whose values they show; without one they use the firm's own
+export const DEFAULT_LOCALE: Required<LocaleConfig> = { dateFormat: 'DD/MM/YYYY', grouping: 'indian', currency: 'INR' };
+
+export const resolveLocale = (locale?: LocaleConfig): Required<LocaleConfig> => ({ ...DEFAULT_LOCALE, ...locale });
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+// Built once per locale and style. Digits stay Latin whatever the UI language; only the grouping changes.
+const getNumberFormat = (locale: LocaleConfig | undefined, style: 'currency' | 'number' | 'compact') => {
+  const { grouping, currency } = resolveLocale(locale);
+  const key = `${grouping}:${style}:${style === 'currency' ? currency : ''}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    const tag = grouping === 'indian' ? 'en-IN' : 'en-US';
+    const options: Record<typeof style, Intl.NumberFormatOptions> = {
+      currency: { style: 'currency', currency, minimumFractionDigits: 2 },
+      number: { maximumFractionDigits: 2 },
+      compact: { notation: 'compact', maximumFractionDigits: 1 }
+    };
+    format = new Intl.NumberFormat(tag, options[style]);
+    numberFormats.set(key, format);
   }
-  result.push(current.trim());
-  return result.map(val => val.replace(/^"|"$/g, '').replace(/""/g, '"'));
+  return format;
 };
 
-// Robust Date Parser supporting DD/MM/YYYY (priority) and Standard ISO
-export const parseDate = (dateStr: string): number => {
+// Numeric dates are read in the locale's day/month order, with an optional time (24-hour or AM/PM).
+// Matches: 1/1/2024, 01-01-24, 01.01.2024, 01/01/2024 10:30, 1/2/2024 2:05:09 PM
+const NUMERIC_DATE = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})(?:,?\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?\s*([AaPp][Mm])?)?$/;
+
+// DD/MM/YYYY unless the report reads month first. ISO and spelled-out dates go to Date.parse;
+// a numeric date that doesn't fit the order is rejected rather than guessed at.
+export const parseDate = (dateStr: CellValue, dateFormat: DateInputFormat = DEFAULT_LOCALE.dateFormat): number => {
+  if (dateStr instanceof Date) return dateStr.getTime();
+  if (dateStr === null) return NaN;
   const d = String(dateStr).trim();
   if (!d) return NaN;
-  
-  // 1. Prioritize DD/MM/YYYY [HH:mm:ss] format (Common in IN/UK)
-  // Matches: 1/1/2024, 01/01/2024, 1-1-2024, 01.01.2024, 01/01/2024 10:30, 01/01/2024 10:30:45
-  const dmyRegex = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})(?:\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?)?$/;
-  const match = d.match(dmyRegex);
 
+  const match = d.match(NUMERIC_DATE);
   if (match) {
-    const day = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10) - 1; // Month is 0-indexed
+    const [a, b] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+    const [day, month] = dateFormat === 'MM/DD/YYYY' ? [b, a - 1] : [a, b - 1];
     const yearPart = parseInt(match[3], 10);
     const year = yearPart < 100 ? yearPart + 2000 : yearPart;
-    
-    // Time parts (optional)
-    const hour = match[4] ? parseInt(match[4], 10) : 0;
+
+    let hour = match[4] ? parseInt(match[4], 10) : 0;
     const minute = match[5] ? parseInt(match[5], 10) : 0;
     const second = match[6] ? parseInt(match[6], 10) : 0;
-    
-    // Validate basics
-    if (month >= 0 && month <= 11 && day >= 1 && day <= 31) {
-       const dateObj = new Date(year, month, day, hour, minute, second);
-       if (!isNaN(dateObj.getTime())) {
-          return dateObj.getTime();
-       }
+    if (match[7]) {
+      if (hour < 1 || hour > 12) return NaN;
+      hour = (hour % 12) + (match[7].toUpperCase() === 'PM' ? 12 : 0);
     }
+
+    const date = new Date(year, month, day, hour, minute, second);
+    // Date rolls 31/02 over into March; reject instead
+    if (month < 0 || date.getMonth() !== month || date.getDate() !== day || hour > 23 || minute > 59 || second > 59) return NaN;
+    return date.getTime();
   }
 
-  // 2. Fallback to native Date.parse (Handles ISO YYYY-MM-DD, and US MM/DD/YYYY)
-  const timestamp = Date.parse(d);
-  if (!isNaN(timestamp)) return timestamp;
-  
-  return NaN;
+  // ISO (YYYY-MM-DD) and spelled-out dates such as "5 Jan 2024"
+  return Date.parse(d);
 };
 
-export const parseCSV = async (url: string): Promise<LogEntry[]> => {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch data');
-    const text = await response.text();
-    
-    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-    if (lines.length < 2) return [];
-
-    const headers = splitCSVLine(lines[0]);
-    
-    const data: LogEntry[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const currentLine = splitCSVLine(lines[i]);
-      if (currentLine.length === headers.length) {
-        const entry: LogEntry = {};
-        headers.forEach((header, index) => {
-          const key = header.trim();
-          let value: string | number = currentLine[index];
-          entry[key] = value;
-        });
-        data.push(entry);
-      }
-    }
-    return data;
-  } catch (error) {
-    console.error("Error parsing CSV", error);
-    return [];
-  }
-};
+export const formatCurrency = (amount: number, locale?: LocaleConfig): string =>
+  getNumberFormat(locale, 'currency').format(amount);
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    minimumFractionDigits: 2
-  }).format(amount);
-};
+// Quantities and totals, grouped the way the report's locale groups them
+export const formatNumber = (value: number, locale?: LocaleConfig): string =>
+  getNumberFormat(locale, 'number').format(value);
 
-export const identifyColumns = (data: LogEntry[]): ColumnDefinition[] => {
+export const identifyColumns = (data: LogEntry[], dateFormat?: DateInputFormat): ColumnDefinition[] => {
   if (data.length === 0) return [];
   const keys = Object.keys(data[0]);
   
@@ -107,7 +78,7 @@ export const identifyColumns = (data: LogEntry[]): ColumnDefinition[] => {
     // Look for a non-empty value to guess type
     for (let i = 0; i < Math.min(data.length, 10); i++) {
         if (data[i][key]) {
-            sampleValue = String(data[i][key]);
+            sampleValue = cellText(data[i][key]);
             break;
         }
     }
@@ -119,7 +90,7 @@ export const identifyColumns = (data: LogEntry[]): ColumnDefinition[] => {
     if (isDateKey) {
         isDate = true;
     } else if (sampleValue) {
-        const parsed = parseDate(sampleValue);
+        const parsed = parseDate(sampleValue, dateFormat);
         // Ensure it has date separators to avoid false positives on simple numbers
         const hasDateSeparators = /[\/.-]/.test(sampleValue);
         isDate = !isNaN(parsed) && sampleValue.length > 5 && hasDateSeparators;
@@ -136,42 +107,567 @@ export const identifyColumns = (data: LogEntry[]): ColumnDefinition[] => {
   });
 };
 
-export const downloadPDF = (title: string, columns: ColumnDefinition[], data: LogEntry[]) => {
+// jsPDF's built-in fonts have no rupee glyph
+const toPdfText = (value: CellValue, locale?: LocaleConfig): string => cellText(value, locale).replace(/₹\s?/g, 'Rs. ');
+
+// Lines describing how the export was produced; shared by the PDF header and the Excel info sheet
+export const describeExport = (details: ExportDetails, rowCount: number): string[] => {
+  const lines = [`Rows: ${rowCount}`];
+  if (details.dateRange) lines.push(`Date range: ${details.dateRange}`);
+  if (details.filters && details.filters.length > 0) {
+    lines.push(`Filters: ${details.filters.join('; ')}`);
+  }
+  if (details.search) lines.push(`Search: "${details.search}"`);
+  return lines;
+};
+
+// Numeric columns worth totalling; identifiers such as bill or phone numbers are left out
+export const isSummableColumn = (col: ColumnDefinition) =>
+  col.type === 'currency' || (!!col.isNumeric && !/\b(no|number|id|phone|mobile|contact|bill|invoice|code|pin|year)\b/i.test(col.key));
+
+// A declared type wins over the name-based guess
+export const isCurrencyColumn = (col: ColumnDefinition) =>
+  col.type ? col.type === 'currency' : !!col.isNumeric && /amount|price|cost|total/i.test(col.key);
+
+export const getColumnTotals = (
+  columns: ColumnDefinition[],
+  data: LogEntry[],
+  isTotalled: (col: ColumnDefinition) => boolean = isSummableColumn
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  columns.filter(isTotalled).forEach(col => {
+    totals[col.key] = data.reduce((sum, row) => sum + (parseAmount(row[col.key]) || 0), 0);
+  });
+  return totals;
+};
+
+// Tables wider than this are printed in landscape
+const LANDSCAPE_COLUMN_COUNT = 6;
+
+// The table report behind downloadPDF and the PDF attached to shared summaries
+const buildReportPDF = (
+  title: string,
+  columns: ColumnDefinition[],
+  data: LogEntry[],
+  details: ExportDetails,
+  isTotalled?: (col: ColumnDefinition) => boolean
+) => {
   // @ts-ignore
   const { jsPDF } = window.jspdf;
-  const doc = new jsPDF();
+  const landscape = columns.length > LANDSCAPE_COLUMN_COUNT;
+  const doc = new jsPDF({ orientation: landscape ? 'landscape' : 'portrait' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
 
   doc.setFontSize(18);
   doc.text(title, 14, 22);
   doc.setFontSize(11);
   doc.setTextColor(100);
-  doc.text(`Generated on ${new Date().toLocaleDateString()}`, 14, 30);
+  doc.text(`Generated on ${formatDisplayDate(Date.now(), details.locale)}`, 14, 30);
+
+  // Record exactly which view produced this file
+  doc.setFontSize(9);
+  let y = 36;
+  describeExport(details, data.length).forEach(line => {
+    const wrapped = doc.splitTextToSize(toPdfText(line), pageWidth - 28);
+    doc.text(wrapped, 14, y);
+    y += wrapped.length * 4.5;
+  });
 
   const tableColumn = columns.map(col => col.label);
-  const tableRows = data.map(row => columns.map(col => row[col.key]));
+  const tableRows = data.map(row => columns.map(col => toPdfText(row[col.key], details.locale)));
+
+  const totals = getColumnTotals(columns, data, isTotalled);
+  const hasTotals = Object.keys(totals).length > 0 && data.length > 0;
+  const labelIndex = columns.findIndex(col => !(col.key in totals));
+  const footRow = columns.map((col, index) => {
+    if (col.key in totals) {
+      return isCurrencyColumn(col)
+        ? toPdfText(formatCurrency(totals[col.key], details.locale))
+        : formatNumber(totals[col.key], details.locale);
+    }
+    return index === labelIndex ? 'Total' : '';
+  });
 
   // @ts-ignore
   doc.autoTable({
     head: [tableColumn],
     body: tableRows,
-    startY: 40,
+    foot: hasTotals ? [footRow] : undefined,
+    showFoot: 'lastPage',
+    startY: y + 4,
+    theme: 'grid',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    footStyles: { fillColor: [241, 245, 249], textColor: [30, 41, 59], fontStyle: 'bold' },
+    margin: { bottom: 16 },
+  });
+
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc;
+};
+
+// isTotalled picks the columns given a "Total" footer; by default every summable column
+export const downloadPDF = (
+  title: string,
+  columns: ColumnDefinition[],
+  data: LogEntry[],
+  details: ExportDetails = {},
+  isTotalled?: (col: ColumnDefinition) => boolean
+) => {
+  buildReportPDF(title, columns, data, details, isTotalled).save(`${title.replace(/\s+/g, '_')}_Report.pdf`);
+};
+
+// Same document as downloadPDF, as a file that can be handed to the Web Share API
+export const createPDFFile = (
+  title: string,
+  columns: ColumnDefinition[],
+  data: LogEntry[],
+  details: ExportDetails = {}
+): File => {
+  const blob: Blob = buildReportPDF(title, columns, data, details).output('blob');
+  return new File([blob], `${title.replace(/\s+/g, '_')}_Report.pdf`, { type: 'application/pdf' });
+};
+
+// One entry as a two-column field/value sheet
+export const downloadEntryPDF = (title: string, subtitle: string, fields: EntryField[], locale?: LocaleConfig) => {
+  // @ts-ignore
+  const { jsPDF } = window.jspdf;
+  const doc = new jsPDF();
+
+  doc.setFontSize(18);
+  doc.text(title, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(subtitle, 14, 30);
+  doc.text(`Generated on ${formatDisplayDate(Date.now(), locale)}`, 14, 36);
+
+  // @ts-ignore
+  doc.autoTable({
+    head: [['Field', 'Value']],
+    body: fields.map(field => [toPdfText(field.label), toPdfText(field.links.length > 0 ? field.links.join('\n') : field.value)]),
+    startY: 44,
+    theme: 'grid',
+    styles: { fontSize: 9, valign: 'top' },
+    headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    columnStyles: { 0: { cellWidth: 50, fontStyle: 'bold' } },
+  });
+
+  doc.save(`${title.replace(/\s+/g, '_')}_Entry.pdf`);
+};
+
+export const downloadDailySummaryPDF = (title: string, subtitle: string, sections: DailySummarySection[], locale?: LocaleConfig) => {
+  // @ts-ignore
+  const { jsPDF } = window.jspdf;
+  const doc = new jsPDF();
+
+  doc.setFontSize(18);
+  doc.text(title, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(subtitle, 14, 30);
+  doc.text(`Generated on ${formatDisplayDate(Date.now(), locale)}`, 14, 36);
+
+  let y = 46;
+  sections.forEach(section => {
+    // Keep a heading together with at least the start of its table
+    if (y > 250) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(14);
+    doc.setTextColor(30);
+    doc.text(section.report.title, 14, y);
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    const highlights = section.highlights.map(h => `${h.label}: ${toPdfText(h.value)}`).join('   ');
+    const highlightLines = doc.splitTextToSize(highlights, 180);
+    doc.text(highlightLines, 14, y + 6);
+    y += 8 + highlightLines.length * 4;
+
+    if (section.rows.length === 0) {
+      doc.setTextColor(150);
+      doc.text('No entries for this day.', 14, y + 2);
+      y += 12;
+      return;
+    }
+
+    // @ts-ignore
+    doc.autoTable({
+      head: [section.columns.map(col => col.label)],
+      body: section.rows.map(row => section.columns.map(col => toPdfText(row[col.key], section.report.locale))),
+      startY: y,
+      theme: 'grid',
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    });
+    // @ts-ignore
+    y = doc.lastAutoTable.finalY + 12;
+  });
+
+  doc.save(`${title.replace(/\s+/g, '_')}.pdf`);
+};
+
+// A stock quantity, with its unit when known
+export const formatQuantity = (value: number, unit = '', locale?: LocaleConfig) =>
+  `${formatNumber(value, locale)}${unit ? ` ${unit}` : ''}`;
+
+// Current stock first (low items marked), then every movement with its running balance
+export const downloadStockLedgerPDF = (title: string, ledger: StockLedger, locale?: LocaleConfig) => {
+  const quantity = (value: number) => formatQuantity(value, '', locale);
+  // @ts-ignore
+  const { jsPDF } = window.jspdf;
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const siteColumn = ledger.bySite ? ['Site'] : [];
+
+  doc.setFontSize(18);
+  doc.text(`${title} - Stock Ledger`, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`Generated on ${formatDisplayDate(Date.now(), locale)}`, 14, 30);
+
+  doc.setFontSize(14);
+  doc.setTextColor(30);
+  doc.text('Current stock', 14, 42);
+  // @ts-ignore
+  doc.autoTable({
+    head: [['Material', ...siteColumn, 'Inward', 'Outward', 'Balance', 'Unit', 'Reorder level', 'Status']],
+    body: ledger.positions.map(p => [
+      p.material,
+      ...(ledger.bySite ? [p.site] : []),
+      quantity(p.inward),
+      quantity(p.outward),
+      quantity(p.balance),
+      p.unit,
+      p.reorderLevel === undefined ? '' : quantity(p.reorderLevel),
+      p.low ? 'LOW' : ''
+    ]),
+    startY: 46,
+    theme: 'grid',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    // @ts-ignore
+    didParseCell: (cell) => {
+      if (cell.section === 'body' && ledger.positions[cell.row.index]?.low) cell.cell.styles.textColor = [190, 18, 60];
+    },
+    margin: { bottom: 16 },
+  });
+
+  // @ts-ignore
+  const movementsY = doc.lastAutoTable.finalY + 14;
+  doc.setFontSize(14);
+  doc.setTextColor(30);
+  doc.text('Movements', 14, movementsY);
+  // @ts-ignore
+  doc.autoTable({
+    head: [['Date', 'Material', ...siteColumn, 'Inward', 'Outward', 'Balance', 'Unit']],
+    body: ledger.movements.map(m => [
+      isNaN(m.timestamp) ? '' : formatDisplayDate(m.timestamp, locale),
+      m.material,
+      ...(ledger.bySite ? [m.site] : []),
+      m.direction === 'inward' ? quantity(m.quantity) : '',
+      m.direction === 'outward' ? quantity(m.quantity) : '',
+      quantity(m.balance),
+      m.unit
+    ]),
+    startY: movementsY + 4,
     theme: 'grid',
     styles: { fontSize: 8 },
     headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    margin: { bottom: 16 },
   });
 
-  doc.save(`${title.replace(/\s+/g, '_')}_Report.pdf`);
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
+  }
+
+  doc.save(`${title.replace(/\s+/g, '_')}_Stock_Ledger.pdf`);
 };
 
+// A party's account as of a date: bills and payments with the running balance, then the ageing of what's unpaid
+export const downloadPartyStatementPDF = (
+  title: string,
+  balance: PartyBalance,
+  entries: PaymentEntry[],
+  particulars: string[],
+  asOf: number,
+  ageingLabels: string[],
+  locale?: LocaleConfig
+) => {
+  // @ts-ignore
+  const { jsPDF } = window.jspdf;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const money = (amount: number) => toPdfText(formatCurrency(amount, locale));
+
+  doc.setFontSize(18);
+  doc.text(`Statement of Account - ${balance.party}`, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`${title} · as of ${formatDisplayDate(asOf, locale)}`, 14, 30);
+  doc.text(`Generated on ${formatDisplayDate(Date.now(), locale)}`, 14, 36);
+
+  // @ts-ignore
+  doc.autoTable({
+    head: [['Date', 'Particulars', 'Billed', 'Paid', 'Balance']],
+    body: entries.map((entry, index) => [
+      isNaN(entry.timestamp) ? '' : formatDisplayDate(entry.timestamp, locale),
+      toPdfText(particulars[index] || ''),
+      entry.kind === 'due' ? money(entry.amount) : '',
+      entry.kind === 'paid' ? money(entry.amount) : '',
+      money(entry.balance)
+    ]),
+    foot: [['', 'Total', money(balance.billed), money(balance.paid), money(balance.outstanding)]],
+    showFoot: 'lastPage',
+    startY: 44,
+    theme: 'grid',
+    styles: { fontSize: 8 },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+    headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    footStyles: { fillColor: [241, 245, 249], textColor: [30, 41, 59], fontStyle: 'bold' },
+    margin: { bottom: 16 },
+  });
+
+  // @ts-ignore
+  doc.autoTable({
+    head: [[...ageingLabels, 'Outstanding']],
+    body: [[...balance.ageing.map(money), money(balance.outstanding)]],
+    // @ts-ignore
+    startY: doc.lastAutoTable.finalY + 10,
+    theme: 'grid',
+    styles: { fontSize: 9, halign: 'right' },
+    headStyles: { fillColor: [100, 116, 139] }, // Slate-500
+    margin: { bottom: 16 },
+  });
+
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
+  }
+
+  doc.save(`${balance.party.replace(/\s+/g, '_')}_Statement.pdf`);
+};
+
+// The muster grid as handed to the accountant: the last row is the totals, and the sign-off
+// lines go under the table on the last page
+export const downloadMusterRollPDF = (
+  title: string,
+  period: string,
+  columns: ColumnDefinition[],
+  rows: LogEntry[],
+  notes: string[] = [],
+  locale?: LocaleConfig
+) => {
+  // @ts-ignore
+  const { jsPDF } = window.jspdf;
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const toCell = (row: LogEntry, col: ColumnDefinition) =>
+    isCurrencyColumn(col) && typeof row[col.key] === 'number'
+      ? toPdfText(formatCurrency(row[col.key] as number, locale))
+      : toPdfText(row[col.key], locale);
+  const body = rows.slice(0, -1).map(row => columns.map(col => toCell(row, col)));
+  const foot = rows.slice(-1).map(row => columns.map(col => toCell(row, col)));
+
+  doc.setFontSize(18);
+  doc.text(`${title} - Muster Roll`, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`Period: ${period}`, 14, 30);
+  doc.setFontSize(9);
+  let y = 36;
+  [...notes, 'P = full day, H = half day', `Generated on ${formatDisplayDate(Date.now(), locale)}`].forEach(line => {
+    doc.text(toPdfText(line), 14, y);
+    y += 4.5;
+  });
+
+  // @ts-ignore
+  doc.autoTable({
+    head: [columns.map(col => col.label)],
+    body,
+    foot,
+    showFoot: 'lastPage',
+    startY: y + 2,
+    theme: 'grid',
+    styles: { fontSize: columns.length > 20 ? 6 : 8, cellPadding: 1.5, halign: 'center' },
+    columnStyles: { 1: { halign: 'left' } },
+    headStyles: { fillColor: [59, 130, 246] }, // Blue-500
+    footStyles: { fillColor: [241, 245, 249], textColor: [30, 41, 59], fontStyle: 'bold' },
+    margin: { bottom: 16 },
+  });
+
+  // @ts-ignore
+  let signY = doc.lastAutoTable.finalY + 24;
+  if (signY > pageHeight - 20) {
+    doc.addPage();
+    signY = 40;
+  }
+  doc.setFontSize(10);
+  doc.setTextColor(30);
+  ['Prepared by', 'Checked by', 'Approved by'].forEach((label, index) => {
+    const x = 14 + index * ((pageWidth - 28) / 3);
+    doc.line(x, signY, x + 60, signY);
+    doc.text(label, x, signY + 5);
+  });
+
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
+  }
+
+  doc.save(`${title.replace(/\s+/g, '_')}_Muster_Roll.pdf`);
+};
+
+// Strips currency symbols and grouping so "₹1,250.00" reads as 1250
+export const parseAmount = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (value === null || value instanceof Date) return NaN;
+  return parseFloat(value.replace(/[^0-9.-]+/g, ""));
+};
+
+export const findAmountKey = (keys: string[]): string | undefined =>
+  keys.find(k => /amount|cost|price|total|value/i.test(k));
+
 export const calculateTotalAmount = (data: LogEntry[]): number => {
   if (data.length === 0) return 0;
   const keys = Object.keys(data[0]);
-  const amountKey = keys.find(k => /amount|cost|price|total|value/i.test(k));
+  const amountKey = findAmountKey(keys);
   
   if (!amountKey) return 0;
 
   return data.reduce((sum, row) => {
-    const val = String(row[amountKey]).replace(/[^0-9.-]+/g, "");
-    return sum + (parseFloat(val) || 0);
+    return sum + (parseAmount(row[amountKey]) || 0);
   }, 0);
-};
\ No newline at end of file
+};
+
+// DD/MM/YYYY, the format the sheets use, unless the report's locale says otherwise
+export const formatDisplayDate = (timestamp: number, locale?: LocaleConfig): string => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const [day, month, year] = [pad(d.getDate()), pad(d.getMonth() + 1), d.getFullYear()];
+  switch (resolveLocale(locale).dateFormat) {
+    case 'MM/DD/YYYY': return `${month}/${day}/${year}`;
+    case 'YYYY-MM-DD': return `${year}-${month}-${day}`;
+    default: return `${day}/${month}/${year}`;
+  }
+};
+
+export const formatDisplayDateTime = (timestamp: number, locale?: LocaleConfig): string => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${formatDisplayDate(timestamp, locale)} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// Text form of a cell for display, search, filters and exports
+export const cellText = (value: CellValue | undefined, locale?: LocaleConfig): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+    return hasTime ? formatDisplayDateTime(value.getTime(), locale) : formatDisplayDate(value.getTime(), locale);
+  }
+  return String(value);
+};
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999).getTime();
+
+export const ALL_DATES: DateRange = { preset: 'all', start: null, end: null };
+
+// Turns a preset into concrete bounds relative to `now`. Weeks start on Monday.
+export const resolveDateRange = (preset: DateRangePreset, now: Date = new Date()): DateRange => {
+  const y = now.getFullYear();
+  const m = now.getMonth();
+  const day = now.getDate();
+
+  switch (preset) {
+    case 'today':
+      return { preset, start: startOfDay(now), end: endOfDay(now) };
+    case 'yesterday': {
+      const yesterday = new Date(y, m, day - 1);
+      return { preset, start: startOfDay(yesterday), end: endOfDay(yesterday) };
+    }
+    case 'thisWeek': {
+      const offset = (now.getDay() + 6) % 7;
+      return { preset, start: startOfDay(new Date(y, m, day - offset)), end: endOfDay(now) };
+    }
+    case 'thisMonth':
+      return { preset, start: new Date(y, m, 1).getTime(), end: endOfDay(now) };
+    case 'lastMonth':
+      return { preset, start: new Date(y, m - 1, 1).getTime(), end: endOfDay(new Date(y, m, 0)) };
+    default:
+      return { ...ALL_DATES, preset };
+  }
+};
+
+// yyyy-mm-dd in local time, as used by <input type="date"> and shared links
+export const toInputValue = (timestamp: number | null) => {
+  if (timestamp === null) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const fromInputValue = (value: string, endOfDay: boolean): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+// A custom range covering the single day that contains `timestamp`
+export const getDayRange = (timestamp: number): DateRange => {
+  const d = new Date(timestamp);
+  return { preset: 'custom', start: startOfDay(d), end: endOfDay(d) };
+};
+
+export const isDateRangeActive = (range: DateRange) => range.start !== null || range.end !== null;
+
+export const isWithinDateRange = (timestamp: number, range: DateRange): boolean => {
+  if (!isDateRangeActive(range)) return true;
+  if (isNaN(timestamp)) return false;
+  if (range.start !== null && timestamp < range.start) return false;
+  if (range.end !== null && timestamp > range.end) return false;
+  return true;
+};
+
+export const formatDateRange = (range: DateRange, locale?: LocaleConfig): string => {
+  if (range.start !== null && range.end !== null) {
+    const start = formatDisplayDate(range.start, locale);
+    const end = formatDisplayDate(range.end, locale);
+    return start === end ? start : `${start} to ${end}`;
+  }
+  if (range.start !== null) return `From ${formatDisplayDate(range.start, locale)}`;
+  if (range.end !== null) return `Until ${formatDisplayDate(range.end, locale)}`;
+  return 'All dates';
+};
+
+// The column a report is usually filtered by: an explicit "Date" column wins over a form Timestamp
+export const getMainDateColumn = (columns: ColumnDefinition[]): ColumnDefinition | undefined => {
+  const dateColumns = columns.filter(col => col.isDate);
+  return dateColumns.find(col => /date/i.test(col.key)) || dateColumns[0];
+};
+
+// Short axis labels such as 1.2K or 3.4L
+export const formatCompactNumber = (value: number, locale?: LocaleConfig): string =>
+  getNumberFormat(locale, 'compact').format(value);